@@ -65,6 +65,77 @@ export interface SolidMcpConfig {
    * `false` to enable the `solid_write` tool / `writeResource`.
    */
   readOnly?: boolean;
+  /**
+   * Human-in-the-loop mode for the MCP server's mutating tools: when `true`, each
+   * one first asks the client (an MCP elicitation) to approve the operation,
+   * target and a preview of the change, and proceeds only on an explicit approval.
+   * Fails CLOSED — a client without elicitation support gets no writes at all.
+   * Default `false`. Has no effect on the programmatic pod operations.
+   */
+  confirmWrites?: boolean;
+  /**
+   * The largest body (in bytes, after any base64 decoding) a single write may
+   * upload. Defaults to 10 MiB. Guards the pod — and the process, which holds
+   * the decoded body in memory — against an oversized agent upload.
+   */
+  maxUploadBytes?: number;
+  /**
+   * The most bytes a single read returns (default 1 MiB). Larger resources come
+   * back truncated, with the offset to continue from — fetched with an HTTP
+   * `Range` where the server supports it, stream-truncated where it does not.
+   */
+  maxBytes?: number;
+  /**
+   * An in-pod container (e.g. `".solid-mcp/trash/"`, relative to `podRoot`) to
+   * journal every overwrite and delete into: the previous representation is
+   * copied there first, with an RDF record of the original URL, Content-Type and
+   * time, so `undoChanges` / `solid_undo` can put it back. Unset: no journal.
+   */
+  trashContainer?: string;
+  /**
+   * Narrow WHERE writes may land, below the all-or-nothing `readOnly` switch. When
+   * unset, every write target in the pod is writable (once writes are enabled).
+   * See {@link WritableScopes}; enforced by {@link requireWritableUrl}.
+   */
+  writableScopes?: WritableScopes;
+  /**
+   * A local file path for an on-disk search index. Once `reindex` /
+   * `solid_reindex` has built it, `search` answers from it instead of crawling
+   * the pod. Unset: every search crawls.
+   */
+  indexPath?: string;
+}
+
+/** The kinds of mutation a {@link WritableScope} rule can be limited to. */
+export type WriteOperation = "create" | "put" | "patch" | "delete";
+
+/** Every {@link WriteOperation}, in a stable order. */
+export const WRITE_OPERATIONS: readonly WriteOperation[] = ["create", "put", "patch", "delete"];
+
+/**
+ * One writable-scope rule: a pod URL and (optionally) the operations it covers.
+ * A `prefix` ending in `/` covers that container's whole subtree; any other
+ * prefix covers exactly that one resource. Relative prefixes resolve against
+ * `podRoot`; every prefix must be within the pod.
+ */
+export interface WritableScope {
+  /** The container (subtree) or resource URL this rule covers. */
+  prefix: string;
+  /** The operations the rule applies to. Default: all of them. */
+  operations?: WriteOperation[];
+}
+
+/**
+ * Per-subtree write permissions. A write of operation `op` to `url` is allowed
+ * iff (a) `allow` is absent/empty OR some `allow` rule covering `op` matches
+ * `url`, AND (b) no `deny` rule covering `op` matches `url` — deny wins. A plain
+ * string is shorthand for a rule covering every operation.
+ */
+export interface WritableScopes {
+  /** Where writes MAY land. Absent or empty: anywhere in the pod. */
+  allow?: Array<string | WritableScope>;
+  /** Where writes may NOT land, even inside an allowed subtree. */
+  deny?: Array<string | WritableScope>;
 }
 
 /**
@@ -215,6 +286,130 @@ export function scopedFetch(config: { podRoot: string; fetch: typeof fetch }): t
   return wrapped as typeof fetch;
 }
 
+/** A {@link WritableScope} with its prefix resolved + scope-checked. */
+interface ResolvedScope {
+  prefix: string;
+  operations: readonly WriteOperation[];
+}
+
+/** Resolve one rule list, throwing on an out-of-pod prefix or unknown operation. */
+function resolveScopes(
+  config: { podRoot: string },
+  rules: Array<string | WritableScope> | undefined,
+  list: "allow" | "deny",
+): ResolvedScope[] {
+  return (rules ?? []).map((rule) => {
+    const { prefix, operations } = typeof rule === "string" ? { prefix: rule } : rule;
+    let resolved: string;
+    try {
+      resolved = requirePodScopedUrl(config, prefix);
+    } catch (err) {
+      throw new Error(
+        `writableScopes.${list}: ${JSON.stringify(prefix)} is not a pod URL (${err instanceof Error ? err.message : String(err)})`,
+      );
+    }
+    for (const op of operations ?? []) {
+      if (!WRITE_OPERATIONS.includes(op)) {
+        throw new Error(
+          `writableScopes.${list}: unknown operation ${JSON.stringify(op)} for ${resolved} ` +
+            `(expected one of ${WRITE_OPERATIONS.join(", ")}).`,
+        );
+      }
+    }
+    return { prefix: resolved, operations: operations ?? WRITE_OPERATIONS };
+  });
+}
+
+/** Does `rule` cover `op` on the canonical `url`? (`/`-ending prefix = subtree.) */
+function scopeMatches(rule: ResolvedScope, url: string, op: WriteOperation): boolean {
+  if (!rule.operations.includes(op)) return false;
+  return url === rule.prefix || (rule.prefix.endsWith("/") && url.startsWith(rule.prefix));
+}
+
+/**
+ * Validate a config's {@link SolidMcpConfig.writableScopes} eagerly (every prefix
+ * in-pod, every operation known), throwing a clear error otherwise — so a typo
+ * fails at startup rather than silently denying (or, worse, widening) writes.
+ */
+export function validateWritableScopes(config: SolidMcpConfig): void {
+  resolveScopes(config, config.writableScopes?.allow, "allow");
+  resolveScopes(config, config.writableScopes?.deny, "deny");
+}
+
+/**
+ * Check the configured {@link WritableScopes} for an `op` on `url` (pod-scoped;
+ * the root is allowed, as the container a create POSTs to may be the root).
+ * Returns the canonical URL; throws a `write-scope violation:` error when it is
+ * outside every allowed scope or inside a denied one.
+ */
+export function requireWritableScope(
+  config: SolidMcpConfig,
+  url: string,
+  op: WriteOperation,
+): string {
+  const target = requirePodScopedUrl(config, url);
+  const scopes = config.writableScopes;
+  if (!scopes) return target;
+  const allow = resolveScopes(config, scopes.allow, "allow");
+  if (allow.length > 0 && !allow.some((rule) => scopeMatches(rule, target, op))) {
+    throw new Error(
+      `write-scope violation: ${op} on ${target} is outside every writable scope ` +
+        `(${allow.map((r) => r.prefix).join(", ")}).`,
+    );
+  }
+  const denied = resolveScopes(config, scopes.deny, "deny").find((rule) =>
+    scopeMatches(rule, target, op),
+  );
+  if (denied) {
+    throw new Error(`write-scope violation: ${op} on ${target} is denied by ${denied.prefix}.`);
+  }
+  return target;
+}
+
+/**
+ * The PERMISSION guard for a mutation of an existing-or-new resource:
+ * {@link requirePodScopedWriteUrl} (strictly under the pod root), then
+ * {@link requireWritableScope} for `op`. Returns the canonical target URL.
+ */
+export function requireWritableUrl(
+  config: SolidMcpConfig,
+  url: string,
+  op: WriteOperation,
+): string {
+  return requireWritableScope(config, requirePodScopedWriteUrl(config, url), op);
+}
+
+/**
+ * Parse the CLI's `SOLID_MCP_WRITABLE_SCOPES` syntax: comma-separated entries of
+ * the form `[!][ops=]prefix`, where a leading `!` makes a deny rule and `ops` is
+ * a `+`-joined operation list (e.g. `create+patch=tasks/`). Prefixes may be
+ * relative to the pod root. Example: `agent-notes/,create+patch=tasks/,!tasks/archive/`.
+ */
+export function parseWritableScopes(spec: string): WritableScopes {
+  const allow: WritableScope[] = [];
+  const deny: WritableScope[] = [];
+  for (const raw of spec.split(",")) {
+    let entry = raw.trim();
+    if (entry.length === 0) continue;
+    const list = entry.startsWith("!") ? deny : allow;
+    if (entry.startsWith("!")) entry = entry.slice(1);
+    // `ops=` only counts as an operation list when it is made of operation
+    // names, so an `=` inside a URL (a query string) is never misread.
+    const eq = entry.indexOf("=");
+    const head = eq === -1 ? "" : entry.slice(0, eq);
+    if (eq !== -1 && /^[a-z]+(?:\+[a-z]+)*$/.test(head)) {
+      const operations = head.split("+") as WriteOperation[];
+      list.push({ prefix: entry.slice(eq + 1), operations });
+    } else {
+      list.push({ prefix: entry });
+    }
+  }
+  const scopes: WritableScopes = {};
+  if (allow.length > 0) scopes.allow = allow;
+  if (deny.length > 0) scopes.deny = deny;
+  return scopes;
+}
+
 /** True when writes are enabled (the caller explicitly opted out of read-only). */
 export function writesEnabled(config: SolidMcpConfig): boolean {
   return config.readOnly === false;
@@ -6,6 +6,16 @@
  *   - SOLID_MCP_POD_ROOT   (REQUIRED) absolute http(s) container URL ending in '/'
  *   - SOLID_MCP_WEBID      (optional) the owner WebID, enabling Type-Index search
  *   - SOLID_MCP_READONLY   (default "true"; set "false" to enable writes)
+ *   - SOLID_MCP_CONFIRM_WRITES (default "false"; "true" asks a human to approve
+ *     each write via MCP elicitation)
+ *   - SOLID_MCP_MAX_UPLOAD_BYTES (optional) cap on a single write's body, in bytes
+ *   - SOLID_MCP_MAX_BYTES  (optional) cap on a single read's body, in bytes
+ *   - SOLID_MCP_TRASH_CONTAINER (optional) in-pod container journaling every
+ *     overwrite / delete for solid_undo, e.g. ".solid-mcp/trash/"
+ *   - SOLID_MCP_WRITABLE_SCOPES (optional) where writes may land, e.g.
+ *     "agent-notes/,create+patch=tasks/,!tasks/archive/" (see parseWritableScopes)
+ *   - SOLID_MCP_INDEX_PATH (optional) local file for the search index that
+ *     solid_reindex builds and solid_search then answers from
  *   - SOLID_MCP_CLIENT_ID / SOLID_MCP_CLIENT_SECRET / SOLID_MCP_OIDC_ISSUER /
  *     SOLID_MCP_TOKEN_URL  (optional) headless client-credentials login inputs.
  *
@@ -19,9 +29,21 @@
  * This file stays thin — all testable logic lives in server.ts / pod.ts / auth.ts.
  */
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import type { SolidMcpConfig } from "./auth.js";
+import { parseWritableScopes, type SolidMcpConfig } from "./auth.js";
 import { createSolidMcpServer } from "./server.js";
 
+/** Read an optional positive-integer env var; `null` (after reporting it) when invalid. */
+function positiveIntegerEnv(name: string): number | undefined | null {
+  const raw = process.env[name];
+  if (!raw) return undefined;
+  const value = Number(raw);
+  if (!Number.isSafeInteger(value) || value <= 0) {
+    process.stderr.write(`[solid-mcp] ${name} must be a positive integer, got: ${raw}\n`);
+    return null;
+  }
+  return value;
+}
+
 /** Resolve the auth fetch for the CLI. M1: unauthenticated fallback only. */
 function resolveCliFetch(): typeof fetch {
   const hasCreds =
@@ -58,6 +80,23 @@ async function main(): Promise<void> {
   };
   const webId = process.env.SOLID_MCP_WEBID;
   if (webId) config.webId = webId;
+  if ((process.env.SOLID_MCP_CONFIRM_WRITES ?? "").toLowerCase() === "true") {
+    config.confirmWrites = true;
+  }
+  const maxUploadBytes = positiveIntegerEnv("SOLID_MCP_MAX_UPLOAD_BYTES");
+  const maxBytes = positiveIntegerEnv("SOLID_MCP_MAX_BYTES");
+  if (maxUploadBytes === null || maxBytes === null) {
+    process.exit(1);
+    return;
+  }
+  if (maxUploadBytes !== undefined) config.maxUploadBytes = maxUploadBytes;
+  if (maxBytes !== undefined) config.maxBytes = maxBytes;
+  const trashContainer = process.env.SOLID_MCP_TRASH_CONTAINER;
+  if (trashContainer) config.trashContainer = trashContainer;
+  const writableScopes = process.env.SOLID_MCP_WRITABLE_SCOPES;
+  if (writableScopes) config.writableScopes = parseWritableScopes(writableScopes);
+  const indexPath = process.env.SOLID_MCP_INDEX_PATH;
+  if (indexPath) config.indexPath = indexPath;
 
   // createSolidMcpServer validates podRoot eagerly — surface a bad value clearly.
   let server: ReturnType<typeof createSolidMcpServer>;
@@ -13,22 +13,86 @@
 
 export {
   normalizePodRoot,
+  parseWritableScopes,
   podScopedUrlOrUndefined,
   requirePodScopedUrl,
   requirePodScopedWriteUrl,
+  requireWritableUrl,
   type SolidMcpConfig,
+  type WritableScope,
+  type WritableScopes,
+  type WriteOperation,
   writesEnabled,
 } from "./auth.js";
 export {
+  type BatchOperation,
+  type BatchResult,
+  type BatchStepResult,
+  type BatchStepStatus,
+  batchWrite,
+  type CrawlOptions,
+  type CreateOptions,
+  copyResource,
+  createResource,
+  type DeleteOptions,
+  type DeleteResult,
+  deleteResource,
+  describedByOf,
+  diffRdf,
+  type ExtractFormat,
+  type ExtractOptions,
+  extractText,
+  type JournalEntry,
+  type ListOptions,
+  type ListPage,
+  type ListSortKey,
   listContainer,
+  listContainerPage,
+  listJournal,
+  type MetadataResult,
+  moveResource,
+  type PatchFormat,
+  type PatchOptions,
   type PodChild,
+  patchResource,
+  querySparql,
+  type RdfDiff,
+  type RdfFormat,
+  type ReadOptions,
   type ReadRdfResult,
   type ReadResult,
+  type ReindexOptions,
+  type ReindexResult,
+  readMetadata,
   readRdf,
   readResource,
+  reindex,
+  type SearchHit,
   type SearchMatch,
   type SearchOptions,
+  type SerializeOptions,
+  type SparqlJsonResults,
+  type SparqlJsonTerm,
+  type SparqlOptions,
+  type SparqlResult,
+  type StatLinks,
+  type StatResult,
+  type SummaryFormat,
   search,
+  serializeRdf,
+  statResource,
+  summarizeRdf,
+  type TransferOptions,
+  type TransferResult,
+  type TransferredResource,
+  type TreeNode,
+  type TreeOptions,
+  type TreeResult,
+  type UndoOptions,
+  type UndoResult,
+  undoChanges,
+  type WriteOptions,
+  walkTree,
   writeResource,
 } from "./pod.js";
 export { createSolidMcpServer } from "./server.js";
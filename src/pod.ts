@@ -5,18 +5,31 @@
  * RDF discipline (house rule): we NEVER hand-build or hand-parse RDF. Container
  * listings are parsed via `@jeswr/fetch-rdf` (`fetchRdf`) + `@solid/object`
  * (`ContainerDataset`), and any RDF representation we hand back to a client is
- * re-serialised with `n3.Writer` over the parsed quads.
+ * re-serialised over the parsed quads — `n3.Writer`, or jsonld-streaming-serializer
+ * for JSON-LD.
  */
+import { createHash, randomUUID } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, resolve as resolvePath } from "node:path";
+import { QueryEngine } from "@comunica/query-sparql-rdfjs-lite";
 import { fetchRdf } from "@jeswr/fetch-rdf";
 import { isContainerUrl } from "@jeswr/guarded-fetch";
+import type { Quad, Term } from "@rdfjs/types";
 import { ContainerDataset } from "@solid/object";
-import { DataFactory, Writer } from "n3";
+import { Parser as HtmlParser } from "htmlparser2";
+import LinkHeader from "http-link-header";
+import { ContextParser, type JsonLdContext } from "jsonld-context-parser";
+import { JsonLdSerializer } from "jsonld-streaming-serializer";
+import { DataFactory, Parser, Store, Writer } from "n3";
 import {
   podScopedUrlOrUndefined,
   requirePodScopedUrl,
   requirePodScopedWriteUrl,
+  requireWritableScope,
+  requireWritableUrl,
   type SolidMcpConfig,
   scopedFetch,
+  type WriteOperation,
   writesEnabled,
 } from "./auth.js";
 
@@ -48,6 +61,25 @@ export interface ReadResult {
   base64?: string;
   /** The resource ETag, if the server returned one. */
   etag?: string;
+  /**
+   * The byte offset this part starts at. Set — with `truncated` — only when the
+   * read is partial: it started past 0 or stopped at the byte limit.
+   */
+  offset?: number;
+  /** Whether the resource continues past the returned bytes (partial reads only). */
+  truncated?: boolean;
+  /** Where the next part starts — pass it as `offset` to keep paging. Iff `truncated`. */
+  nextOffset?: number;
+  /** The resource's full size in bytes, when known (partial reads only). */
+  totalSize?: number;
+}
+
+/** Options for {@link readResource}. */
+export interface ReadOptions {
+  /** The byte offset to start reading at (default 0). */
+  offset?: number;
+  /** Read at most this many bytes (never more than the config's `maxBytes`). */
+  length?: number;
 }
 
 /** The result of reading an RDF resource as Turtle. */
@@ -64,18 +96,68 @@ export interface SearchMatch {
   url: string;
   /** Human-friendly name. */
   name: string;
-  /** A short snippet explaining why it matched (url/name/literal), if relevant. */
+  /**
+   * A short snippet explaining why it matched — its strongest hit, labelled
+   * (`name/url match`, `literal: …`, `text: …`, `type-index instance`).
+   */
   snippet?: string;
+  /** Its relevance to the query (BM25F); higher is stronger. */
+  score?: number;
+  /** Its strongest hits (at most three), the ones covering most of the query first. */
+  hits?: SearchHit[];
+}
+
+/** One passage of a {@link SearchMatch} that contains words of the query. */
+export interface SearchHit {
+  /** Where the passage is: the resource's name, its path in the pod, an RDF literal, or a document's text. */
+  field: "name" | "url" | "literal" | "text";
+  /** The passage, each query word in it wrapped in `**`. */
+  snippet: string;
+  /** For a literal: the subject of its triple (an IRI, or `_:label` for a blank node). */
+  subject?: string;
+  /** For a literal: the predicate of its triple. */
+  predicate?: string;
+}
+
+/**
+ * The bounds of a pod crawl — shared by {@link search}, {@link walkTree},
+ * {@link querySparql} and {@link reindex}. The depth and resource caps are
+ * exact, and the crawl visits the same resources in the same order however
+ * its requests interleave.
+ */
+export interface CrawlOptions {
+  /** Max container depth below the starting container (default 4). */
+  maxDepth?: number;
+  /** Max total resources visited (default 500). */
+  maxResources?: number;
+  /** How many requests the crawl makes at once (default 8). */
+  concurrency?: number;
+  /** How many of those may go to any one host at once (default 4). */
+  perHost?: number;
 }
 
 /** Options controlling {@link search}. */
-export interface SearchOptions {
+export interface SearchOptions extends CrawlOptions {
   /** Restrict the crawl to this sub-container (must be within the pod). */
   scope?: string;
-  /** Max recursion depth for the container scan (default 4). */
-  maxDepth?: number;
-  /** Max total resources visited in the scan (default 500). */
-  maxResources?: number;
+  /**
+   * Only resources of this `rdf:type` (an absolute IRI): typed so in their
+   * container listing or — for RDF documents — with a subject of that type.
+   */
+  type?: string;
+  /**
+   * Only resources of this media type, as their listing advertises it; a
+   * `family/*` pattern (e.g. `"image/*"`) matches the whole family.
+   */
+  mimeType?: string;
+  /** Only resources last modified at or after this time (ISO 8601), per their listing. */
+  modifiedAfter?: string;
+  /** Only resources last modified at or before this time (ISO 8601), per their listing. */
+  modifiedBefore?: string;
+  /** Only containers, or only non-containers (files). */
+  kind?: "container" | "file";
+  /** Return at most this many matches (the strongest). */
+  limit?: number;
 }
 
 /**
@@ -161,38 +243,516 @@ export async function listContainer(config: SolidMcpConfig, url: string): Promis
   return children;
 }
 
+/** What {@link listContainerPage} can order children by. */
+export type ListSortKey = "name" | "modified" | "size";
+
+/** Options for {@link listContainerPage}: filters, an order, and a page. */
+export interface ListOptions {
+  /** Only children with this rdf:type (a full IRI). */
+  type?: string;
+  /** Only children with this MIME type — exact, or a `family/*` wildcard such as `image/*`. */
+  mimeType?: string;
+  /** Only containers (`true`) or only non-containers (`false`). */
+  isContainer?: boolean;
+  /** Only children whose name matches this glob (`*` and `?`; case-insensitive). */
+  name?: string;
+  /** Only children modified at or after this date (ISO 8601). */
+  modifiedSince?: string;
+  /** Sort by name (the default), modified time or size. Children lacking the key sort last. */
+  sort?: ListSortKey;
+  /** `asc` (the default) or `desc`. */
+  order?: "asc" | "desc";
+  /** The page size (default {@link DEFAULT_LIST_LIMIT}). */
+  limit?: number;
+  /** Resume after a previous page: its `nextCursor`, with the same sort and order. */
+  cursor?: string;
+}
+
+/** One page of a container listing — see {@link listContainerPage}. */
+export interface ListPage {
+  /** The children on this page. */
+  children: PodChild[];
+  /** How many children matched the filters, across all pages. */
+  total: number;
+  /** Pass as `cursor` to get the next page. Absent on the last page. */
+  nextCursor?: string;
+}
+
+/** The default {@link ListOptions.limit}. */
+const DEFAULT_LIST_LIMIT = 100;
+
+/**
+ * A page cursor: the sort it was issued for and the last child returned, so the
+ * next page starts strictly after it — a child added or removed meanwhile does
+ * not shift the page boundary the way an offset would.
+ */
+interface ListCursor {
+  sort: ListSortKey;
+  order: "asc" | "desc";
+  key: string | number | null;
+  url: string;
+}
+
+function sortKeyOf(child: PodChild, sort: ListSortKey): string | number | null {
+  if (sort === "name") return child.name;
+  if (sort === "size") return child.size ?? null;
+  return child.modified ?? null;
+}
+
+/** Compare two sort positions: by key (missing keys last, either order), then by URL. */
+function comparePosition(
+  a: { key: string | number | null; url: string },
+  b: { key: string | number | null; url: string },
+  order: "asc" | "desc",
+): number {
+  if (a.key !== b.key) {
+    if (a.key === null) return 1;
+    if (b.key === null) return -1;
+    const cmp = a.key < b.key ? -1 : 1;
+    return order === "asc" ? cmp : -cmp;
+  }
+  return a.url < b.url ? -1 : a.url > b.url ? 1 : 0;
+}
+
+function decodeListCursor(cursor: string, sort: ListSortKey, order: "asc" | "desc"): ListCursor {
+  let parsed: Partial<ListCursor>;
+  try {
+    parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new Error(`invalid list cursor ${JSON.stringify(cursor)}.`);
+  }
+  const key = parsed?.key;
+  if (
+    typeof parsed?.url !== "string" ||
+    (key !== null && typeof key !== "string" && typeof key !== "number")
+  ) {
+    throw new Error(`invalid list cursor ${JSON.stringify(cursor)}.`);
+  }
+  if (parsed.sort !== sort || parsed.order !== order) {
+    throw new Error(
+      `this cursor continues a listing sorted by ${parsed.sort} ${parsed.order}, not ${sort} ${order} — ` +
+        "pass the same sort and order, or start again without a cursor.",
+    );
+  }
+  return parsed as ListCursor;
+}
+
+/** A case-insensitive RegExp for a `*` / `?` glob over a whole name. */
+function globRegExp(glob: string): RegExp {
+  const body = glob
+    .split("")
+    .map((ch) => (ch === "*" ? ".*" : ch === "?" ? "." : ch.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+    .join("");
+  return new RegExp(`^${body}$`, "is");
+}
+
+/**
+ * List the children of the container at `url` (see {@link listContainer}) one
+ * page at a time, optionally filtered and sorted (see {@link ListOptions}).
+ * Paging uses an opaque cursor naming the last child returned, so a container
+ * with thousands of children can be walked in bounded chunks.
+ */
+export async function listContainerPage(
+  config: SolidMcpConfig,
+  url: string,
+  options: ListOptions = {},
+): Promise<ListPage> {
+  const sort = options.sort ?? "name";
+  const order = options.order ?? "asc";
+  const limit = options.limit ?? DEFAULT_LIST_LIMIT;
+  if (!Number.isSafeInteger(limit) || limit < 1) {
+    throw new Error(`limit must be a positive integer, got ${limit}.`);
+  }
+  let since: number | undefined;
+  if (options.modifiedSince !== undefined) {
+    since = Date.parse(options.modifiedSince);
+    if (Number.isNaN(since)) {
+      throw new Error(
+        `modifiedSince must be an ISO 8601 date, got ${JSON.stringify(options.modifiedSince)}.`,
+      );
+    }
+  }
+  const after =
+    options.cursor === undefined ? undefined : decodeListCursor(options.cursor, sort, order);
+  const nameRe = options.name === undefined ? undefined : globRegExp(options.name);
+  const mime = options.mimeType?.toLowerCase();
+
+  const matched = (await listContainer(config, url)).filter((child) => {
+    if (options.isContainer !== undefined && child.isContainer !== options.isContainer)
+      return false;
+    if (options.type !== undefined && !child.type.includes(options.type)) return false;
+    if (nameRe && !nameRe.test(child.name)) return false;
+    if (mime !== undefined) {
+      const childMime = child.mimeType?.toLowerCase();
+      if (childMime === undefined) return false;
+      if (mime.endsWith("/*") ? !childMime.startsWith(mime.slice(0, -1)) : childMime !== mime) {
+        return false;
+      }
+    }
+    if (since !== undefined) {
+      if (child.modified === undefined || Date.parse(child.modified) < since) return false;
+    }
+    return true;
+  });
+  const positioned = matched
+    .map((child) => ({ child, key: sortKeyOf(child, sort), url: child.url }))
+    .sort((a, b) => comparePosition(a, b, order));
+  const start = after ? positioned.findIndex((p) => comparePosition(p, after, order) > 0) : 0;
+  const pageItems = start === -1 ? [] : positioned.slice(start, start + limit);
+  const page: ListPage = { children: pageItems.map((p) => p.child), total: matched.length };
+  const last = pageItems[pageItems.length - 1];
+  if (last && start + limit < positioned.length) {
+    const cursor: ListCursor = { sort, order, key: last.key, url: last.url };
+    page.nextCursor = Buffer.from(JSON.stringify(cursor)).toString("base64url");
+  }
+  return page;
+}
+
+/** The default cap on one read's body (`SolidMcpConfig.maxBytes`): 1 MiB. */
+const DEFAULT_MAX_READ_BYTES = 1024 * 1024;
+
+/** Parse a `Content-Range` header: `bytes 0-99/1234` (or `bytes *\/1234` on a 416). */
+function parseContentRange(header: string | null): { start?: number; total?: number } | undefined {
+  const m = header?.match(/^bytes (?:(\d+)-\d+|\*)\/(\d+|\*)$/i);
+  if (!m) return undefined;
+  const range: { start?: number; total?: number } = {};
+  if (m[1] !== undefined) range.start = Number(m[1]);
+  if (m[2] !== undefined && m[2] !== "*") range.total = Number(m[2]);
+  return range;
+}
+
+/**
+ * Read at most `max` bytes of a response body, after discarding its first
+ * `skip` bytes, then cancel the stream — so a huge body is never buffered.
+ */
+async function readBounded(
+  res: Response,
+  skip: number,
+  max: number,
+): Promise<Uint8Array<ArrayBuffer>> {
+  if (!res.body) return new Uint8Array(0);
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let skipped = 0;
+  let kept = 0;
+  while (kept < max) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    let chunk = value;
+    if (skipped < skip) {
+      const drop = Math.min(skip - skipped, chunk.byteLength);
+      skipped += drop;
+      chunk = chunk.subarray(drop);
+    }
+    if (chunk.byteLength === 0) continue;
+    chunk = chunk.subarray(0, max - kept);
+    chunks.push(chunk);
+    kept += chunk.byteLength;
+  }
+  await reader.cancel().catch(() => {});
+  const out = new Uint8Array(kept);
+  let at = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, at);
+    at += chunk.byteLength;
+  }
+  return out;
+}
+
+/**
+ * The largest `n <= bytes.length` that does not split a UTF-8 sequence — so a
+ * truncated text part ends on a character boundary (and the next part starts on one).
+ */
+function utf8Boundary(bytes: Uint8Array): number {
+  // Walk back over at most 3 continuation bytes (10xxxxxx) to the sequence's lead byte.
+  let i = bytes.length;
+  let back = 0;
+  while (back < 3 && i - back - 1 >= 0 && ((bytes[i - back - 1] as number) & 0xc0) === 0x80) {
+    back++;
+  }
+  const leadAt = i - back - 1;
+  if (leadAt < 0) return i;
+  const lead = bytes[leadAt] as number;
+  const need = lead >= 0xf0 ? 4 : lead >= 0xe0 ? 3 : lead >= 0xc0 ? 2 : 1;
+  if (back + 1 < need) i = leadAt;
+  return i;
+}
+
 /**
  * Read a resource's raw bytes (pod-scoped) via a plain GET on the injected fetch
  * (NOT fetchRdf — we want the bytes for ANY content type). Decides text vs binary
  * by content-type. Fails CLOSED on 401/403 with a clear "supply an authenticated
  * fetch" error, and on any other non-2xx with the status.
+ *
+ * BOUNDED: at most `length` bytes from `offset` and never more than the config's
+ * `maxBytes` (default 1 MiB) are read. The GET asks for just that window with an
+ * HTTP `Range`; a server that ignores it (a plain 200) is stream-truncated
+ * instead, so a huge body is never buffered. A partial result reports
+ * `truncated`, `nextOffset` and (when known) `totalSize`, so a caller can page.
  */
-export async function readResource(config: SolidMcpConfig, url: string): Promise<ReadResult> {
+export async function readResource(
+  config: SolidMcpConfig,
+  url: string,
+  options: ReadOptions = {},
+): Promise<ReadResult> {
   const target = requirePodScopedUrl(config, url);
-  const res = await scopedFetch(config)(target, { method: "GET" });
+  const offset = options.offset ?? 0;
+  if (!Number.isSafeInteger(offset) || offset < 0) {
+    throw new Error(`offset must be a non-negative integer, got ${offset}.`);
+  }
+  if (
+    options.length !== undefined &&
+    (!Number.isSafeInteger(options.length) || options.length < 1)
+  ) {
+    throw new Error(`length must be a positive integer, got ${options.length}.`);
+  }
+  const limit = Math.min(
+    options.length ?? Number.MAX_SAFE_INTEGER,
+    config.maxBytes ?? DEFAULT_MAX_READ_BYTES,
+  );
+  // One byte past the window, so a body that exactly fills it is not "truncated".
+  const res = await scopedFetch(config)(target, {
+    method: "GET",
+    headers: { range: `bytes=${offset}-${offset + limit}` },
+  });
   if (res.status === 401 || res.status === 403) {
     throw new Error(
       `unauthenticated/forbidden (${res.status}) reading ${target} — supply an authenticated fetch ` +
         "(the Solid-MCP server holds no credentials of its own).",
     );
   }
-  if (!res.ok) {
-    throw new Error(`failed to read ${target}: HTTP ${res.status} ${res.statusText}`);
-  }
   const contentType = bareMediaType(res.headers.get("content-type"));
   const etag = res.headers.get("etag") ?? undefined;
   const result: ReadResult = {};
   if (contentType !== undefined) result.contentType = contentType;
   if (etag !== undefined) result.etag = etag;
-  if (isTextualContentType(contentType)) {
-    result.text = await res.text();
+  const textual = isTextualContentType(contentType);
+
+  if (res.status === 416) {
+    // The offset is at or past the end: an empty, final part — or, from offset 0,
+    // the whole of an empty resource (no byte range of it is satisfiable).
+    const total = parseContentRange(res.headers.get("content-range"))?.total;
+    if (textual) result.text = "";
+    else result.base64 = "";
+    if (offset === 0) {
+      result.totalSize = 0;
+      return result;
+    }
+    result.offset = offset;
+    result.truncated = false;
+    if (total !== undefined) result.totalSize = total;
+    return result;
+  }
+  if (!res.ok) {
+    throw new Error(`failed to read ${target}: HTTP ${res.status} ${res.statusText}`);
+  }
+
+  let skip = 0;
+  let total: number | undefined;
+  if (res.status === 206) {
+    const range = parseContentRange(res.headers.get("content-range"));
+    if (range?.start !== offset) {
+      throw new Error(
+        `failed to read ${target}: the server answered a range request for offset ${offset} ` +
+          `with Content-Range ${JSON.stringify(res.headers.get("content-range"))}.`,
+      );
+    }
+    total = range.total;
+  } else {
+    // The server ignored the Range (a full 200): skip to the offset ourselves.
+    skip = offset;
+    const length = Number(res.headers.get("content-length") ?? Number.NaN);
+    // Content-Length is the ENCODED size when a Content-Encoding applies.
+    if (Number.isSafeInteger(length) && !res.headers.has("content-encoding")) total = length;
+  }
+  const bytes = await readBounded(res, skip, limit + 1);
+  const truncated = bytes.byteLength > limit;
+  let kept = truncated ? bytes.subarray(0, limit) : bytes;
+  if (truncated && textual) kept = kept.subarray(0, utf8Boundary(kept));
+  if (textual) {
+    result.text = new TextDecoder().decode(kept);
   } else {
-    const buf = await res.arrayBuffer();
-    result.base64 = Buffer.from(buf).toString("base64");
+    result.base64 = Buffer.from(kept).toString("base64");
+  }
+  if (offset > 0 || truncated) {
+    result.offset = offset;
+    result.truncated = truncated;
+    if (truncated) result.nextOffset = offset + kept.byteLength;
+    if (total !== undefined) result.totalSize = total;
   }
   return result;
 }
 
+/** The in-pod targets of a resource's `Link` relations (see {@link StatResult}). */
+export interface StatLinks {
+  /** `rel="acl"`: the resource's ACL document. */
+  acl?: string;
+  /** `rel="describedby"`: its description (metadata) resource. */
+  describedby?: string;
+  /** `rel="http://www.w3.org/ns/pim/space#storage"`: the storage root it lives in. */
+  storage?: string;
+}
+
+/** A resource's metadata, read from its response headers (see {@link statResource}). */
+export interface StatResult {
+  /** Absolute URL of the resource. */
+  url: string;
+  /** Whether it is an LDP container (by its URL or an `ldp:Container` type link). */
+  isContainer: boolean;
+  /** The Content-Type (lowercased media type, no params), if any. */
+  contentType?: string;
+  /** The body size in bytes, when the server advertised an unencoded Content-Length. */
+  size?: number;
+  /** The Last-Modified time (ISO 8601), if advertised. */
+  modified?: string;
+  /** The resource ETag, if the server returned one. */
+  etag?: string;
+  /** The `rel="type"` link targets, e.g. `ldp:Resource`, `ldp:BasicContainer`. */
+  types: string[];
+  /** The methods the `Allow` header permits (uppercased), if sent. */
+  allow: string[];
+  /** The `WAC-Allow` header: the access modes granted to this user and to the public. */
+  wacAllow?: { user?: string[]; public?: string[] };
+  /** The acl / describedby / storage links — only those that resolve inside the pod. */
+  links: StatLinks;
+}
+
+const LDP_CONTAINER_TYPES = new Set([
+  "http://www.w3.org/ns/ldp#Container",
+  "http://www.w3.org/ns/ldp#BasicContainer",
+]);
+
+/** The `Link` relations {@link statResource} reports, by their {@link StatLinks} key. */
+const STAT_LINK_RELS: ReadonlyArray<[keyof StatLinks, string]> = [
+  ["acl", "acl"],
+  ["describedby", "describedby"],
+  ["storage", "http://www.w3.org/ns/pim/space#storage"],
+];
+
+/** Parse a `WAC-Allow` header (`user="read write",public="read"`); unknown groups are ignored. */
+function parseWacAllow(header: string | null): StatResult["wacAllow"] {
+  if (header === null) return undefined;
+  const wacAllow: NonNullable<StatResult["wacAllow"]> = {};
+  for (const [, group, modes] of header.matchAll(/([a-z]+)\s*=\s*"([^"]*)"/gi)) {
+    const key = group?.toLowerCase();
+    if (key !== "user" && key !== "public") continue;
+    wacAllow[key] = (modes ?? "").split(/\s+/).filter((m) => m.length > 0);
+  }
+  return wacAllow;
+}
+
+/**
+ * Describe the resource at `url` (pod-scoped) from its headers, without
+ * downloading the body: a HEAD, or — if the server refuses HEAD (405 / 501) — a
+ * GET whose body is discarded. `Link` headers are parsed with http-link-header.
+ *
+ * SECURITY: the headers are UNTRUSTED, like a container listing — every
+ * acl / describedby / storage target is resolved and re-validated against the
+ * pod scope, and one that points outside the pod is DROPPED. (`rel="type"`
+ * targets are vocabulary IRIs, not fetch targets, and are reported as-is.)
+ */
+export async function statResource(config: SolidMcpConfig, url: string): Promise<StatResult> {
+  const target = requirePodScopedUrl(config, url);
+  let res = await scopedFetch(config)(target, { method: "HEAD" });
+  if (res.status === 405 || res.status === 501) {
+    res = await scopedFetch(config)(target, { method: "GET" });
+    await res.body?.cancel();
+  }
+  if (res.status === 401 || res.status === 403) {
+    throw new Error(
+      `unauthenticated/forbidden (${res.status}) reading ${target} — supply an authenticated fetch ` +
+        "(the Solid-MCP server holds no credentials of its own).",
+    );
+  }
+  if (!res.ok) {
+    throw new Error(`failed to stat ${target}: HTTP ${res.status} ${res.statusText}`);
+  }
+
+  const link = LinkHeader.parse(res.headers.get("link") ?? "");
+  const types = link.rel("type").map((ref) => ref.uri);
+  const links: StatLinks = {};
+  for (const [key, rel] of STAT_LINK_RELS) {
+    const ref = link.rel(rel)[0];
+    if (ref === undefined) continue;
+    let resolved: string;
+    try {
+      resolved = new URL(ref.uri, res.url || target).toString();
+    } catch {
+      continue; // unparseable link target — skip.
+    }
+    const inPod = podScopedUrlOrUndefined(config, resolved);
+    if (inPod !== undefined) links[key] = inPod;
+  }
+  const stat: StatResult = {
+    url: target,
+    isContainer: isContainerUrl(target) || types.some((t) => LDP_CONTAINER_TYPES.has(t)),
+    types,
+    allow: (res.headers.get("allow") ?? "")
+      .split(",")
+      .map((m) => m.trim().toUpperCase())
+      .filter((m) => m.length > 0),
+    links,
+  };
+  const contentType = bareMediaType(res.headers.get("content-type"));
+  if (contentType !== undefined) stat.contentType = contentType;
+  const length = Number(res.headers.get("content-length") ?? Number.NaN);
+  // Content-Length is the ENCODED size when a Content-Encoding applies.
+  if (Number.isSafeInteger(length) && !res.headers.has("content-encoding")) stat.size = length;
+  const modified = new Date(res.headers.get("last-modified") ?? Number.NaN);
+  if (!Number.isNaN(modified.getTime())) stat.modified = modified.toISOString();
+  const etag = res.headers.get("etag");
+  if (etag !== null) stat.etag = etag;
+  const wacAllow = parseWacAllow(res.headers.get("wac-allow"));
+  if (wacAllow !== undefined) stat.wacAllow = wacAllow;
+  return stat;
+}
+
+/** A resource's description (metadata) graph — see {@link readMetadata}. */
+export interface MetadataResult {
+  /** Absolute URL of the described resource. */
+  url: string;
+  /** The description resource its `describedby` link points to. */
+  describedBy: string;
+  /** Whether the description resource exists yet (a missing one reads as an empty graph). */
+  exists: boolean;
+  /** The description graph as Turtle (via n3.Writer). */
+  turtle: string;
+  /** The parsed description graph. */
+  dataset: import("n3").Store;
+}
+
+/**
+ * The in-pod description resource that `url` advertises with a `describedby`
+ * link (via {@link statResource}, so an off-pod link never counts). Throws if
+ * the resource advertises none.
+ */
+export async function describedByOf(config: SolidMcpConfig, url: string): Promise<string> {
+  const stat = await statResource(config, url);
+  if (stat.links.describedby === undefined) {
+    throw new Error(
+      `${stat.url} has no description resource: its response carries no in-pod Link rel="describedby".`,
+    );
+  }
+  return stat.links.describedby;
+}
+
+/**
+ * Read the metadata graph (title, tags, licence, …) a Solid server keeps for
+ * `url` — typically a non-RDF resource such as an image or PDF — in the
+ * description resource its `describedby` link names. A description resource
+ * that does not exist yet reads as an empty graph, ready to be patched.
+ */
+export async function readMetadata(config: SolidMcpConfig, url: string): Promise<MetadataResult> {
+  const target = requirePodScopedUrl(config, url);
+  const describedBy = await describedByOf(config, target);
+  const head = await scopedFetch(config)(describedBy, { method: "HEAD" });
+  if (head.status === 404) {
+    return { url: target, describedBy, exists: false, turtle: "", dataset: new Store() };
+  }
+  const { turtle, dataset } = await readRdf(config, describedBy);
+  return { url: target, describedBy, exists: true, turtle, dataset };
+}
+
 /**
  * Fetch an RDF resource (pod-scoped) and return a canonical Turtle view (via
  * n3.Writer — never hand-concatenated) plus the parsed dataset.
@@ -200,15 +760,56 @@ export async function readResource(config: SolidMcpConfig, url: string): Promise
 export async function readRdf(config: SolidMcpConfig, url: string): Promise<ReadRdfResult> {
   const target = requirePodScopedUrl(config, url);
   const { dataset } = await fetchRdf(target, { fetch: scopedFetch(config) });
-  const turtle = await serializeTurtle(dataset);
+  const turtle = await serializeRdf(dataset, "turtle");
   return { turtle, dataset };
 }
 
-/** Serialise an n3.Store to Turtle via n3.Writer (no hand-built triples). */
-function serializeTurtle(dataset: import("n3").Store): Promise<string> {
+/** The RDF serialisations {@link serializeRdf} produces. */
+export type RdfFormat = "turtle" | "jsonld" | "ntriples" | "nquads";
+
+/** Options for {@link serializeRdf}. */
+export interface SerializeOptions {
+  /**
+   * A JSON-LD context to compact IRIs with (`jsonld` only; ignored otherwise). It
+   * must be inline: a context that references a remote context is refused, so a
+   * caller cannot make the server fetch arbitrary URLs.
+   */
+  context?: Record<string, unknown>;
+}
+
+/**
+ * The media type each {@link RdfFormat} is served as. Internal (not re-exported
+ * from index.ts), like {@link RDF_MEDIA_TYPES}.
+ */
+export const RDF_FORMAT_MEDIA_TYPES: Readonly<Record<RdfFormat, string>> = {
+  turtle: "text/turtle",
+  jsonld: "application/ld+json",
+  ntriples: "application/n-triples",
+  nquads: "application/n-quads",
+};
+
+/** The n3.Writer `format` for each non-JSON-LD {@link RdfFormat}. */
+const N3_WRITER_FORMATS = {
+  turtle: "text/turtle",
+  ntriples: "N-Triples",
+  nquads: "N-Quads",
+} as const;
+
+/**
+ * Serialise a parsed dataset (e.g. {@link readRdf}'s) as `format`: Turtle and
+ * N-Triples/N-Quads via n3.Writer, JSON-LD via jsonld-streaming-serializer —
+ * never hand-built.
+ */
+export async function serializeRdf(
+  dataset: import("n3").Store,
+  format: RdfFormat,
+  options: SerializeOptions = {},
+): Promise<string> {
+  const quads = dataset.getQuads(null, null, null, null);
+  if (format === "jsonld") return serializeJsonLd(quads, options.context);
   return new Promise((resolve, reject) => {
-    const writer = new Writer({ format: "text/turtle" });
-    writer.addQuads(dataset.getQuads(null, null, null, null));
+    const writer = new Writer({ format: N3_WRITER_FORMATS[format] });
+    writer.addQuads(quads);
     writer.end((err, result) => {
       if (err) reject(err);
       else resolve(result);
@@ -216,6 +817,419 @@ function serializeTurtle(dataset: import("n3").Store): Promise<string> {
   });
 }
 
+/** Serialise quads as JSON-LD, compacting IRIs against an (inline-only) context. */
+async function serializeJsonLd(quads: Quad[], context?: Record<string, unknown>): Promise<string> {
+  if (context) {
+    // Parse it up front with a loader that refuses: the serializer's own parse
+    // would otherwise fetch any remote context it names.
+    const parser = new ContextParser({
+      documentLoader: {
+        load: async (url: string) => {
+          throw new Error(`remote context ${url} is not fetched; supply the context inline`);
+        },
+      },
+    });
+    try {
+      await parser.parse(context as JsonLdContext);
+    } catch (e) {
+      throw new Error(`invalid JSON-LD context: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  return new Promise((resolve, reject) => {
+    const serializer = new JsonLdSerializer({
+      space: "  ",
+      ...(context ? { context: context as JsonLdContext } : {}),
+    });
+    const chunks: string[] = [];
+    serializer.on("data", (chunk: string | Buffer) => chunks.push(chunk.toString()));
+    serializer.on("error", reject);
+    serializer.on("end", () => resolve(chunks.join("")));
+    for (const quad of quads) serializer.write(quad);
+    serializer.end();
+  });
+}
+
+/** The two shapes of {@link summarizeRdf}: Markdown for reading, compact JSON for tooling. */
+export type SummaryFormat = "markdown" | "json";
+
+/**
+ * The built-in prefix map {@link summarizeRdf} shortens IRIs with — the
+ * vocabularies Solid apps commonly write. (Each prefix names one namespace —
+ * the older `http://schema.org/` is `schema-http` — so the table a summary
+ * prints is unambiguous; a name is only shortened when its local part is a
+ * plain token.)
+ */
+const SUMMARY_PREFIXES: ReadonlyArray<[string, string]> = [
+  ["rdf", "http://www.w3.org/1999/02/22-rdf-syntax-ns#"],
+  ["rdfs", "http://www.w3.org/2000/01/rdf-schema#"],
+  ["xsd", "http://www.w3.org/2001/XMLSchema#"],
+  ["owl", "http://www.w3.org/2002/07/owl#"],
+  ["schema", "https://schema.org/"],
+  ["schema-http", "http://schema.org/"],
+  ["foaf", "http://xmlns.com/foaf/0.1/"],
+  ["vcard", "http://www.w3.org/2006/vcard/ns#"],
+  ["as", "https://www.w3.org/ns/activitystreams#"],
+  ["dct", "http://purl.org/dc/terms/"],
+  ["dc", "http://purl.org/dc/elements/1.1/"],
+  ["ldp", "http://www.w3.org/ns/ldp#"],
+  ["solid", "http://www.w3.org/ns/solid/terms#"],
+  ["pim", "http://www.w3.org/ns/pim/space#"],
+  ["acl", "http://www.w3.org/ns/auth/acl#"],
+  ["posix", "http://www.w3.org/ns/posix/stat#"],
+  ["skos", "http://www.w3.org/2004/02/skos/core#"],
+  ["sioc", "http://rdfs.org/sioc/ns#"],
+  ["prov", "http://www.w3.org/ns/prov#"],
+  ["ical", "http://www.w3.org/2002/12/cal/ical#"],
+  ["wf", "http://www.w3.org/2005/01/wf/flow#"],
+];
+
+const XSD = "http://www.w3.org/2001/XMLSchema#";
+const XSD_STRING = `${XSD}string`;
+/** Datatypes whose lexical form is shown bare (and as a JSON number / boolean). */
+const XSD_NUMERIC = new Set(
+  ["integer", "decimal", "double", "float", "int", "long"].map((t) => XSD + t),
+);
+const XSD_BOOLEAN = `${XSD}boolean`;
+
+/** A value in a JSON summary: a plain string / number / boolean, or a tagged object. */
+type SummaryValue =
+  | string
+  | number
+  | boolean
+  | { id: string }
+  | { text: string; lang: string }
+  | { value: string; type: string };
+
+/**
+ * Group a parsed dataset (e.g. {@link readRdf}'s) by subject into a compact,
+ * model-friendly view: IRIs shortened to prefixed names from a built-in map (or
+ * made relative to `base`, the resource URL — `<>`, `<#me>`), `rdf:type` pulled
+ * up beside each subject, and literals shown plainly (`"Hallo" @de`, bare
+ * numbers). Markdown gives one section per subject; `json` gives
+ * `{ base, prefixes, subjects: [{ id, types, properties }] }`. A summary is
+ * lossy by design — read the document itself to edit it.
+ */
+export function summarizeRdf(
+  dataset: import("n3").Store,
+  base: string,
+  format: SummaryFormat = "markdown",
+): string {
+  const used = new Map<string, string>();
+  const doc = base.split("#")[0] ?? base;
+  const name = (term: Term): string => {
+    if (term.termType === "BlankNode") return `_:${term.value}`;
+    const iri = term.value;
+    if (iri === doc) return "<>";
+    if (iri.startsWith(`${doc}#`)) return `<${iri.slice(doc.length)}>`;
+    for (const [prefix, ns] of SUMMARY_PREFIXES) {
+      const local = iri.slice(ns.length);
+      if (iri.startsWith(ns) && /^[A-Za-z_][\w-]*$/.test(local)) {
+        used.set(prefix, ns);
+        return `${prefix}:${local}`;
+      }
+    }
+    return `<${iri}>`;
+  };
+  const jsonValue = (term: Term): SummaryValue => {
+    if (term.termType !== "Literal") return { id: name(term) };
+    if (term.language) return { text: term.value, lang: term.language };
+    const dt = term.datatype.value;
+    if (dt === XSD_STRING) return term.value;
+    const n = Number(term.value);
+    // Only where a JSON number is exact: a huge xsd:integer stays a string.
+    if (
+      XSD_NUMERIC.has(dt) &&
+      Number.isFinite(n) &&
+      (!Number.isInteger(n) || Number.isSafeInteger(n))
+    ) {
+      return n;
+    }
+    if (dt === XSD_BOOLEAN && (term.value === "true" || term.value === "false")) {
+      return term.value === "true";
+    }
+    return { value: term.value, type: name(term.datatype) };
+  };
+  const markdownValue = (term: Term): string => {
+    const v = jsonValue(term);
+    if (typeof v !== "object") return typeof v === "string" ? JSON.stringify(v) : String(v);
+    if ("id" in v) return v.id;
+    if ("lang" in v) return `${JSON.stringify(v.text)} @${v.lang}`;
+    return `${JSON.stringify(v.value)} (${v.type})`;
+  };
+
+  // Subjects in a stable, readable order: the document, its fragments, other IRIs, blank nodes.
+  const rank = (t: Term) =>
+    t.termType === "BlankNode" ? 3 : t.value === doc ? 0 : t.value.startsWith(`${doc}#`) ? 1 : 2;
+  const subjects = dataset
+    .getSubjects(null, null, null)
+    .sort((a, b) => rank(a) - rank(b) || (a.value < b.value ? -1 : a.value > b.value ? 1 : 0));
+  const grouped = subjects.map((subject) => {
+    const types: string[] = [];
+    const properties = new Map<string, Term[]>();
+    for (const quad of dataset.getQuads(subject, null, null, null)) {
+      if (quad.predicate.value === RDF_TYPE && quad.object.termType === "NamedNode") {
+        types.push(name(quad.object));
+        continue;
+      }
+      const key = name(quad.predicate);
+      properties.set(key, [...(properties.get(key) ?? []), quad.object]);
+    }
+    return { id: name(subject), types, properties };
+  });
+
+  if (format === "json") {
+    return JSON.stringify({
+      base: doc,
+      prefixes: Object.fromEntries(used),
+      subjects: grouped.map(({ id, types, properties }) => ({
+        id,
+        ...(types.length > 0 ? { types } : {}),
+        properties: Object.fromEntries(
+          [...properties].map(([key, values]) => [key, values.map(jsonValue)]),
+        ),
+      })),
+    });
+  }
+  const lines = [`# ${doc}`];
+  for (const { id, types, properties } of grouped) {
+    lines.push("", `## ${id}${types.length > 0 ? ` (${types.join(", ")})` : ""}`);
+    for (const [key, values] of properties) {
+      lines.push(`- ${key}: ${values.map(markdownValue).join("; ")}`);
+    }
+  }
+  if (used.size > 0) {
+    lines.push("", `Prefixes: ${[...used].map(([p, ns]) => `${p}: <${ns}>`).join(", ")}`);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/** How {@link extractText} renders markup: plain text, or Markdown that keeps the structure. */
+export type ExtractFormat = "text" | "markdown";
+
+/** Options for {@link extractText}. */
+export interface ExtractOptions {
+  /** `"text"` (the default) or `"markdown"` — headings, lists, links and emphasis kept. */
+  format?: ExtractFormat;
+  /** The document's URL, which relative links and images in HTML are resolved against. */
+  base?: string;
+}
+
+/** HTML elements whose content is never readable text. */
+const HTML_SKIPPED = new Set([
+  "head",
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "iframe",
+  "object",
+]);
+
+/** HTML elements rendered as a paragraph of their own. */
+const HTML_BLOCKS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "dd",
+  "details",
+  "div",
+  "dl",
+  "dt",
+  "fieldset",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "header",
+  "main",
+  "nav",
+  "p",
+  "section",
+  "summary",
+  "table",
+]);
+
+/** The Markdown marker for each inline element that has one. */
+const MARKDOWN_INLINE: Readonly<Record<string, string>> = {
+  b: "**",
+  strong: "**",
+  em: "_",
+  i: "_",
+  code: "`",
+};
+
+/**
+ * Render HTML as text (or Markdown), walking htmlparser2's parse events: block
+ * elements become paragraphs, list items `- ` / `1. ` lines, table cells are
+ * joined with ` | `, and whitespace collapses as a browser would (except in
+ * `<pre>`). Scripts, styles and the `<head>` are dropped.
+ */
+function htmlToText(html: string, markdown: boolean, base: string | undefined): string {
+  const out: string[] = [];
+  let breaks = 0; // newlines owed before the next output
+  let spaced = true; // whether the output so far ends in whitespace
+  let skipping = 0;
+  let pre = 0;
+  let cells = 0;
+  const lists: Array<{ ordered: boolean; next: number }> = [];
+  const links: boolean[] = [];
+  const hrefs: string[] = [];
+
+  const resolve = (href: string) => {
+    try {
+      return base ? new URL(href, base).href : href;
+    } catch {
+      return href;
+    }
+  };
+  const brk = (n: number) => {
+    breaks = Math.max(breaks, n);
+  };
+  const put = (s: string) => {
+    if (breaks > 0) {
+      const last = out.length - 1;
+      if (last >= 0) {
+        out[last] = (out[last] ?? "").trimEnd();
+        out.push("\n".repeat(breaks));
+      }
+      breaks = 0;
+      spaced = true;
+    }
+    out.push(s);
+    spaced = /\s$/.test(s);
+  };
+  // An opening marker: the text inside it starts afresh, so leading space is dropped.
+  const mark = (s: string) => {
+    put(s);
+    spaced = true;
+  };
+
+  const parser = new HtmlParser(
+    {
+      onopentag(name, attribs) {
+        if (skipping > 0 || HTML_SKIPPED.has(name)) {
+          skipping++;
+          return;
+        }
+        const heading = /^h([1-6])$/.exec(name);
+        if (heading) {
+          brk(2);
+          if (markdown) mark(`${"#".repeat(Number(heading[1]))} `);
+        } else if (HTML_BLOCKS.has(name)) {
+          brk(2);
+        } else if (name === "ul" || name === "ol") {
+          brk(lists.length > 0 ? 1 : 2);
+          lists.push({ ordered: name === "ol", next: Number(attribs.start) || 1 });
+        } else if (name === "li") {
+          brk(1);
+          const list = lists.at(-1);
+          const marker = list?.ordered ? `${list.next++}. ` : "- ";
+          mark(`${"  ".repeat(Math.max(0, lists.length - 1))}${marker}`);
+        } else if (name === "tr") {
+          brk(1);
+          cells = 0;
+        } else if (name === "td" || name === "th") {
+          if (cells++ > 0) mark(" | ");
+        } else if (name === "br") {
+          breaks = Math.min(breaks + 1, 2);
+        } else if (name === "hr") {
+          brk(2);
+          if (markdown) put("---");
+          brk(2);
+        } else if (name === "pre") {
+          brk(2);
+          if (markdown) put("```");
+          brk(1);
+          pre++;
+        } else if (name === "img") {
+          const alt = (attribs.alt ?? "").trim();
+          if (markdown && attribs.src) put(`![${alt}](${resolve(attribs.src)})`);
+          else if (alt) put(spaced ? alt : ` ${alt}`);
+        } else if (name === "a") {
+          const href = attribs.href ?? "";
+          const shown =
+            markdown && href !== "" && !href.startsWith("#") && !/^javascript:/i.test(href);
+          links.push(shown);
+          if (shown) {
+            hrefs.push(resolve(href));
+            mark("[");
+          }
+        } else if (markdown && pre === 0 && MARKDOWN_INLINE[name]) {
+          mark(MARKDOWN_INLINE[name]);
+        }
+      },
+      ontext(data) {
+        if (skipping > 0) return;
+        if (pre > 0) {
+          put(breaks > 0 ? data.replace(/^\r?\n/, "") : data);
+          return;
+        }
+        let text = data.replace(/\s+/g, " ");
+        if (spaced || breaks > 0) text = text.trimStart();
+        if (text !== "") put(text);
+      },
+      onclosetag(name) {
+        if (skipping > 0) {
+          skipping--;
+          return;
+        }
+        if (/^h[1-6]$/.test(name) || HTML_BLOCKS.has(name)) {
+          brk(2);
+        } else if (name === "ul" || name === "ol") {
+          lists.pop();
+          brk(lists.length > 0 ? 1 : 2);
+        } else if (name === "pre") {
+          pre--;
+          brk(1);
+          if (markdown) put("```");
+          brk(2);
+        } else if (name === "a") {
+          if (links.pop()) put(`](${hrefs.pop()})`);
+        } else if (markdown && pre === 0 && MARKDOWN_INLINE[name]) {
+          put(MARKDOWN_INLINE[name]);
+        }
+      },
+    },
+    { decodeEntities: true },
+  );
+  parser.end(html);
+  return out.join("").trim();
+}
+
+/** A leading YAML (`---`) or TOML (`+++`) front-matter block. */
+const FRONT_MATTER =
+  /^\uFEFF?(?:---\r?\n[\s\S]*?\r?\n(?:---|\.\.\.)|\+\+\+\r?\n[\s\S]*?\r?\n\+\+\+)[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Turn a textual resource's body into readable text, locally: HTML becomes
+ * clean text — or Markdown, with `format: "markdown"` — Markdown loses its
+ * front-matter, and JSON is pretty-printed. Anything else (including JSON that
+ * does not parse) comes back unchanged.
+ */
+export function extractText(
+  body: string,
+  contentType: string | undefined,
+  options: ExtractOptions = {},
+): string {
+  const type = contentType?.toLowerCase();
+  if (type === "text/html" || type === "application/xhtml+xml") {
+    return htmlToText(body, options.format === "markdown", options.base);
+  }
+  if (type === "text/markdown" || type === "text/x-markdown") {
+    return body.replace(FRONT_MATTER, "").replace(/^\s*\n/, "");
+  }
+  if (type === "application/json" || type?.endsWith("+json")) {
+    try {
+      return JSON.stringify(JSON.parse(body), null, 2);
+    } catch {
+      return body;
+    }
+  }
+  return body;
+}
+
 /**
  * The lowercase RDF media types this package recognises — the ONE reviewed list,
  * shared by every RDF decision so they cannot drift:
@@ -234,66 +1248,395 @@ export const RDF_MEDIA_TYPES = new Set([
 ]);
 
 /**
- * De-duplicated match accumulator keyed by URL, keeping the STRONGEST (lowest)
- * rank per URL. `ranked()` returns matches sorted strongest-first. Encapsulating
- * the byUrl+rank bookkeeping keeps `search` readable (it just calls `add`).
+ * The {@link SearchOptions} filters, validated: the modified bounds as epoch
+ * milliseconds and the media type lowercased.
  */
-class RankedMatches {
-  private readonly byUrl = new Map<string, SearchMatch>();
-  private readonly rankOf = new Map<string, number>();
+interface SearchFilters {
+  type?: string;
+  mimeType?: string;
+  after?: number;
+  before?: number;
+  kind?: "container" | "file";
+}
 
-  /** Record `m` at `rank`; a lower rank overrides a previously-stored weaker one. */
-  add(m: SearchMatch, rank: number): void {
-    if (rank < (this.rankOf.get(m.url) ?? Number.POSITIVE_INFINITY)) {
-      this.byUrl.set(m.url, m);
-      this.rankOf.set(m.url, rank);
+/** Validate the filters in `options`, throwing a clear error on a malformed one. */
+function searchFilters(options: SearchOptions): SearchFilters {
+  const filters: SearchFilters = {};
+  if (options.type !== undefined) {
+    try {
+      filters.type = new URL(options.type).href;
+    } catch {
+      throw new Error(`type must be an absolute IRI, got ${JSON.stringify(options.type)}.`);
     }
   }
-
-  /** All matches, strongest (lowest rank) first. */
-  ranked(): SearchMatch[] {
-    return [...this.byUrl.values()].sort(
-      (a, b) => (this.rankOf.get(a.url) ?? 9) - (this.rankOf.get(b.url) ?? 9),
-    );
+  if (options.mimeType !== undefined) {
+    if (!/^[\w.+-]+\/(?:\*|[\w.+-]+)$/.test(options.mimeType)) {
+      throw new Error(
+        `mimeType must be a media type or a family/* pattern, got ${JSON.stringify(options.mimeType)}.`,
+      );
+    }
+    filters.mimeType = options.mimeType.toLowerCase();
+  }
+  for (const key of ["modifiedAfter", "modifiedBefore"] as const) {
+    const value = options[key];
+    if (value === undefined) continue;
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+      throw new Error(`${key} must be an ISO 8601 date-time, got ${JSON.stringify(value)}.`);
+    }
+    if (key === "modifiedAfter") filters.after = time;
+    else filters.before = time;
   }
+  if (options.kind !== undefined) filters.kind = options.kind;
+  if (options.limit !== undefined && (!Number.isSafeInteger(options.limit) || options.limit < 1)) {
+    throw new Error(`limit must be a positive integer, got ${options.limit}.`);
+  }
+  return filters;
+}
+
+/** Whether any filter is set. */
+function hasFilters(filters: SearchFilters): boolean {
+  return Object.keys(filters).length > 0;
 }
 
 /**
- * (1) Seed containers for the scan. Always seeds the `scope`; when a `webId` is
- * configured, adds best-effort Type-Index hints (a failure never aborts). Each
- * discovered hint is re-scope-checked (SSRF guard): in-pod containers become scan
- * seeds; a direct in-pod instance file is matched immediately (rank 0). A hint
- * outside the pod is ignored.
+ * Whether a resource passes the filters its listing can answer — kind, media
+ * type and modified time. (A resource whose listing omits the media type or
+ * modified time a filter asks about does not pass.) The `rdf:type` filter is
+ * checked by the caller, which may also need the document itself.
  */
-async function seedContainers(
-  config: SolidMcpConfig,
-  q: string,
-  scope: string,
-  matches: RankedMatches,
-): Promise<Set<string>> {
-  const seeds = new Set<string>([scope]);
-  if (!config.webId) return seeds;
-  let hints: string[];
-  try {
-    hints = await typeIndexContainers(config);
-  } catch {
-    return seeds; // No type index / unreadable profile — plain scan from scope.
+function passesListingFilters(
+  resource: { isContainer: boolean; mimeType?: string; modified?: string },
+  filters: SearchFilters,
+): boolean {
+  if (filters.kind === "container" && !resource.isContainer) return false;
+  if (filters.kind === "file" && resource.isContainer) return false;
+  if (filters.mimeType !== undefined) {
+    const mime = resource.mimeType?.toLowerCase();
+    if (mime === undefined) return false;
+    const family = filters.mimeType.endsWith("/*") ? filters.mimeType.slice(0, -1) : undefined;
+    if (family ? !mime.startsWith(family) : mime !== filters.mimeType) return false;
   }
-  for (const hint of hints) {
-    // Best-effort per hint: a hint outside the pod scope OR one whose direct
-    // instance segment is undecodable (malformed percent-encoding in an untrusted
+  if (filters.after !== undefined || filters.before !== undefined) {
+    const modified = resource.modified === undefined ? Number.NaN : Date.parse(resource.modified);
+    if (Number.isNaN(modified)) return false;
+    if (filters.after !== undefined && modified < filters.after) return false;
+    if (filters.before !== undefined && modified > filters.before) return false;
+  }
+  return true;
+}
+
+/** Whether `dataset` has a subject of `rdf:type` `type`. */
+function hasRdfType(dataset: import("n3").Store, type: string): boolean {
+  return (
+    dataset.countQuads(null, DataFactory.namedNode(RDF_TYPE), DataFactory.namedNode(type), null) > 0
+  );
+}
+
+/**
+ * A parsed {@link search} query: the words every match must contain (each as
+ * the start of a word, so `avocado` finds "avocados"), the quoted phrases it
+ * must contain word for word, and the `-word` / `-"phrase"` exclusions it must
+ * not. A hyphenated or dotted token (`shopping-list`) is a phrase too.
+ */
+interface SearchQuery {
+  words: string[];
+  phrases: string[][];
+  excludedWords: string[];
+  excludedPhrases: string[][];
+}
+
+/** Parse `query` into a {@link SearchQuery}. */
+function parseSearchQuery(query: string): SearchQuery {
+  const parsed: SearchQuery = { words: [], phrases: [], excludedWords: [], excludedPhrases: [] };
+  for (const [, quotedMinus, quoted, minus, bare] of query.matchAll(
+    /(-?)"([^"]*)"?|(-?)([^\s"]+)/g,
+  )) {
+    const words = indexTerms(quoted ?? bare ?? "");
+    if (words.length === 0) continue;
+    if ((quoted === undefined ? minus : quotedMinus) === "-") {
+      if (words.length > 1) parsed.excludedPhrases.push(words);
+      else parsed.excludedWords.push(...words);
+      continue;
+    }
+    if (words.length > 1) parsed.phrases.push(words);
+    for (const word of words) if (!parsed.words.includes(word)) parsed.words.push(word);
+  }
+  return parsed;
+}
+
+/** A literal in an RDF resource, with the subject (`_:label` if blank) and predicate of its triple. */
+interface SearchLiteral {
+  subject: string;
+  predicate: string;
+  value: string;
+}
+
+/** What {@link search} matches a resource on. */
+interface SearchDocument {
+  url: string;
+  name: string;
+  /** Its URL path below the pod root. */
+  path: string;
+  literals: SearchLiteral[];
+  /** A text document's {@link extractText} text. */
+  text?: string;
+}
+
+/**
+ * The fields a resource is scored on — the order of every per-field array
+ * below — and how much a word in each counts.
+ */
+const SEARCH_FIELDS = ["name", "url", "literal", "text"] as const;
+const FIELD_WEIGHTS = [3, 2, 1, 1];
+/** BM25's term-frequency saturation and length normalisation. */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+/** How many hits a {@link SearchMatch} carries. */
+const MAX_SEARCH_HITS = 3;
+
+/** The literals of `dataset`, each with the subject and predicate of its triple. */
+function rdfLiterals(dataset: import("n3").Store): SearchLiteral[] {
+  const literals: SearchLiteral[] = [];
+  for (const quad of dataset.getQuads(null, null, null, null)) {
+    if (quad.object.termType !== "Literal") continue;
+    const subject =
+      quad.subject.termType === "BlankNode" ? `_:${quad.subject.value}` : quad.subject.value;
+    literals.push({ subject, predicate: quad.predicate.value, value: quad.object.value });
+  }
+  return literals;
+}
+
+/** The terms of each field of `doc`. */
+function documentTerms(doc: SearchDocument): string[][] {
+  return [
+    indexTerms(doc.name),
+    indexTerms(doc.path),
+    doc.literals.flatMap((literal) => indexTerms(literal.value)),
+    indexTerms(doc.text ?? ""),
+  ];
+}
+
+/**
+ * What scoring needs of one resource: each field's length in terms, and for
+ * each query word how many terms of each field start with it.
+ */
+interface TermStats {
+  lengths: number[];
+  counts: Map<string, number[]>;
+}
+
+/** The {@link TermStats} of a resource with these field terms, for `words`. */
+function termStats(fields: string[][], words: string[]): TermStats {
+  const counts = new Map<string, number[]>();
+  for (const word of words) {
+    counts.set(
+      word,
+      fields.map((terms) => terms.filter((term) => term.startsWith(word)).length),
+    );
+  }
+  return { lengths: fields.map((terms) => terms.length), counts };
+}
+
+/** Whether `word` occurs anywhere in a resource with these stats. */
+function occurs(stats: TermStats, word: string): boolean {
+  return (stats.counts.get(word) ?? []).some((count) => count > 0);
+}
+
+/** Whether `words` start consecutive terms of `text`. */
+function hasPhrase(text: string, words: string[]): boolean {
+  const terms = indexTerms(text);
+  for (let i = 0; i + words.length <= terms.length; i++) {
+    if (words.every((word, j) => terms[i + j]?.startsWith(word))) return true;
+  }
+  return false;
+}
+
+/** Whether a resource satisfies `query`: all its words and phrases, none of its exclusions. */
+function satisfiesQuery(query: SearchQuery, stats: TermStats, doc: SearchDocument): boolean {
+  if (!query.words.every((word) => occurs(stats, word))) return false;
+  if (query.excludedWords.some((word) => occurs(stats, word))) return false;
+  // A phrase must sit within one passage: the name, the path, a literal, or the text.
+  const passages = [doc.name, doc.path, ...doc.literals.map((literal) => literal.value)];
+  if (doc.text !== undefined) passages.push(doc.text);
+  const found = (phrase: string[]) => passages.some((passage) => hasPhrase(passage, phrase));
+  return query.phrases.every(found) && !query.excludedPhrases.some(found);
+}
+
+/**
+ * The collection a search scores against: how many resources it holds, the
+ * average length of each field, and how many resources each word occurs in.
+ */
+interface SearchCorpus {
+  size: number;
+  averageLengths: number[];
+  frequency: Map<string, number>;
+}
+
+/** The average length of each field over the resources in `lengths` that have it. */
+function averageLengths(lengths: number[][]): number[] {
+  return SEARCH_FIELDS.map((_, field) => {
+    const present = lengths.map((resource) => resource[field] ?? 0).filter((n) => n > 0);
+    return present.reduce((sum, n) => sum + n, 0) / (present.length || 1);
+  });
+}
+
+/**
+ * The BM25F score of a resource for `words`: per word, its field-weighted,
+ * length-normalised count, saturated, times how rare the word is in `corpus`.
+ */
+function bm25(stats: TermStats, words: string[], corpus: SearchCorpus): number {
+  let score = 0;
+  for (const word of words) {
+    let tf = 0;
+    (stats.counts.get(word) ?? []).forEach((count, field) => {
+      if (count === 0) return;
+      const length = (stats.lengths[field] ?? 0) / (corpus.averageLengths[field] || 1);
+      tf += ((FIELD_WEIGHTS[field] ?? 1) * count) / (1 - BM25_B + BM25_B * length);
+    });
+    if (tf === 0) continue;
+    const df = corpus.frequency.get(word) ?? 0;
+    const idf = Math.log(1 + (corpus.size - df + 0.5) / (df + 0.5));
+    score += (idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1);
+  }
+  return score;
+}
+
+/** Wrap each term of `text` that starts with one of `words` in `**`. */
+function highlight(text: string, words: string[]): string {
+  return text.replace(/[\p{L}\p{N}]+/gu, (term) =>
+    words.some((word) => term.toLowerCase().startsWith(word)) ? `**${term}**` : term,
+  );
+}
+
+/** How many of `words` start a term of `text`. */
+function wordsIn(text: string, words: string[]): number {
+  const terms = indexTerms(text);
+  return words.filter((word) => terms.some((term) => term.startsWith(word))).length;
+}
+
+/** Where the first term of `text` from `from` on that starts with one of `words` is. */
+function findWord(
+  text: string,
+  words: string[],
+  from = 0,
+): { at: number; length: number } | undefined {
+  const pattern = /[\p{L}\p{N}]+/gu;
+  pattern.lastIndex = from;
+  for (let m = pattern.exec(text); m !== null; m = pattern.exec(text)) {
+    const term = m[0].toLowerCase();
+    if (words.some((word) => term.startsWith(word))) return { at: m.index, length: m[0].length };
+  }
+  return undefined;
+}
+
+/**
+ * The hits of a matched resource, strongest first: its name (or, if it says
+ * more, its path), the literals that contain query words — with their subject
+ * and predicate — and passages of its text. A hit covering more of the query's
+ * words ranks first.
+ */
+function searchHits(doc: SearchDocument, words: string[]): SearchHit[] {
+  const hits: Array<{ hit: SearchHit; covers: number }> = [];
+  const add = (hit: Omit<SearchHit, "snippet">, passage: string) => {
+    const covers = wordsIn(passage, words);
+    if (covers > 0) hits.push({ hit: { ...hit, snippet: highlight(passage, words) }, covers });
+  };
+  add({ field: "name" }, doc.name);
+  if (wordsIn(doc.path, words) > wordsIn(doc.name, words)) add({ field: "url" }, doc.path);
+  for (const { subject, predicate, value } of doc.literals) {
+    const found = findWord(value, words);
+    if (found === undefined) continue;
+    const passage =
+      value.length > 120 ? snippetAt(value, found.at, found.length) : value.replace(/\s+/g, " ");
+    add({ field: "literal", subject, predicate }, passage.trim());
+  }
+  const text = doc.text ?? "";
+  for (let from = 0, n = 0; n < MAX_SEARCH_HITS; n++) {
+    const found = findWord(text, words, from);
+    if (found === undefined) break;
+    add({ field: "text" }, snippetAt(text, found.at, found.length));
+    from = found.at + found.length + 60; // past this passage
+  }
+  return hits
+    .sort((a, b) => b.covers - a.covers)
+    .slice(0, MAX_SEARCH_HITS)
+    .map(({ hit }) => hit);
+}
+
+/** A resource {@link search} may match: what it matches on, and its term stats. */
+interface SearchCandidate {
+  doc: SearchDocument;
+  stats: TermStats;
+  /** Found only as a type-index `solid:instance` — not crawled. */
+  instance?: boolean;
+}
+
+/**
+ * The `candidates` that satisfy `query` as matches, each scored against
+ * `corpus` and with its hits, strongest first (ties in candidate order). The
+ * `snippet` labels the strongest hit.
+ */
+function rankCandidates(
+  candidates: SearchCandidate[],
+  query: SearchQuery,
+  corpus: SearchCorpus,
+): SearchMatch[] {
+  const matches: Array<SearchMatch & { score: number }> = [];
+  for (const { doc, stats, instance } of candidates) {
+    if (!satisfiesQuery(query, stats, doc)) continue;
+    const hits = searchHits(doc, query.words);
+    const top = hits[0];
+    let snippet: string | undefined;
+    if (instance) snippet = "type-index instance";
+    else if (top?.field === "name" || top?.field === "url") snippet = "name/url match";
+    else if (top !== undefined) snippet = `${top.field}: ${top.snippet}`;
+    matches.push({
+      url: doc.url,
+      name: doc.name,
+      ...(snippet !== undefined ? { snippet } : {}),
+      score: Math.round(bm25(stats, query.words, corpus) * 1000) / 1000,
+      hits,
+    });
+  }
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * (1) Seed containers for the scan. Always seeds the `scope`; when a `webId` is
+ * configured, adds best-effort Type-Index hints (a failure never aborts). Each
+ * discovered hint is re-scope-checked (SSRF guard): in-pod containers become scan
+ * seeds; a direct in-pod instance file is added to `instances`, to be matched by
+ * its name and path. A hint outside the pod is ignored.
+ */
+async function seedContainers(
+  config: SolidMcpConfig,
+  scope: string,
+  instances: Array<{ url: string; name: string }>,
+  filtered = false,
+): Promise<Set<string>> {
+  const seeds = new Set<string>([scope]);
+  if (!config.webId) return seeds;
+  let hints: string[];
+  try {
+    hints = await typeIndexContainers(config);
+  } catch {
+    return seeds; // No type index / unreadable profile — plain scan from scope.
+  }
+  for (const hint of hints) {
+    // Best-effort per hint: a hint outside the pod scope OR one whose direct
+    // instance segment is undecodable (malformed percent-encoding in an untrusted
     // profile) is SKIPPED, never allowed to abort the whole search. The entire
     // per-hint body is guarded, matching the original error boundary.
     try {
       const scoped = requirePodScopedUrl(config, hint); // only honour in-pod hints
       if (isContainerUrl(scoped)) {
         seeds.add(scoped);
-      } else {
-        // A direct instance file: match its url/name immediately.
+      } else if (!filtered) {
+        // A direct instance file: matched by its url/name alone. (Not when
+        // filtering — there is no listing entry to check the filters against.)
         const name = decodeURIComponent(scoped.replace(/\/$/, "").split("/").pop() ?? scoped);
-        if (scoped.toLowerCase().includes(q) || name.toLowerCase().includes(q)) {
-          matches.add({ url: scoped, name, snippet: "type-index instance" }, 0);
-        }
+        instances.push({ url: scoped, name });
       }
     } catch {
       // out-of-pod or undecodable hint — ignore (best-effort seeding).
@@ -302,66 +1645,306 @@ async function seedContainers(
   return seeds;
 }
 
-/** A single RDF resource child matched against `q` for a literal hit (rank 2). */
-async function matchChildLiteral(
+/**
+ * The parsed graph of a listed RDF resource child, or `undefined` when it is not
+ * RDF, not confirmably in-pod, or unreadable. Never throws.
+ */
+async function readChildRdf(
   config: SolidMcpConfig,
   child: PodChild,
-  q: string,
-  matches: RankedMatches,
-): Promise<void> {
+): Promise<import("n3").Store | undefined> {
   // A container listing often does NOT advertise a child's mimeType, so we also
   // try resources whose URL carries a known RDF file extension. Best-effort.
-  if (!(isRdfLike(child.mimeType) || hasRdfExtension(child.url))) return;
-  const literalHit = await literalMatch(config, child.url, q);
-  if (literalHit) {
-    matches.add({ url: child.url, name: child.name, snippet: `literal: ${literalHit}` }, 2);
+  if (child.isContainer || !(isRdfLike(child.mimeType) || hasRdfExtension(child.url))) {
+    return undefined;
+  }
+  // Defense-in-depth: never fetch a URL we cannot confirm is in-pod, even though
+  // callers pass scope-filtered URLs (the listing is untrusted — SSRF guard).
+  const target = podScopedUrlOrUndefined(config, child.url);
+  if (target === undefined) return undefined;
+  try {
+    return (await fetchRdf(target, { fetch: scopedFetch(config) })).dataset;
+  } catch {
+    return undefined;
   }
 }
 
 /**
- * (2) Bounded breadth-first container scan from `seeds`, capped by `maxDepth` and
- * `maxResources`. Each visited resource is matched against `q` by url/name
- * (rank 1); RDF resources additionally by literal value (rank 2); sub-containers
- * are enqueued until the depth cap. All matches are added to `matches`.
+ * The media type of the text documents {@link search} reads, by extension — for
+ * when a listing does not advertise a child's mimeType.
  */
-async function scanContainers(
+const TEXT_EXTENSIONS: Readonly<Record<string, string>> = {
+  ".html": "text/html",
+  ".htm": "text/html",
+  ".xhtml": "application/xhtml+xml",
+  ".md": "text/markdown",
+  ".markdown": "text/markdown",
+  ".txt": "text/plain",
+  ".json": "application/json",
+};
+
+/** A one-line excerpt of `text` around the `length`-character hit at `at`. */
+function snippetAt(text: string, at: number, length: number): string {
+  const start = Math.max(0, at - 40);
+  const snippet = text
+    .slice(start, at + length + 60)
+    .replace(/\s+/g, " ")
+    .trim();
+  return `${start > 0 ? "..." : ""}${snippet}`;
+}
+
+/**
+ * The media type of `child` if it is a text document {@link search} reads (HTML,
+ * Markdown, JSON, plain text…), by its advertised mimeType or else its extension.
+ */
+function textDocumentType(child: PodChild): string | undefined {
+  if (isRdfLike(child.mimeType) || hasRdfExtension(child.url)) return undefined;
+  if (child.mimeType) return isTextualContentType(child.mimeType) ? child.mimeType : undefined;
+  const ext = /\.[a-z]+$/.exec(child.url.toLowerCase().split(/[?#]/)[0] ?? "")?.[0];
+  return ext === undefined ? undefined : TEXT_EXTENSIONS[ext];
+}
+
+/** Read `child` (a text document) and {@link extractText} it. `undefined` if unreadable. */
+async function readDocumentText(
   config: SolidMcpConfig,
-  q: string,
-  seeds: Set<string>,
-  maxDepth: number,
-  maxResources: number,
-  matches: RankedMatches,
-): Promise<void> {
-  let visited = 0;
-  const seen = new Set<string>();
-  const queue: Array<{ url: string; depth: number }> = [...seeds].map((url) => ({ url, depth: 0 }));
-  while (queue.length > 0 && visited < maxResources) {
-    const next = queue.shift();
-    if (!next) break;
-    const { url, depth } = next;
-    if (seen.has(url)) continue;
-    seen.add(url);
-
-    let children: PodChild[];
-    try {
-      children = await listContainer(config, url);
-    } catch {
-      continue; // unreadable container — skip.
+  child: PodChild,
+  type: string,
+): Promise<{ text: string; etag?: string } | undefined> {
+  let body: ReadResult;
+  try {
+    body = await readResource(config, child.url);
+  } catch {
+    return undefined;
+  }
+  if (body.text === undefined) return undefined;
+  const text = extractText(body.text, body.contentType ?? type, { base: child.url });
+  return body.etag === undefined ? { text } : { text, etag: body.etag };
+}
+
+/** The crawl caps {@link search} and {@link walkTree} share: recursion depth … */
+const DEFAULT_MAX_DEPTH = 4;
+/** … and total resources visited. */
+const DEFAULT_MAX_RESOURCES = 500;
+/** How many requests a crawl makes at once, overall and to any one host. */
+const DEFAULT_CRAWL_CONCURRENCY = 8;
+const DEFAULT_CRAWL_PER_HOST = 4;
+
+/**
+ * A bounded task pool for a crawl: at most `concurrency` tasks run at once and
+ * at most `perHost` of them against any one host, started in the order they
+ * were queued (the first whose host has room goes next). Once `signal` aborts,
+ * tasks not yet started are dropped, settling as `undefined`.
+ */
+function crawlPool(
+  concurrency: number,
+  perHost: number,
+  signal?: AbortSignal,
+): <T>(url: string, task: () => Promise<T>) => Promise<T | undefined> {
+  let running = 0;
+  const busy = new Map<string, number>();
+  const waiting: Array<{ host: string; start: () => void; drop: () => void }> = [];
+  const pump = (): void => {
+    if (signal?.aborted) {
+      for (const task of waiting.splice(0)) task.drop();
+      return;
+    }
+    for (let i = 0; i < waiting.length && running < concurrency; ) {
+      const task = waiting[i];
+      if (!task || (busy.get(task.host) ?? 0) >= perHost) {
+        i++;
+        continue;
+      }
+      waiting.splice(i, 1);
+      task.start();
     }
+  };
+  return <T>(url: string, task: () => Promise<T>) =>
+    new Promise<T | undefined>((resolve, reject) => {
+      const host = new URL(url).host;
+      waiting.push({
+        host,
+        start: () => {
+          running++;
+          busy.set(host, (busy.get(host) ?? 0) + 1);
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              running--;
+              busy.set(host, (busy.get(host) ?? 1) - 1);
+              pump();
+            });
+        },
+        drop: () => resolve(undefined),
+      });
+      pump();
+    });
+}
 
-    for (const child of children) {
-      if (visited >= maxResources) break;
-      visited++;
-      if (child.name.toLowerCase().includes(q) || child.url.toLowerCase().includes(q)) {
-        matches.add({ url: child.url, name: child.name, snippet: "name/url match" }, 1);
+/** One container a {@link crawlPod} listed. */
+interface CrawlListing {
+  url: string;
+  /** Its depth below the seed it was reached from (seeds are 0). */
+  depth: number;
+  /** The children the crawl visited, in listing order. */
+  children: PodChild[];
+  /** Whether every child was visited (the resource cap did not cut it). */
+  complete: boolean;
+  /** Why it could not be listed. */
+  error?: Error;
+}
+
+/** The outcome of {@link crawlPod}. */
+interface CrawlResult<T> {
+  /** The containers listed, breadth-first, in a stable order. */
+  listings: CrawlListing[];
+  /** Every visited child with what `visit` made of it, in the same stable order. */
+  visited: Array<{ child: PodChild; value: T | undefined }>;
+  /** Whether a cap or the signal cut the crawl short. */
+  truncated: boolean;
+}
+
+/**
+ * The pod crawl {@link search}, {@link walkTree}, {@link querySparql} and
+ * {@link reindex} share: breadth-first from `seeds`, a level at a time, with
+ * every listing and every `visit` run through one {@link crawlPool} — so a
+ * level's listings and the previous level's visits overlap, within the
+ * `concurrency` and `perHost` bounds. Children are admitted in listing order
+ * as each level completes, so the `maxDepth` and `maxResources` caps are exact
+ * and cut the same place however the requests interleave; a resource listed
+ * twice is visited once. An unreadable container is recorded with its error
+ * and not descended. Once `signal` aborts, nothing more is started.
+ */
+async function crawlPod<T>(
+  config: SolidMcpConfig,
+  seeds: Iterable<string>,
+  options: CrawlOptions,
+  visit?: (child: PodChild) => Promise<T>,
+  signal?: AbortSignal,
+): Promise<CrawlResult<T>> {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const maxResources = options.maxResources ?? DEFAULT_MAX_RESOURCES;
+  const concurrency = options.concurrency ?? DEFAULT_CRAWL_CONCURRENCY;
+  const perHost = options.perHost ?? DEFAULT_CRAWL_PER_HOST;
+  for (const [key, value] of [
+    ["concurrency", concurrency],
+    ["perHost", perHost],
+  ] as const) {
+    if (!Number.isSafeInteger(value) || value < 1) {
+      throw new Error(`${key} must be a positive integer, got ${value}.`);
+    }
+  }
+  const run = crawlPool(concurrency, perHost, signal);
+  const listings: CrawlListing[] = [];
+  const visited: CrawlResult<T>["visited"] = [];
+  const pending: Array<Promise<void>> = [];
+  const seen = new Set<string>(); // children visited
+  const queued = new Set<string>(seeds); // containers listed or to be
+  let truncated = false;
+  let level = [...queued];
+  for (let depth = 0; level.length > 0; depth++) {
+    const listed = await Promise.all(
+      level.map((url) =>
+        run(url, () =>
+          listContainer(config, url).catch((e: unknown) =>
+            e instanceof Error ? e : new Error(String(e)),
+          ),
+        ),
+      ),
+    );
+    if (signal?.aborted) {
+      truncated = true;
+      break;
+    }
+    const next: string[] = [];
+    level.forEach((url, i) => {
+      const listing = listed[i];
+      if (listing === undefined) return;
+      const entry: CrawlListing = { url, depth, children: [], complete: true };
+      listings.push(entry);
+      if (listing instanceof Error) {
+        entry.error = listing;
+        return;
       }
-      if (child.isContainer) {
-        if (depth + 1 <= maxDepth) queue.push({ url: child.url, depth: depth + 1 });
-      } else {
-        await matchChildLiteral(config, child, q, matches);
+      for (const child of listing) {
+        if (seen.has(child.url)) continue;
+        if (visited.length >= maxResources) {
+          entry.complete = false;
+          truncated = true;
+          break;
+        }
+        seen.add(child.url);
+        entry.children.push(child);
+        const slot: CrawlResult<T>["visited"][number] = { child, value: undefined };
+        visited.push(slot);
+        if (visit) {
+          const task = run(child.url, () => visit(child)).then((value) => {
+            slot.value = value;
+          });
+          task.catch(() => {}); // surfaced by the Promise.all below, in crawl order.
+          pending.push(task);
+        }
+        if (child.isContainer && !queued.has(child.url)) {
+          if (depth + 1 > maxDepth) truncated = true;
+          else {
+            queued.add(child.url);
+            next.push(child.url);
+          }
+        }
       }
+    });
+    if (visited.length >= maxResources && next.length > 0) {
+      truncated = true;
+      break;
     }
+    level = next;
   }
+  await Promise.all(pending);
+  return { listings, visited, truncated: truncated || signal?.aborted === true };
+}
+
+/**
+ * (2) Bounded breadth-first container scan from `seeds` ({@link crawlPod}).
+ * Each visited resource that passes `filters` becomes a {@link SearchDocument}
+ * — its name and path below `root`, and the literals of its RDF or the
+ * {@link extractText} text of a document (read up to the config's `maxBytes`) —
+ * read concurrently. Returns, in crawl order, each one's term stats for the
+ * query's words, with the document itself only where every one of them occurs.
+ */
+async function scanContainers(
+  config: SolidMcpConfig,
+  root: string,
+  query: SearchQuery,
+  seeds: Set<string>,
+  options: CrawlOptions,
+  filters: SearchFilters,
+): Promise<Array<{ url: string; stats: TermStats; doc?: SearchDocument }>> {
+  const words = [...query.words, ...query.excludedWords];
+  const crawl = await crawlPod(config, seeds, options, async (child) => {
+    if (!passesListingFilters(child, filters)) return undefined;
+    const dataset = await readChildRdf(config, child);
+    if (
+      filters.type !== undefined &&
+      !child.type.includes(filters.type) &&
+      !(dataset && hasRdfType(dataset, filters.type))
+    ) {
+      return undefined;
+    }
+    const doc: SearchDocument = {
+      url: child.url,
+      name: child.name,
+      path: child.url.slice(root.length),
+      literals: dataset ? rdfLiterals(dataset) : [],
+    };
+    const type = dataset || child.isContainer ? undefined : textDocumentType(child);
+    if (type !== undefined) {
+      const document = await readDocumentText(config, child, type);
+      if (document !== undefined) doc.text = document.text;
+    }
+    const stats = termStats(documentTerms(doc), words);
+    const url = child.url;
+    return query.words.every((word) => occurs(stats, word)) ? { url, stats, doc } : { url, stats };
+  });
+  return crawl.visited.flatMap(({ value }) => (value ? [value] : []));
 }
 
 /**
@@ -374,114 +1957,840 @@ async function scanContainers(
  *  2. Bounded recursive container scan from the scope (default: the pod root),
  *     capped by depth + total resources, matching `query` (case-insensitive)
  *     against each resource's url / name AND — for RDF resources — against literal
- *     object values.
+ *     object values, or — for HTML, Markdown, JSON and plain-text documents —
+ *     against their {@link extractText} text.
+ *
+ * The query is split into words, each matching the start of a word (so
+ * `avocado` finds "avocados"); a match must contain every word and every
+ * `"quoted phrase"`, and none of the `-word` / `-"phrase"` exclusions. Matches
+ * are scored with BM25F over the name, path, literal and text fields —
+ * a word in the name counts most, a word rare across the resources searched
+ * counts more — and returned strongest first, each with up to three hits:
+ * highlighted passages, with the subject and predicate of a matching literal.
+ *
+ * With an `indexPath` configured and an index built there by {@link reindex},
+ * the search is answered from the index instead — no crawl, and no resource
+ * cap — within the scope, and `maxDepth` if given. Phrases and hits there come
+ * from the start of each resource's literals and text the index keeps.
  *
- * Returns de-duplicated, ranked matches (name/url hits first, then literal hits).
+ * The `type`, `mimeType`, `modifiedAfter` / `modifiedBefore` and `kind` options
+ * narrow either path to the resources that satisfy all of them; `limit` keeps
+ * only the strongest matches.
  */
 export async function search(
   config: SolidMcpConfig,
   query: string,
   options: SearchOptions = {},
 ): Promise<SearchMatch[]> {
-  const q = (query ?? "").trim().toLowerCase();
-  if (q.length === 0) {
+  const parsed = parseSearchQuery(query ?? "");
+  if (parsed.words.length === 0) {
     return [];
   }
-  const maxDepth = options.maxDepth ?? 4;
-  const maxResources = options.maxResources ?? 500;
+  const root = requirePodScopedUrl(config, config.podRoot);
   const scope = requirePodScopedUrl(config, options.scope ?? config.podRoot);
+  const filters = searchFilters(options);
 
-  const matches = new RankedMatches();
-  const seeds = await seedContainers(config, q, scope, matches); // (1) seed
-  await scanContainers(config, q, seeds, maxDepth, maxResources, matches); // (2) scan
-  return matches.ranked(); // (3) rank
+  const index = await loadSearchIndex(config);
+  if (index) {
+    return searchIndex(index, parsed, scope, options.maxDepth, filters).slice(0, options.limit);
+  }
+
+  const instances: Array<{ url: string; name: string }> = [];
+  const seeds = await seedContainers(config, scope, instances, hasFilters(filters)); // (1) seed
+  const scanned = await scanContainers(config, root, parsed, seeds, options, filters); // (2) scan
+  const words = [...parsed.words, ...parsed.excludedWords];
+  const candidates: SearchCandidate[] = [];
+  for (const { stats, doc } of scanned) if (doc) candidates.push({ doc, stats });
+  for (const { url, name } of instances) {
+    if (scanned.some((resource) => resource.url === url)) continue;
+    const doc: SearchDocument = { url, name, path: url.slice(root.length), literals: [] };
+    const stats = termStats(documentTerms(doc), words);
+    scanned.push({ url, stats });
+    candidates.push({ doc, stats, instance: true });
+  }
+  const corpus: SearchCorpus = {
+    size: scanned.length,
+    averageLengths: averageLengths(scanned.map(({ stats }) => stats.lengths)),
+    frequency: new Map(
+      words.map((w) => [w, scanned.filter(({ stats }) => occurs(stats, w)).length]),
+    ),
+  };
+  return rankCandidates(candidates, parsed, corpus).slice(0, options.limit); // (3) rank
 }
 
-/** Is the MIME type one we will attempt to RDF-parse for literal search? */
-function isRdfLike(mimeType: string | undefined): boolean {
-  if (!mimeType) return false;
-  return RDF_MEDIA_TYPES.has(mimeType.toLowerCase());
+/** The crawl caps {@link reindex} uses: deeper and wider than a live search's. */
+const DEFAULT_INDEX_MAX_DEPTH = 16;
+const DEFAULT_INDEX_MAX_RESOURCES = 10_000;
+/** How much of each resource's literals / text the index keeps for phrases and hits. */
+const INDEX_EXCERPT_CHARS = 4000;
+
+/** One resource in the search index. */
+interface IndexedResource {
+  url: string;
+  name: string;
+  isContainer: boolean;
+  /** Its media type, as its container listing advertises it. */
+  mimeType?: string;
+  modified?: string;
+  etag?: string;
+  /** Its `rdf:type`s — from its listing, and for RDF those of its subjects. */
+  types?: string[];
+  /** Its first literals (RDF), as `[subject, predicate, value]`, for phrases and hits. */
+  literals?: Array<[string, string, string]>;
+  /** The start of its extracted text (documents), for phrases and hits. */
+  excerpt?: string;
+  /** The length in terms of each {@link SEARCH_FIELDS} field. */
+  lengths: number[];
+  /** Each term of the resource, with its count in each field. */
+  terms: Map<string, number[]>;
 }
 
-/** Known RDF file extensions (used when a listing omits the child mimeType). */
-const RDF_EXTENSIONS = [".ttl", ".jsonld", ".nt", ".nq", ".trig", ".n3"];
+/**
+ * The on-disk index: its resources, plus an inverted index from each term to
+ * `[resource position, ...count in each field]` entries. Written as JSON to
+ * `indexPath`.
+ */
+interface SearchIndexFile {
+  version: 3;
+  podRoot: string;
+  updated: string;
+  resources: Array<Omit<IndexedResource, "terms">>;
+  postings: Record<string, number[][]>;
+}
 
-/** Does the URL path carry a known RDF file extension? */
-function hasRdfExtension(url: string): boolean {
-  let path: string;
-  try {
-    path = new URL(url).pathname.toLowerCase();
-  } catch {
-    path = url.toLowerCase();
-  }
-  return RDF_EXTENSIONS.some((ext) => path.endsWith(ext));
+/** Options for {@link reindex}. */
+export interface ReindexOptions extends CrawlOptions {
+  /** Discard the existing index and re-read every resource (default: incremental). */
+  full?: boolean;
+  /** Max container depth below the pod root (default 16). */
+  maxDepth?: number;
+  /** Max total resources indexed (default 10 000). */
+  maxResources?: number;
+}
+
+/** The outcome of {@link reindex}. */
+export interface ReindexResult {
+  /** The index file written. */
+  path: string;
+  /** How many resources the index now holds. */
+  indexed: number;
+  /** Resources (re-)indexed because they were new or had changed. */
+  updated: number;
+  /** Resources kept as they were, their modified time or ETag unchanged. */
+  reused: number;
+  /** Entries dropped because their resource is gone. */
+  removed: number;
+  /**
+   * Whether a cap was hit or a container could not be listed: the part of the
+   * pod not walked keeps its previous entries.
+   */
+  truncated: boolean;
+}
+
+/** The lowercase words of `text` — the index's terms. */
+function indexTerms(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/** The container `url` sits directly in. */
+function parentContainer(url: string): string {
+  return url.replace(/[^/]*\/?$/, "");
 }
 
 /**
- * Read an RDF resource and return the first literal object value containing `q`
- * (case-insensitive), truncated to a short snippet, or `undefined`. Never throws.
+ * Whether a walk that fully listed the `listed` containers, finding `indexed`,
+ * shows `url` is gone: its nearest listed ancestor did not contain the branch
+ * leading to it.
  */
-async function literalMatch(
-  config: SolidMcpConfig,
+function provenGone(
   url: string,
-  q: string,
-): Promise<string | undefined> {
-  // Defense-in-depth: never fetch a URL we cannot confirm is in-pod, even though
-  // callers pass scope-filtered URLs (the listing is untrusted — SSRF guard).
-  const target = podScopedUrlOrUndefined(config, url);
-  if (target === undefined) {
-    return undefined;
+  root: string,
+  listed: Set<string>,
+  indexed: Map<string, IndexedResource>,
+): boolean {
+  let branch = url;
+  for (let parent = parentContainer(url); parent.length >= root.length; ) {
+    if (listed.has(parent)) return !indexed.has(branch);
+    branch = parent;
+    parent = parentContainer(parent);
   }
-  let dataset: import("n3").Store;
+  return false;
+}
+
+/** The index file configured for `config`, or a clear error if there is none. */
+function requireIndexPath(config: SolidMcpConfig): string {
+  if (!config.indexPath) {
+    throw new Error(
+      "no indexPath configured — set indexPath (SOLID_MCP_INDEX_PATH) to keep a search index.",
+    );
+  }
+  return resolvePath(config.indexPath);
+}
+
+/**
+ * Load the index at `config.indexPath`, or `undefined` when there is none — or
+ * when the file is unreadable, of another version, or for another pod, so a
+ * stale or foreign index is never answered from.
+ */
+async function loadSearchIndex(config: SolidMcpConfig): Promise<SearchIndexFile | undefined> {
+  if (!config.indexPath) return undefined;
+  let file: SearchIndexFile;
   try {
-    ({ dataset } = await fetchRdf(target, { fetch: scopedFetch(config) }));
+    file = JSON.parse(await readFile(resolvePath(config.indexPath), "utf8"));
   } catch {
     return undefined;
   }
-  for (const quad of dataset.getQuads(null, null, null, null)) {
-    if (quad.object.termType === "Literal") {
-      const v = quad.object.value;
-      if (v.toLowerCase().includes(q)) {
-        return v.length > 120 ? `${v.slice(0, 117)}...` : v;
-      }
-    }
+  const root = requirePodScopedUrl(config, config.podRoot);
+  if (file?.version !== 3 || file.podRoot !== root || !Array.isArray(file.resources)) {
+    return undefined;
   }
-  return undefined;
+  return file;
+}
+
+/** The resources of a loaded index, each with its terms re-gathered from the postings. */
+function unpackIndex(file: SearchIndexFile): Map<string, IndexedResource> {
+  const resources = file.resources.map((r) => ({ ...r, terms: new Map<string, number[]>() }));
+  for (const [term, postings] of Object.entries(file.postings)) {
+    for (const [position = -1, ...counts] of postings) resources[position]?.terms.set(term, counts);
+  }
+  return new Map(resources.map((r) => [r.url, r]));
 }
 
 /**
- * Best-effort: discover the type-index registration target containers / instances
- * from the owner's WebID profile. Reads the profile, follows
- * `solid:publicTypeIndex` / `solid:privateTypeIndex`, then each type index's
- * `solid:instance` / `solid:instanceContainer`. Returns absolute URL strings.
- * Throws only if the profile itself cannot be fetched — caller catches.
- *
- * SECURITY: the WebID profile is the one URL we fetch off-pod — it is the owner's
- * configured identity (`config.webId`), often on a different origin, so it is
- * trusted by configuration. But every URL DISCOVERED from that profile (the
- * type-index documents) and from the type-index documents (the instance targets)
- * is UNTRUSTED RDF: a malicious profile could point `solid:publicTypeIndex` at an
- * arbitrary origin. So we (a) only FETCH a discovered type-index document if it is
- * within the pod, and (b) only EMIT instance/instanceContainer URLs that are
- * within the pod. This prevents the profile from steering `search` into an SSRF.
+ * Write `resources` to the index file — to a uniquely named temporary file first,
+ * so a reader never sees half of one and concurrent reindexes never share one.
+ * The index holds pod data, so it is readable by its owner only.
  */
-async function typeIndexContainers(config: SolidMcpConfig): Promise<string[]> {
-  const webId = config.webId;
-  if (!webId) return [];
-  const solidNs = "http://www.w3.org/ns/solid/terms#";
-  const out = new Set<string>();
-  const { dataset: profile } = await fetchRdf(webId, { fetch: config.fetch });
-  const indexes = new Set<string>();
-  for (const p of [`${solidNs}publicTypeIndex`, `${solidNs}privateTypeIndex`]) {
-    for (const quad of profile.getQuads(null, DataFactory.namedNode(p), null, null)) {
-      if (quad.object.termType === "NamedNode") {
-        // Only fetch type-index documents that are within the pod (untrusted ref).
-        const scoped = podScopedUrlOrUndefined(config, quad.object.value);
-        if (scoped !== undefined) indexes.add(scoped);
+async function saveSearchIndex(
+  path: string,
+  podRoot: string,
+  resources: IndexedResource[],
+): Promise<void> {
+  const postings: Record<string, number[][]> = {};
+  const file: SearchIndexFile = {
+    version: 3,
+    podRoot,
+    updated: new Date().toISOString(),
+    resources: resources.map(({ terms, ...resource }, position) => {
+      for (const [term, counts] of terms) {
+        if (!Object.hasOwn(postings, term)) postings[term] = [];
+        postings[term]?.push([position, ...counts]);
       }
-    }
-  }
-  for (const index of indexes) {
+      return resource;
+    }),
+    postings,
+  };
+  await mkdir(dirname(path), { recursive: true });
+  const temporary = `${path}.${randomUUID()}.tmp`;
+  await writeFile(temporary, JSON.stringify(file), { mode: 0o600 });
+  await rename(temporary, path);
+}
+
+/**
+ * Index one listed resource. Its name and path always; for RDF its literal
+ * values, and for text documents their extracted text. The previous entry is
+ * reused — nothing fetched but, at most, a HEAD — when the listing's modified
+ * time matches it, or else when the resource's ETag still does.
+ */
+async function indexResource(
+  config: SolidMcpConfig,
+  root: string,
+  child: PodChild,
+  previous: IndexedResource | undefined,
+): Promise<{ resource: IndexedResource; reused: boolean }> {
+  if (previous && !child.isContainer) {
+    let unchanged = child.modified !== undefined && child.modified === previous.modified;
+    if (!unchanged && child.modified === undefined && previous.etag !== undefined) {
+      try {
+        unchanged = (await statResource(config, child.url)).etag === previous.etag;
+      } catch {
+        // unreadable now — re-read below, which decides whether it is kept.
+      }
+    }
+    if (unchanged) return { resource: { ...previous, name: child.name }, reused: true };
+  }
+  const resource: IndexedResource = {
+    url: child.url,
+    name: child.name,
+    isContainer: child.isContainer,
+    lengths: [],
+    terms: new Map(),
+  };
+  if (child.mimeType !== undefined) resource.mimeType = child.mimeType;
+  if (child.modified !== undefined) resource.modified = child.modified;
+  if (child.type.length > 0) resource.types = [...child.type];
+  const doc: SearchDocument = {
+    url: child.url,
+    name: child.name,
+    path: child.url.slice(root.length),
+    literals: [],
+  };
+
+  const type = child.isContainer ? undefined : textDocumentType(child);
+  if (!child.isContainer && (isRdfLike(child.mimeType) || hasRdfExtension(child.url))) {
+    let etag: string | undefined;
+    const recording = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      const res = await scopedFetch(config)(input, init);
+      etag = res.headers.get("etag") ?? undefined;
+      return res;
+    }) as typeof fetch;
+    try {
+      const { dataset } = await fetchRdf(child.url, { fetch: recording });
+      const types = new Set(child.type);
+      for (const object of dataset.getObjects(null, DataFactory.namedNode(RDF_TYPE), null)) {
+        if (object.termType === "NamedNode") types.add(object.value);
+      }
+      if (types.size > 0) resource.types = [...types];
+      doc.literals = rdfLiterals(dataset);
+      if (etag !== undefined) resource.etag = etag;
+    } catch {
+      // unparseable or unreadable — indexed by name and path only.
+    }
+  } else if (type !== undefined) {
+    const document = await readDocumentText(config, child, type);
+    if (document) {
+      doc.text = document.text;
+      if (document.etag !== undefined) resource.etag = document.etag;
+    }
+  }
+
+  // Every term is counted; only the start of the literals and text is kept.
+  const fields = documentTerms(doc);
+  resource.lengths = fields.map((terms) => terms.length);
+  fields.forEach((terms, field) => {
+    for (const term of terms) {
+      const counts = resource.terms.get(term) ?? SEARCH_FIELDS.map(() => 0);
+      counts[field] = (counts[field] ?? 0) + 1;
+      resource.terms.set(term, counts);
+    }
+  });
+  let budget = INDEX_EXCERPT_CHARS;
+  for (const { subject, predicate, value } of doc.literals) {
+    if (budget <= 0) break;
+    resource.literals ??= [];
+    resource.literals.push([subject, predicate, value.slice(0, budget)]);
+    budget -= value.length;
+  }
+  if (doc.text) resource.excerpt = doc.text.slice(0, INDEX_EXCERPT_CHARS);
+  return { resource, reused: false };
+}
+
+/**
+ * Build or refresh the on-disk search index at `config.indexPath`: walk the pod
+ * breadth-first (up to `maxDepth` / `maxResources`, by default far beyond a live
+ * search's caps) and index each resource's name and path, the literal values of
+ * its RDF, and the {@link extractText} text of its documents. Incremental by
+ * default — a resource whose listed modified time (or, failing that, ETag) is
+ * unchanged keeps its entry unread — and entries whose resource is gone are
+ * dropped. {@link search} answers from this index once it exists.
+ */
+export async function reindex(
+  config: SolidMcpConfig,
+  options: ReindexOptions = {},
+): Promise<ReindexResult> {
+  const path = requireIndexPath(config);
+  const root = requirePodScopedUrl(config, config.podRoot);
+  const existing = await loadSearchIndex(config);
+  const previous =
+    existing && !options.full ? unpackIndex(existing) : new Map<string, IndexedResource>();
+
+  const crawl = await crawlPod(
+    config,
+    [root],
+    {
+      ...options,
+      maxDepth: options.maxDepth ?? DEFAULT_INDEX_MAX_DEPTH,
+      maxResources: options.maxResources ?? DEFAULT_INDEX_MAX_RESOURCES,
+    },
+    (child) => indexResource(config, root, child, previous.get(child.url)),
+  );
+  const indexed = new Map<string, IndexedResource>();
+  let updated = 0;
+  let reused = 0;
+  for (const { child, value } of crawl.visited) {
+    if (value === undefined) continue;
+    indexed.set(child.url, value.resource);
+    if (value.reused) reused++;
+    else if (!child.isContainer) updated++;
+  }
+  // Containers whose every child was indexed; an unlisted one leaves the index partial.
+  const listed = new Set(crawl.listings.filter((l) => l.complete && !l.error).map((l) => l.url));
+  const truncated = crawl.truncated || crawl.listings.some((l) => l.error);
+
+  // Drop the entries the walk proved gone; keep those in parts of the pod it did not list.
+  let removed = 0;
+  for (const [url, resource] of previous) {
+    if (indexed.has(url)) continue;
+    if (provenGone(url, root, listed, indexed)) removed++;
+    else indexed.set(url, resource);
+  }
+  await saveSearchIndex(path, root, [...indexed.values()]);
+  return { path, indexed: indexed.size, updated, reused, removed, truncated };
+}
+
+/**
+ * Answer a {@link search} from the on-disk index: the resources below `scope`
+ * (within `maxDepth` containers of it, if given) that pass `filters` and
+ * satisfy `query`, scored against the whole index. Word counts come from the
+ * postings, so they cover every term; phrases, exclusions of phrases and hits
+ * are checked against the literals and text the index keeps.
+ */
+function searchIndex(
+  index: SearchIndexFile,
+  query: SearchQuery,
+  scope: string,
+  maxDepth: number | undefined,
+  filters: SearchFilters,
+): SearchMatch[] {
+  const words = [...query.words, ...query.excludedWords];
+  const terms = Object.keys(index.postings);
+  const counts = new Map<number, Map<string, number[]>>();
+  const frequency = new Map<string, number>();
+  for (const word of words) {
+    const holders = new Set<number>();
+    for (const term of terms) {
+      if (!term.startsWith(word)) continue;
+      for (const [position = -1, ...fieldCounts] of index.postings[term] ?? []) {
+        holders.add(position);
+        const byWord = counts.get(position) ?? new Map<string, number[]>();
+        const sum = byWord.get(word) ?? SEARCH_FIELDS.map(() => 0);
+        fieldCounts.forEach((count, field) => {
+          sum[field] = (sum[field] ?? 0) + count;
+        });
+        byWord.set(word, sum);
+        counts.set(position, byWord);
+      }
+    }
+    frequency.set(word, holders.size);
+  }
+  const corpus: SearchCorpus = {
+    size: index.resources.length,
+    averageLengths: averageLengths(index.resources.map((resource) => resource.lengths)),
+    frequency,
+  };
+  const candidates: SearchCandidate[] = [];
+  for (const [position, byWord] of [...counts].sort(([a], [b]) => a - b)) {
+    const resource = index.resources[position];
+    if (!resource?.url.startsWith(scope) || resource.url === scope) continue;
+    const depth = resource.url.slice(scope.length).replace(/\/$/, "").split("/").length - 1;
+    if (maxDepth !== undefined && depth > maxDepth) continue;
+    if (!passesListingFilters(resource, filters)) continue;
+    if (filters.type !== undefined && !resource.types?.includes(filters.type)) continue;
+    const doc: SearchDocument = {
+      url: resource.url,
+      name: resource.name,
+      path: resource.url.slice(index.podRoot.length),
+      literals: (resource.literals ?? []).map(([subject, predicate, value]) => ({
+        subject,
+        predicate,
+        value,
+      })),
+    };
+    if (resource.excerpt !== undefined) doc.text = resource.excerpt;
+    candidates.push({ doc, stats: { lengths: resource.lengths, counts: byWord } });
+  }
+  return rankCandidates(candidates, query, corpus);
+}
+
+/** Options for {@link querySparql}. */
+export interface SparqlOptions extends CrawlOptions {
+  /** The container whose documents are queried (default: the pod root). */
+  scope?: string;
+  /**
+   * How long (ms) collecting the documents may take — what is collected by
+   * then is queried, marked `truncated` — and, separately, the query itself
+   * (default 30 s).
+   */
+  timeoutMs?: number;
+}
+
+/** One RDF term in {@link SparqlJsonResults}. */
+export type SparqlJsonTerm =
+  | { type: "uri" | "bnode"; value: string }
+  | { type: "literal"; value: string; "xml:lang"?: string; datatype?: string };
+
+/** SPARQL 1.1 Query Results JSON: `bindings` for a SELECT, `boolean` for an ASK. */
+export interface SparqlJsonResults {
+  head: { vars?: string[] };
+  results?: { bindings: Array<Record<string, SparqlJsonTerm>> };
+  boolean?: boolean;
+}
+
+/** The result of {@link querySparql}. */
+export interface SparqlResult {
+  /** SELECT / ASK results, in the SPARQL JSON results format. */
+  json?: SparqlJsonResults;
+  /** CONSTRUCT / DESCRIBE results (serialise with {@link serializeRdf}). */
+  dataset?: import("n3").Store;
+  /** The RDF documents queried — each one's triples are in a named graph of its URL. */
+  sources: string[];
+  /** RDF documents left out: larger than `maxBytes`, unreadable or unparseable. */
+  skipped: string[];
+  /** Containers below the scope that could not be listed, their documents left unqueried. */
+  failed: string[];
+  /**
+   * Whether the crawl hit a cap or the timeout, or a container could not be
+   * listed, so part of the scope was not queried.
+   */
+  truncated: boolean;
+}
+
+/** The default {@link SparqlOptions.timeoutMs}. */
+const DEFAULT_SPARQL_TIMEOUT_MS = 30_000;
+
+/** One query engine for the process: building its actor graph is the costly part. */
+let sparqlEngine: QueryEngine | undefined;
+
+/** A term as SPARQL JSON results encode it. */
+function sparqlJsonTerm(term: Term): SparqlJsonTerm {
+  if (term.termType === "NamedNode") return { type: "uri", value: term.value };
+  if (term.termType === "BlankNode") return { type: "bnode", value: term.value };
+  if (term.termType !== "Literal") return { type: "literal", value: term.value };
+  if (term.language) return { type: "literal", value: term.value, "xml:lang": term.language };
+  if (term.datatype.value === XSD_STRING) return { type: "literal", value: term.value };
+  return { type: "literal", value: term.value, datatype: term.datatype.value };
+}
+
+/**
+ * Wrap `fetch` so a response body fails once more than `max` bytes of it have
+ * been read (or at once, when its Content-Length says so) — so a parser fed
+ * from it gives up instead of buffering a huge document. The response keeps its
+ * `url`, which a parser resolves relative IRIs against.
+ */
+function cappedFetch(fetch: typeof globalThis.fetch, max: number): typeof globalThis.fetch {
+  return (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const res = await fetch(input, init);
+    if (!res.body) return res;
+    const tooLarge = () => new Error(`${res.url || String(input)} is over the ${max}-byte cap.`);
+    if (Number(res.headers.get("content-length") ?? 0) > max) {
+      await res.body.cancel();
+      throw tooLarge();
+    }
+    let read = 0;
+    const body = res.body.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          read += chunk.byteLength;
+          if (read > max) controller.error(tooLarge());
+          else controller.enqueue(chunk);
+        },
+      }),
+    );
+    const capped = new Response(body, {
+      status: res.status,
+      statusText: res.statusText,
+      headers: res.headers,
+    });
+    Object.defineProperty(capped, "url", { value: res.url });
+    return capped;
+  }) as typeof fetch;
+}
+
+/** Settle `work`, or reject once `ms` have passed. */
+async function withTimeout<T>(work: Promise<T>, ms: number, what: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${what} timed out after ${ms} ms.`)), ms);
+  });
+  try {
+    return await Promise.race([work, expired]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run a SPARQL SELECT, ASK, CONSTRUCT or DESCRIBE query over the RDF documents
+ * under `scope`, locally. The documents are gathered with the same bounded
+ * crawl as {@link search} and parsed with fetchRdf — each into a named graph of
+ * its URL, their union being the default graph — then queried in memory with
+ * Comunica. Every fetch goes through the pod-scope guard and is aborted at the
+ * timeout; a document larger than `maxBytes` is skipped — unread when the
+ * listing says so, else abandoned once that many bytes have arrived.
+ * A scope that cannot be listed is an error; a sub-container that cannot be is
+ * reported in `failed` and marks the result `truncated`.
+ * The query never reaches anything else: SERVICE and remote FROM sources are
+ * refused, and updates are rejected. Relative IRIs in the query resolve
+ * against the scope. The JSON results are built from the
+ * engine's bindings; a graph result comes back as a Store.
+ */
+export async function querySparql(
+  config: SolidMcpConfig,
+  query: string,
+  options: SparqlOptions = {},
+): Promise<SparqlResult> {
+  const scope = requirePodScopedUrl(config, options.scope ?? config.podRoot);
+  const timeoutMs = options.timeoutMs ?? DEFAULT_SPARQL_TIMEOUT_MS;
+  const maxBytes = config.maxBytes ?? DEFAULT_MAX_READ_BYTES;
+  const signal = AbortSignal.timeout(timeoutMs);
+  // Every request of the query — listings and documents alike — aborts at the timeout.
+  const timedConfig: SolidMcpConfig = {
+    ...config,
+    fetch: ((input: RequestInfo | URL, init?: RequestInit) =>
+      config.fetch(input, {
+        ...init,
+        signal: init?.signal ? AbortSignal.any([init.signal, signal]) : signal,
+      })) as typeof fetch,
+  };
+  // A document is read no further than maxBytes, whether or not its listing gave a size.
+  const timed = cappedFetch(scopedFetch(timedConfig), maxBytes);
+
+  const crawl = await crawlPod(
+    timedConfig,
+    [scope],
+    options,
+    async (child) => {
+      if (child.isContainer || !(isRdfLike(child.mimeType) || hasRdfExtension(child.url))) {
+        return undefined;
+      }
+      const target = podScopedUrlOrUndefined(config, child.url);
+      if (target === undefined) return undefined;
+      if (child.size !== undefined && child.size > maxBytes) return { target };
+      try {
+        return { target, dataset: (await fetchRdf(target, { fetch: timed })).dataset };
+      } catch {
+        return { target };
+      }
+    },
+    signal,
+  );
+  // An unreadable scope is an error; an unreadable sub-container leaves the result partial.
+  const failed: string[] = [];
+  for (const listing of crawl.listings) {
+    if (listing.error === undefined) continue;
+    if (listing.url === scope) throw listing.error;
+    failed.push(listing.url);
+  }
+  // Gathered in crawl order, so the sources and skipped lists are stable.
+  const store = new Store();
+  const sources: string[] = [];
+  const skipped: string[] = [];
+  for (const { value } of crawl.visited) {
+    if (value === undefined) continue;
+    if (value.dataset === undefined) {
+      skipped.push(value.target);
+      continue;
+    }
+    const graph = DataFactory.namedNode(value.target);
+    for (const quad of value.dataset.getQuads(null, null, null, null)) {
+      store.addQuad(quad.subject, quad.predicate, quad.object, graph);
+    }
+    sources.push(value.target);
+  }
+  const truncated = crawl.truncated || failed.length > 0;
+
+  sparqlEngine ??= new QueryEngine();
+  const context = {
+    sources: [store],
+    unionDefaultGraph: true,
+    baseIRI: scope,
+    // Nothing beyond the collected documents is ever fetched.
+    fetch: async (input: RequestInfo | URL) => {
+      throw new Error(`${String(input)} is not fetched: a query only sees the collected documents`);
+    },
+  };
+  const base = { sources, skipped, failed, truncated };
+  const engine = sparqlEngine;
+  return withTimeout(
+    (async (): Promise<SparqlResult> => {
+      let result: Awaited<ReturnType<QueryEngine["query"]>>;
+      try {
+        result = await engine.query(query, context);
+      } catch (e) {
+        throw new Error(`invalid SPARQL query: ${e instanceof Error ? e.message : String(e)}`);
+      }
+      if (result.resultType === "boolean") {
+        return { ...base, json: { head: {}, boolean: await result.execute() } };
+      }
+      if (result.resultType === "quads") {
+        const quads = await (await result.execute()).toArray();
+        return { ...base, dataset: new Store(quads) };
+      }
+      if (result.resultType === "bindings") {
+        const vars = (await result.metadata()).variables.map((v) => v.value);
+        const rows = await (await result.execute()).toArray();
+        const bindings = rows.map((row) =>
+          Object.fromEntries(
+            [...row].map(([variable, term]) => [variable.value, sparqlJsonTerm(term)]),
+          ),
+        );
+        return { ...base, json: { head: { vars }, results: { bindings } } };
+      }
+      throw new Error(
+        "only SELECT, ASK, CONSTRUCT and DESCRIBE queries are supported — a query never writes.",
+      );
+    })(),
+    timeoutMs,
+    "SPARQL query",
+  );
+}
+
+/** Options for {@link walkTree}. */
+export type TreeOptions = CrawlOptions;
+
+/** One resource in a {@link walkTree} result. Containers carry their subtree's aggregates. */
+export interface TreeNode {
+  /** Absolute URL of the resource. */
+  url: string;
+  /** Its name (the last path segment). */
+  name: string;
+  /** Whether it is a container. */
+  isContainer: boolean;
+  /** The MIME type the listing advertised (non-containers). */
+  mimeType?: string;
+  /** The byte size the listing advertised (non-containers). */
+  size?: number;
+  /** Its own last-modified time (ISO 8601), if advertised. */
+  modified?: string;
+  /** A container's children — absent when it was not expanded (see `truncated`). */
+  children?: TreeNode[];
+  /** A container's number of immediate children (when expanded). */
+  childCount?: number;
+  /** The advertised sizes of every resource walked below a container, summed. */
+  totalBytes?: number;
+  /** The most recent modified time in a container's walked subtree (ISO 8601). */
+  lastModified?: string;
+  /**
+   * Whether a container's subtree was only partly walked — the depth or
+   * resource cap was hit, or a listing failed — so its aggregates are lower bounds.
+   */
+  truncated?: boolean;
+  /** Why a container could not be listed. */
+  error?: string;
+}
+
+/** The result of {@link walkTree}. */
+export interface TreeResult {
+  /** The root container, with its walked subtree. */
+  root: TreeNode;
+  /** How many resources (below the root) were visited. */
+  visited: number;
+}
+
+/** Summarise a container's walked children into its aggregates (post-order). */
+function aggregateTree(node: TreeNode): void {
+  if (!node.isContainer || node.children === undefined) return;
+  let totalBytes = 0;
+  let lastModified = node.modified;
+  for (const child of node.children) {
+    aggregateTree(child);
+    totalBytes += (child.isContainer ? child.totalBytes : child.size) ?? 0;
+    const modified = child.isContainer ? child.lastModified : child.modified;
+    if (modified !== undefined && (lastModified === undefined || modified > lastModified)) {
+      lastModified = modified;
+    }
+    if (child.truncated) node.truncated = true;
+  }
+  node.childCount = node.children.length;
+  node.totalBytes = totalBytes;
+  if (lastModified !== undefined) node.lastModified = lastModified;
+}
+
+/**
+ * Walk the container at `url` (pod-scoped) into a tree, breadth-first via
+ * {@link crawlPod}: listings are fetched concurrently within its `concurrency`
+ * and `perHost` bounds, and the same depth + resource caps as {@link search}
+ * bound the walk. Every container gets its child count, the total of the
+ * advertised sizes below it and the latest modified time; a subtree cut short
+ * by a cap or an unreadable listing is marked `truncated`, all the way up.
+ */
+export async function walkTree(
+  config: SolidMcpConfig,
+  url: string,
+  options: TreeOptions = {},
+): Promise<TreeResult> {
+  const target = requirePodScopedUrl(config, url);
+  if (!isContainerUrl(target)) {
+    throw new Error(`cannot walk ${target}: it is not a container (no trailing '/').`);
+  }
+  const crawl = await crawlPod(config, [target], options);
+  const root: TreeNode = { url: target, name: new URL(target).pathname, isContainer: true };
+  const containers = new Map<string, TreeNode>([[target, root]]);
+  for (const listing of crawl.listings) {
+    const node = containers.get(listing.url);
+    if (node === undefined) continue;
+    // An unreadable root is an error; an unreadable sub-container is a truncated node.
+    if (listing.error) {
+      if (node === root) throw listing.error;
+      node.truncated = true;
+      node.error = listing.error.message;
+      continue;
+    }
+    if (!listing.complete) node.truncated = true;
+    node.children = listing.children.map((child) => {
+      const childNode: TreeNode = {
+        url: child.url,
+        name: child.name,
+        isContainer: child.isContainer,
+      };
+      if (child.mimeType !== undefined && !child.isContainer) childNode.mimeType = child.mimeType;
+      if (child.size !== undefined && !child.isContainer) childNode.size = child.size;
+      if (child.modified !== undefined) childNode.modified = child.modified;
+      if (child.isContainer) containers.set(child.url, childNode);
+      return childNode;
+    });
+  }
+  // Containers left unlisted — past the depth cap, or by the resource cap — are cut short too.
+  for (const node of containers.values()) {
+    if (node.children === undefined && node.error === undefined) node.truncated = true;
+  }
+  aggregateTree(root);
+  return { root, visited: crawl.visited.length };
+}
+
+/** Is the MIME type one we will attempt to RDF-parse for literal search? */
+function isRdfLike(mimeType: string | undefined): boolean {
+  if (!mimeType) return false;
+  return RDF_MEDIA_TYPES.has(mimeType.toLowerCase());
+}
+
+/** Known RDF file extensions (used when a listing omits the child mimeType). */
+const RDF_EXTENSIONS = [".ttl", ".jsonld", ".nt", ".nq", ".trig", ".n3"];
+
+/** Does the URL path carry a known RDF file extension? */
+function hasRdfExtension(url: string): boolean {
+  let path: string;
+  try {
+    path = new URL(url).pathname.toLowerCase();
+  } catch {
+    path = url.toLowerCase();
+  }
+  return RDF_EXTENSIONS.some((ext) => path.endsWith(ext));
+}
+
+/**
+ * Best-effort: discover the type-index registration target containers / instances
+ * from the owner's WebID profile. Reads the profile, follows
+ * `solid:publicTypeIndex` / `solid:privateTypeIndex`, then each type index's
+ * `solid:instance` / `solid:instanceContainer`. Returns absolute URL strings.
+ * Throws only if the profile itself cannot be fetched — caller catches.
+ *
+ * SECURITY: the WebID profile is the one URL we fetch off-pod — it is the owner's
+ * configured identity (`config.webId`), often on a different origin, so it is
+ * trusted by configuration. But every URL DISCOVERED from that profile (the
+ * type-index documents) and from the type-index documents (the instance targets)
+ * is UNTRUSTED RDF: a malicious profile could point `solid:publicTypeIndex` at an
+ * arbitrary origin. So we (a) only FETCH a discovered type-index document if it is
+ * within the pod, and (b) only EMIT instance/instanceContainer URLs that are
+ * within the pod. This prevents the profile from steering `search` into an SSRF.
+ */
+async function typeIndexContainers(config: SolidMcpConfig): Promise<string[]> {
+  const webId = config.webId;
+  if (!webId) return [];
+  const solidNs = "http://www.w3.org/ns/solid/terms#";
+  const out = new Set<string>();
+  const { dataset: profile } = await fetchRdf(webId, { fetch: config.fetch });
+  const indexes = new Set<string>();
+  for (const p of [`${solidNs}publicTypeIndex`, `${solidNs}privateTypeIndex`]) {
+    for (const quad of profile.getQuads(null, DataFactory.namedNode(p), null, null)) {
+      if (quad.object.termType === "NamedNode") {
+        // Only fetch type-index documents that are within the pod (untrusted ref).
+        const scoped = podScopedUrlOrUndefined(config, quad.object.value);
+        if (scoped !== undefined) indexes.add(scoped);
+      }
+    }
+  }
+  for (const index of indexes) {
     try {
       // The index URL is in-pod (validated above); use scopedFetch so a redirect
       // out of the pod is still blocked (redirect-based SSRF guard).
@@ -502,50 +2811,1834 @@ async function typeIndexContainers(config: SolidMcpConfig): Promise<string[]> {
   return [...out];
 }
 
+/** The read-only refusal shared by every mutating operation (and the tool layer). */
+export const WRITE_DISABLED_MESSAGE =
+  "write disabled: server is read-only (set readOnly:false to enable writes).";
+
 /**
- * Write `content` to `url` with `contentType` (pod-scoped) via PUT on the injected
- * fetch. GUARDED: throws if the server is read-only (the default). On a non-2xx
- * response it throws with the status.
+ * The shared GATE for every mutating operation: throws if the server is
+ * read-only (the default), then resolves `url` as a WRITE target — strictly
+ * UNDER the pod root, never the root itself nor its slashless alias (a
+ * parent-container resource). See requirePodScopedWriteUrl — reads may address
+ * the root; writes may not. Finally the configured writable scopes must permit
+ * `op` there (see requireWritableUrl). Returns the canonical target URL.
  */
-export async function writeResource(
-  config: SolidMcpConfig,
-  url: string,
-  content: string,
-  contentType: string,
-): Promise<{ url: string; etag?: string }> {
+function requireWriteTarget(config: SolidMcpConfig, url: string, op: WriteOperation): string {
+  requireWritesEnabled(config);
+  return requireWritableUrl(config, url, op);
+}
+
+/** Throw the read-only refusal unless writes are enabled. */
+function requireWritesEnabled(config: SolidMcpConfig): void {
   if (!writesEnabled(config)) {
-    throw new Error("write disabled: server is read-only (set readOnly:false to enable writes).");
-  }
-  // Write-target semantics: the target must be strictly UNDER the pod root, never
-  // the root itself nor its slashless alias (a parent-container resource). See
-  // requirePodScopedWriteUrl — reads may address the root; writes may not.
-  const target = requirePodScopedWriteUrl(config, url);
-  // Manual redirect: never replay a write body to a redirect target (a 3xx on a
-  // PUT could steer the write out of the pod — redirect-based SSRF guard). Treat
-  // any redirect on a write as a failure rather than following it.
-  const res = await config.fetch(target, {
-    method: "PUT",
-    headers: { "content-type": contentType },
-    body: content,
-    redirect: "manual",
-  });
+    throw new Error(WRITE_DISABLED_MESSAGE);
+  }
+}
+
+/** The progressive form of each mutating verb, for error messages. */
+const MUTATION_GERUNDS: Record<string, string> = {
+  write: "writing",
+  patch: "patching",
+  create: "creating",
+  delete: "deleting",
+  copy: "copying",
+  restore: "restoring",
+};
+
+/**
+ * Send a mutating request to an already write-guarded `target` on the injected
+ * fetch, mapping failures to the package's error contract. `verb` names the
+ * operation in those errors ("write", "patch", "create", "delete", "copy").
+ *
+ * Manual redirect: never replay a write body to a redirect target (a 3xx on a
+ * mutation could steer it out of the pod — redirect-based SSRF guard). Any
+ * redirect is treated as a failure rather than followed.
+ */
+async function sendMutation(
+  config: SolidMcpConfig,
+  target: string,
+  init: RequestInit,
+  verb: string,
+): Promise<Response> {
+  const res = await config.fetch(target, { ...init, redirect: "manual" });
   if (res.status >= 300 && res.status < 400) {
     throw new Error(
-      `refusing to follow a redirect (${res.status}) on a write to ${target} ` +
+      `refusing to follow a redirect (${res.status}) on a ${verb} to ${target} ` +
         "(a redirected write could escape the pod — SSRF guard).",
     );
   }
   if (res.status === 401 || res.status === 403) {
     throw new Error(
-      `unauthenticated/forbidden (${res.status}) writing ${target} — supply an authenticated fetch ` +
-        "with write access.",
+      `unauthenticated/forbidden (${res.status}) ${MUTATION_GERUNDS[verb] ?? verb} ${target} — ` +
+        "supply an authenticated fetch with write access.",
     );
   }
+  if (res.status === 412) {
+    throw await preconditionFailed(config, target, res, new Headers(init.headers), verb);
+  }
   if (!res.ok) {
-    throw new Error(`failed to write ${target}: HTTP ${res.status} ${res.statusText}`);
+    throw new Error(`failed to ${verb} ${target}: HTTP ${res.status} ${res.statusText}`);
+  }
+  return res;
+}
+
+/**
+ * Build the error for a 412 on a conditional mutation. With `If-None-Match: *`
+ * it means the resource already exists; with `If-Match` it means the resource
+ * changed since the caller read it — the message then carries the CURRENT ETag
+ * (from the 412 itself, else a best-effort HEAD) so an agent can re-read and
+ * retry against it.
+ */
+async function preconditionFailed(
+  config: SolidMcpConfig,
+  target: string,
+  res: Response,
+  sent: Headers,
+  verb: string,
+): Promise<Error> {
+  if (sent.get("if-none-match") === "*") {
+    return new Error(
+      `precondition failed (412) ${MUTATION_GERUNDS[verb] ?? verb} ${target}: the resource ` +
+        "already exists (create-only write refused to overwrite it).",
+    );
   }
+  let current = res.headers.get("etag") ?? undefined;
+  if (current === undefined) {
+    try {
+      const head = await scopedFetch(config)(target, { method: "HEAD" });
+      current = head.headers.get("etag") ?? undefined;
+    } catch {
+      // best-effort: report the conflict without the current ETag.
+    }
+  }
+  if (verb === "restore") {
+    return new Error(
+      `precondition failed (412) restoring ${target}: the resource changed after the ` +
+        `journaled change (current etag ${current ?? "unknown"}) — refusing to overwrite it; ` +
+        "its journal entry is kept.",
+    );
+  }
+  return new Error(
+    `precondition failed (412) ${MUTATION_GERUNDS[verb] ?? verb} ${target}: the resource ` +
+      `changed since you read it (expected etag ${sent.get("if-match") ?? "?"}, ` +
+      `current etag ${current ?? "unknown"}) — re-read it and retry.`,
+  );
+}
+
+/** Attach the response ETag (if any) to a mutation result. */
+function mutationResult(target: string, res: Response): { url: string; etag?: string } {
   const etag = res.headers.get("etag") ?? undefined;
   const result: { url: string; etag?: string } = { url: target };
   if (etag !== undefined) result.etag = etag;
   return result;
 }
+
+/** Optimistic-concurrency preconditions for {@link writeResource}. */
+export interface WriteOptions {
+  /**
+   * Only write if the resource's current ETag is this one (`If-Match`) — pass the
+   * `etag` from a prior {@link readResource} so a concurrent change is not
+   * silently clobbered.
+   */
+  ifMatch?: string;
+  /** `"*"`: only write if the resource does NOT exist yet (`If-None-Match: *`). */
+  ifNoneMatch?: "*";
+  /**
+   * How `content` is encoded: `"utf8"` text (the default) or `"base64"` bytes —
+   * the same encoding {@link readResource} returns binary bodies in, so an image
+   * or PDF read from the pod can be written back (or a generated one uploaded).
+   */
+  encoding?: "utf8" | "base64";
+}
+
+/** The default cap on a single upload's decoded body, when the config sets none. */
+const DEFAULT_MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+/** Strict base64 (standard alphabet, optional padding); whitespace is stripped first. */
+const BASE64_RE =
+  /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=|[A-Za-z0-9+/]{2,3})?$/;
+
+/**
+ * Decode a write body to the exact bytes to PUT, refusing malformed base64
+ * (`Buffer.from` would otherwise silently drop bad characters and upload garbage)
+ * and anything over the configured {@link SolidMcpConfig.maxUploadBytes}.
+ */
+function encodeBody(
+  config: SolidMcpConfig,
+  target: string,
+  content: string,
+  encoding: "utf8" | "base64",
+): Uint8Array<ArrayBuffer> {
+  let bytes: Buffer;
+  if (encoding === "base64") {
+    const compact = content.replace(/\s+/g, "");
+    if (!BASE64_RE.test(compact)) {
+      throw new Error(`cannot write ${target}: content is not valid base64.`);
+    }
+    bytes = Buffer.from(compact, "base64");
+  } else {
+    bytes = Buffer.from(content, "utf8");
+  }
+  const max = config.maxUploadBytes ?? DEFAULT_MAX_UPLOAD_BYTES;
+  if (bytes.byteLength > max) {
+    throw new Error(
+      `cannot write ${target}: the body is ${bytes.byteLength} bytes, over the ` +
+        `${max}-byte upload limit (maxUploadBytes).`,
+    );
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Write `content` to `url` with `contentType` (pod-scoped) via PUT on the injected
+ * fetch. GUARDED: throws if the server is read-only (the default). On a non-2xx
+ * response it throws with the status; a 412 on a conditional write (see
+ * {@link WriteOptions}) throws a "changed since you read it" error carrying the
+ * current ETag, or an "already exists" error for a create-only write. `content`
+ * is UTF-8 text or, with `encoding: "base64"`, binary; either way the decoded
+ * body is capped by {@link SolidMcpConfig.maxUploadBytes}.
+ */
+export async function writeResource(
+  config: SolidMcpConfig,
+  url: string,
+  content: string,
+  contentType: string,
+  options: WriteOptions = {},
+): Promise<{ url: string; etag?: string }> {
+  const target = requireWriteTarget(config, url, "put");
+  if (options.ifMatch !== undefined && options.ifNoneMatch !== undefined) {
+    throw new Error(
+      `conflicting preconditions writing ${target}: ifMatch and ifNoneMatch are mutually exclusive.`,
+    );
+  }
+  const headers: Record<string, string> = { "content-type": contentType };
+  if (options.ifMatch !== undefined) headers["if-match"] = options.ifMatch;
+  if (options.ifNoneMatch !== undefined) headers["if-none-match"] = options.ifNoneMatch;
+  const body = encodeBody(config, target, content, options.encoding ?? "utf8");
+  const put = () => sendMutation(config, target, { method: "PUT", headers, body }, "write");
+  // A create-only write cannot overwrite anything, so there is nothing to journal.
+  const res =
+    options.ifNoneMatch === undefined
+      ? await journaled(config, target, "update", put)
+      : await put();
+  return mutationResult(target, res);
+}
+
+/** The two PATCH dialects Solid servers accept. */
+export type PatchFormat = "n3" | "sparql-update";
+
+/** A set of triple edits for {@link patchResource}. */
+export interface PatchOptions {
+  /** Triples to add to the resource graph. */
+  insert?: Quad[];
+  /** Triples to remove from the resource graph (no blank nodes). */
+  delete?: Quad[];
+  /**
+   * The patch dialect: `"n3"` (a `solid:InsertDeletePatch`, `text/n3` — the
+   * Solid Protocol's mandatory format, the default) or `"sparql-update"`
+   * (`application/sparql-update`, for servers that predate N3 Patch).
+   */
+  format?: PatchFormat;
+}
+
+/**
+ * Serialise quads as N-Triples lines via n3.Writer. The patch builders below
+ * embed these lines in the patch document's fixed skeleton, so every TERM in a
+ * patch body is written by n3 — only the dialect keywords are literal text.
+ */
+function serializeNTriples(quads: Quad[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const writer = new Writer({ format: "N-Triples" });
+    writer.addQuads(quads);
+    writer.end((err, result) => {
+      if (err) reject(err);
+      else resolve(result);
+    });
+  });
+}
+
+/**
+ * Build the PATCH body + Content-Type for `insert` / `delete` in `format`.
+ *
+ * N3 Patch: a `solid:InsertDeletePatch` with `solid:inserts` / `solid:deletes`
+ * formulae and no `solid:where` (the triples are concrete, so the patch needs no
+ * variable bindings). SPARQL Update: `DELETE DATA` then `INSERT DATA`, the
+ * order the server applies them in.
+ */
+async function buildPatchBody(
+  insert: Quad[],
+  del: Quad[],
+  format: PatchFormat,
+): Promise<{ body: string; contentType: string }> {
+  const inserts = await serializeNTriples(insert);
+  const deletes = await serializeNTriples(del);
+  if (format === "sparql-update") {
+    const ops: string[] = [];
+    if (del.length > 0) ops.push(`DELETE DATA {\n${deletes}}`);
+    if (insert.length > 0) ops.push(`INSERT DATA {\n${inserts}}`);
+    return { body: `${ops.join(";\n")}\n`, contentType: "application/sparql-update" };
+  }
+  const clauses: string[] = [];
+  if (insert.length > 0) clauses.push(`  solid:inserts {\n${inserts}  }`);
+  if (del.length > 0) clauses.push(`  solid:deletes {\n${deletes}  }`);
+  return {
+    body:
+      "@prefix solid: <http://www.w3.org/ns/solid/terms#>.\n" +
+      `_:patch a solid:InsertDeletePatch;\n${clauses.join(";\n")}.\n`,
+    contentType: "text/n3",
+  };
+}
+
+/**
+ * Apply triple-level edits to the RDF resource at `url` (pod-scoped) via PATCH,
+ * so an agent can add or remove a few triples without re-serialising and
+ * overwriting the whole document. The body is an N3 Patch (default) or a SPARQL
+ * Update built from the given quads (see {@link PatchOptions}). GUARDED exactly
+ * like {@link writeResource}: read-only refusal, write-target scope, and a
+ * refused redirect. Throws if there is nothing to patch, or if `delete` holds a
+ * blank node (neither dialect can address an existing blank node by label).
+ */
+export async function patchResource(
+  config: SolidMcpConfig,
+  url: string,
+  patch: PatchOptions,
+): Promise<{ url: string; etag?: string }> {
+  const target = requireWriteTarget(config, url, "patch");
+  const insert = patch.insert ?? [];
+  const del = patch.delete ?? [];
+  if (insert.length === 0 && del.length === 0) {
+    throw new Error(`nothing to patch on ${target}: supply triples to insert and/or delete.`);
+  }
+  if (del.some((q) => q.subject.termType === "BlankNode" || q.object.termType === "BlankNode")) {
+    throw new Error(
+      `cannot patch ${target}: triples to delete must not contain blank nodes ` +
+        "(a patch cannot address an existing blank node by its label).",
+    );
+  }
+  const { body, contentType } = await buildPatchBody(insert, del, patch.format ?? "n3");
+  const res = await journaled(config, target, "update", () =>
+    sendMutation(
+      config,
+      target,
+      { method: "PATCH", headers: { "content-type": contentType }, body },
+      "patch",
+    ),
+  );
+  return mutationResult(target, res);
+}
+
+/**
+ * Parse a Turtle snippet (e.g. a tool argument) into quads via n3.Parser,
+ * resolving relative IRIs against `baseIRI` (the target resource). Throws the
+ * parser's error on malformed input.
+ */
+export function parseTurtle(turtle: string, baseIRI: string): Quad[] {
+  return new Parser({ format: "text/turtle", baseIRI }).parse(turtle);
+}
+
+/**
+ * The media types {@link diffRdf} can parse a proposed body as (n3.Parser's
+ * formats) — the Turtle family of {@link RDF_MEDIA_TYPES}.
+ */
+const DIFFABLE_MEDIA_TYPES = new Map([
+  ["text/turtle", "text/turtle"],
+  ["application/x-turtle", "text/turtle"],
+  ["application/n-triples", "application/n-triples"],
+  ["application/n-quads", "application/n-quads"],
+  ["application/trig", "application/trig"],
+  ["text/n3", "text/n3"],
+]);
+
+/** Can {@link diffRdf} parse a body of this Content-Type? */
+export function isDiffableContentType(contentType: string): boolean {
+  const media = bareMediaType(contentType);
+  return media !== undefined && DIFFABLE_MEDIA_TYPES.has(media);
+}
+
+/** The outcome of {@link diffRdf}: what a write of the proposed body would change. */
+export interface RdfDiff {
+  /** The canonical resource URL. */
+  url: string;
+  /** Whether the resource exists now (if not, every proposed triple is added). */
+  exists: boolean;
+  /**
+   * The resource's ETag when it was read — commit the previewed write with it
+   * (`ifMatch` / `expectedEtag`) so it fails if the resource changed since.
+   */
+  etag?: string;
+  /** Triples the write would add. */
+  added: Quad[];
+  /** Triples the write would remove. */
+  removed: Quad[];
+  /** How many triples are in both (unchanged by the write). */
+  unchanged: number;
+}
+
+/** A comparison key for a non-blank term (a map key, not an RDF serialisation). */
+function termKey(term: Term): string {
+  switch (term.termType) {
+    case "Literal":
+      return JSON.stringify([term.termType, term.value, term.language, term.datatype.value]);
+    case "Quad":
+      return JSON.stringify([
+        term.termType,
+        ...[term.subject, term.predicate, term.object, term.graph].map(termKey),
+      ]);
+    default:
+      return JSON.stringify([term.termType, term.value]);
+  }
+}
+
+/**
+ * One round of colour refinement over the blank nodes of `quads`: each blank
+ * node's new colour is a hash of every quad it occurs in, with itself written
+ * `@` and any other blank node written as its current colour.
+ */
+function refineColours(quads: Quad[], colours: Map<string, string>): Map<string, string> {
+  const signatures = new Map<string, string[]>();
+  for (const quad of quads) {
+    const terms = [quad.subject, quad.predicate, quad.object, quad.graph];
+    for (const self of terms) {
+      if (self.termType !== "BlankNode") continue;
+      const parts = terms.map((t) =>
+        t.termType !== "BlankNode"
+          ? termKey(t)
+          : t.equals(self)
+            ? "@"
+            : `_:${colours.get(t.value)}`,
+      );
+      const list = signatures.get(self.value) ?? [];
+      list.push(parts.join(" "));
+      signatures.set(self.value, list);
+    }
+  }
+  const next = new Map<string, string>();
+  for (const [label, list] of signatures) {
+    const hash = createHash("sha256").update(`${colours.get(label)}|${list.sort().join("\n")}`);
+    next.set(label, hash.digest("hex").slice(0, 16));
+  }
+  return next;
+}
+
+/** The number of distinct colours in a blank-node colouring. */
+function colourCount(colours: Map<string, string>): number {
+  return new Set(colours.values()).size;
+}
+
+/**
+ * A blank-node-label-independent key for each quad of `current` and `proposed`.
+ * Blank nodes are named by their STRUCTURE (iterated colour refinement, run in
+ * lockstep over both graphs until neither partition splits further), so two
+ * documents that differ only in blank-node labels key identically. This is an
+ * approximation of full RDF canonicalisation: it only confuses blank nodes that
+ * are structurally indistinguishable, which a triple-level diff cannot tell
+ * apart anyway.
+ */
+function canonicalKeys(current: Quad[], proposed: Quad[]): [string[], string[]] {
+  const initial = (quads: Quad[]) => {
+    const colours = new Map<string, string>();
+    for (const q of quads) {
+      for (const t of [q.subject, q.object, q.graph]) {
+        if (t.termType === "BlankNode") colours.set(t.value, "");
+      }
+    }
+    return colours;
+  };
+  let a = initial(current);
+  let b = initial(proposed);
+  const maxRounds = Math.max(a.size, b.size) + 1;
+  for (let round = 0; round < maxRounds; round++) {
+    const nextA = refineColours(current, a);
+    const nextB = refineColours(proposed, b);
+    const split = colourCount(nextA) > colourCount(a) || colourCount(nextB) > colourCount(b);
+    a = nextA;
+    b = nextB;
+    if (!split) break;
+  }
+  const key = (colours: Map<string, string>) => (q: Quad) =>
+    [q.subject, q.predicate, q.object, q.graph]
+      .map((t) => (t.termType === "BlankNode" ? `_:${colours.get(t.value)}` : termKey(t)))
+      .join(" ");
+  return [current.map(key(a)), proposed.map(key(b))];
+}
+
+/**
+ * Preview what writing `body` (of RDF `contentType`) to `url` would change,
+ * WITHOUT writing: the current resource is read with {@link readRdf}, the
+ * proposed body parsed with n3.Parser (relative IRIs against `url`), and the
+ * triples compared with blank nodes matched by structure rather than label
+ * (see {@link canonicalKeys}). The returned `etag` is taken BEFORE the read, so
+ * a write committed with it (`ifMatch`) fails if anything changed since the
+ * preview. Pod-scoped like a read; writes nothing.
+ */
+export async function diffRdf(
+  config: SolidMcpConfig,
+  url: string,
+  body: string,
+  contentType: string,
+): Promise<RdfDiff> {
+  const target = requirePodScopedUrl(config, url);
+  const media = bareMediaType(contentType);
+  const format = media === undefined ? undefined : DIFFABLE_MEDIA_TYPES.get(media);
+  if (format === undefined) {
+    throw new Error(
+      `cannot diff ${target}: ${contentType} is not a Turtle-family RDF type ` +
+        `(expected one of ${[...DIFFABLE_MEDIA_TYPES.keys()].join(", ")}).`,
+    );
+  }
+  let proposed: Quad[];
+  try {
+    proposed = new Parser({ format, baseIRI: target }).parse(body);
+  } catch (e) {
+    throw new Error(
+      `cannot diff ${target}: the proposed body is not valid ${media}: ${e instanceof Error ? e.message : String(e)}`,
+    );
+  }
+  const head = await scopedFetch(config)(target, { method: "HEAD" });
+  if (head.status === 401 || head.status === 403) {
+    throw new Error(
+      `unauthenticated/forbidden (${head.status}) reading ${target} — supply an authenticated fetch ` +
+        "(the Solid-MCP server holds no credentials of its own).",
+    );
+  }
+  const diff: RdfDiff = {
+    url: target,
+    exists: head.status !== 404,
+    added: [],
+    removed: [],
+    unchanged: 0,
+  };
+  if (!diff.exists) {
+    diff.added = proposed;
+    return diff;
+  }
+  if (!head.ok) {
+    throw new Error(`failed to read ${target}: HTTP ${head.status} ${head.statusText}`);
+  }
+  const etag = head.headers.get("etag");
+  if (etag !== null) diff.etag = etag;
+  const current = (await readRdf(config, target)).dataset.getQuads(null, null, null, null);
+  const [currentKeys, proposedKeys] = canonicalKeys(current, proposed);
+  // Multiset difference: structurally identical blank nodes share a key.
+  const remaining = new Map<string, number>();
+  for (const k of currentKeys) remaining.set(k, (remaining.get(k) ?? 0) + 1);
+  proposed.forEach((quad, i) => {
+    const k = proposedKeys[i] as string;
+    const left = remaining.get(k) ?? 0;
+    if (left > 0) {
+      remaining.set(k, left - 1);
+      diff.unchanged++;
+    } else {
+      diff.added.push(quad);
+    }
+  });
+  current.forEach((quad, i) => {
+    const k = currentKeys[i] as string;
+    const left = remaining.get(k) ?? 0;
+    if (left > 0) {
+      remaining.set(k, left - 1);
+      diff.removed.push(quad);
+    }
+  });
+  return diff;
+}
+
+/** Render triples as N-Triples lines (via n3.Writer) — e.g. for a diff report. */
+export async function nTriplesLines(quads: Quad[]): Promise<string[]> {
+  const text = await serializeNTriples(quads);
+  return text.split("\n").filter((line) => line.length > 0);
+}
+
+/** The LDP type IRI that asks a server to mint a sub-container on POST. */
+const LDP_BASIC_CONTAINER = "http://www.w3.org/ns/ldp#BasicContainer";
+
+/** Options for {@link createResource}. */
+export interface CreateOptions {
+  /** A suggested name for the new resource (LDP `Slug`); the server may alter it. */
+  slug?: string;
+  /** Create a sub-container (`Link: <ldp:BasicContainer>; rel="type"`) instead. */
+  asContainer?: boolean;
+}
+
+/**
+ * Create a new resource INSIDE the container `containerUrl` (pod-scoped) via an
+ * LDP POST, letting the server mint its URL (optionally from a `Slug`). Returns
+ * the URL the server assigned (its `Location`).
+ *
+ * GUARDED like {@link writeResource} (read-only refusal, refused redirect), with
+ * one difference in target semantics: the POST target is the PARENT container,
+ * which may be the pod root itself (creating a top-level child is in scope), but
+ * it must be a container URL (path ends in `/`) — so the slashless root alias,
+ * a resource in the parent of the configured sub-tree, is still refused. With a
+ * `slug`, the URL it asks for must be writable too, checked before the POST.
+ *
+ * SECURITY: the returned `Location` is server-supplied and so UNTRUSTED — it is
+ * resolved against the container and re-validated with
+ * {@link podScopedUrlOrUndefined} and the writable scopes; a Location outside
+ * either (or a missing one) fails the call rather than handing the client an
+ * out-of-pod or out-of-scope URL.
+ */
+export async function createResource(
+  config: SolidMcpConfig,
+  containerUrl: string,
+  body: string,
+  contentType: string,
+  options: CreateOptions = {},
+): Promise<{ url: string; etag?: string }> {
+  requireWritesEnabled(config);
+  const container = requireWritableScope(config, containerUrl, "create");
+  if (!isContainerUrl(container)) {
+    throw new Error(`cannot create in ${container}: not a container URL (must end in '/').`);
+  }
+  if (options.slug !== undefined) {
+    // The URL the slug asks for must be writable too, not just its container.
+    const suffix = options.asContainer ? "/" : "";
+    requireWritableScope(
+      config,
+      new URL(`${encodeURIComponent(options.slug)}${suffix}`, container).toString(),
+      "create",
+    );
+  }
+  const headers: Record<string, string> = { "content-type": contentType };
+  if (options.slug !== undefined) headers.slug = options.slug;
+  if (options.asContainer) headers.link = `<${LDP_BASIC_CONTAINER}>; rel="type"`;
+  const res = await sendMutation(config, container, { method: "POST", headers, body }, "create");
+  const location = res.headers.get("location");
+  if (!location) {
+    throw new Error(`created a resource in ${container} but the server returned no Location.`);
+  }
+  let resolved: string;
+  try {
+    resolved = new URL(location, container).toString();
+  } catch {
+    throw new Error(`created a resource in ${container} but its Location is not a URL.`);
+  }
+  const created = podScopedUrlOrUndefined(config, resolved);
+  if (created === undefined) {
+    throw new Error(
+      `pod-scope violation: the server placed the created resource outside the pod (${resolved}).`,
+    );
+  }
+  try {
+    requireWritableScope(config, created, "create");
+  } catch (e) {
+    throw new Error(
+      `the server placed the created resource at ${created}, outside the writable scopes — ` +
+        `remove it by hand if unwanted: ${e instanceof Error ? e.message : String(e)}`,
+    );
+  }
+  return mutationResult(created, res);
+}
+
+/** Options for {@link deleteResource}. */
+export interface DeleteOptions {
+  /** Delete a non-empty container together with everything under it. */
+  recursive?: boolean;
+  /** Plan only: report what would be deleted without deleting anything. */
+  dryRun?: boolean;
+  /**
+   * The plan a human approved (the `urls` of an earlier dry run): delete only if
+   * the fresh plan is exactly these URLs, else throw before deleting anything.
+   */
+  plan?: string[];
+}
+
+/** The outcome of {@link deleteResource}. */
+export interface DeleteResult {
+  /** The URLs deleted (or, on a dry run, that would be) — children before parents. */
+  urls: string[];
+  /** Whether this was a dry run (nothing was deleted). */
+  dryRun: boolean;
+}
+
+/**
+ * Collect the deletion plan for `target`: the resource itself, or — for a
+ * container — its whole subtree in post-order (children before their parent),
+ * the only order in which an LDP server lets the containers go.
+ *
+ * SECURITY: the listing is untrusted. `listContainer` already drops out-of-pod
+ * children, but an in-pod entry pointing OUTSIDE this container (a sibling, the
+ * parent, or the container itself) would otherwise be deleted too — so only
+ * strict descendants are followed, and `seen` stops a listing cycle.
+ */
+async function deletionPlan(
+  config: SolidMcpConfig,
+  target: string,
+  recursive: boolean,
+  seen: Set<string>,
+  plan: string[],
+): Promise<void> {
+  seen.add(target);
+  if (isContainerUrl(target)) {
+    const children = (await listContainer(config, target)).filter(
+      (c) => c.url.startsWith(target) && c.url !== target && !seen.has(c.url),
+    );
+    if (children.length > 0 && !recursive) {
+      throw new Error(
+        `cannot delete ${target}: the container is not empty (${children.length} ` +
+          "child resource(s)) — pass recursive to delete it with everything under it.",
+      );
+    }
+    for (const child of children) {
+      await deletionPlan(config, child.url, recursive, seen, plan);
+    }
+  }
+  plan.push(target);
+}
+
+/**
+ * Delete the resource at `url` (pod-scoped) via DELETE. A non-empty container is
+ * refused unless `recursive`, in which case its subtree is walked with
+ * {@link listContainer} and deleted bottom-up, stopping at the FIRST failure
+ * (the error names what was already deleted). `dryRun` returns the full plan
+ * without deleting anything. GUARDED like {@link writeResource}: read-only
+ * refusal, write-target scope (so the pod root itself can never be deleted),
+ * and a refused redirect.
+ */
+export async function deleteResource(
+  config: SolidMcpConfig,
+  url: string,
+  options: DeleteOptions = {},
+): Promise<DeleteResult> {
+  const target = requireWriteTarget(config, url, "delete");
+  const plan: string[] = [];
+  await deletionPlan(config, target, options.recursive === true, new Set(), plan);
+  // Permission-check the WHOLE plan up front, so a denied descendant fails the
+  // call (and the dry run) before anything is deleted.
+  for (const next of plan) requireWriteTarget(config, next, "delete");
+  if (options.plan !== undefined && !sameUrls(plan, options.plan)) {
+    throw new Error(
+      `refusing to delete ${target}: what it would delete changed since the plan was approved ` +
+        `(now ${plan.length} resource(s), approved ${options.plan.length}) — nothing was deleted.`,
+    );
+  }
+  if (options.dryRun) {
+    return { urls: plan, dryRun: true };
+  }
+  return { urls: await deletePlanned(config, plan), dryRun: false };
+}
+
+/** Whether two URL lists hold the same URLs, in any order. */
+function sameUrls(a: string[], b: string[]): boolean {
+  const set = new Set(a);
+  return set.size === new Set(b).size && b.every((url) => set.has(url));
+}
+
+/**
+ * Delete exactly the (already guarded) URLs of `plan`, in order, each under the
+ * journal — no listing, so nothing outside the plan is touched. Stops at the
+ * FIRST failure with an error naming what was already deleted.
+ */
+async function deletePlanned(config: SolidMcpConfig, plan: string[]): Promise<string[]> {
+  const deleted: string[] = [];
+  for (const next of plan) {
+    try {
+      await journaled(config, next, "delete", () =>
+        sendMutation(config, next, { method: "DELETE" }, "delete"),
+      );
+    } catch (e) {
+      throw new Error(
+        `${e instanceof Error ? e.message : String(e)} (stopped after deleting ` +
+          `${deleted.length} of ${plan.length}${deleted.length > 0 ? `: ${deleted.join(", ")}` : ""}).`,
+      );
+    }
+    deleted.push(next);
+  }
+  return deleted;
+}
+
+/** Options for {@link copyResource} / {@link moveResource}. */
+export interface TransferOptions {
+  /**
+   * Overwrite resources that already exist at the destination. Default `false`:
+   * every copy is a create-only PUT (`If-None-Match: *`), so an existing
+   * destination fails the transfer instead of being clobbered.
+   */
+  overwrite?: boolean;
+  /** Plan only: report what would be copied (and, for a move, deleted) without changing anything. */
+  dryRun?: boolean;
+  /**
+   * The plan a human approved (the `from` URLs of an earlier dry run's
+   * `copied`): transfer only if the fresh plan copies exactly these sources,
+   * else throw before copying anything.
+   */
+  plan?: string[];
+}
+
+/** One resource copied by a transfer. */
+export interface TransferredResource {
+  /** The source URL. */
+  from: string;
+  /** The destination URL. */
+  to: string;
+  /** The Content-Type carried over from the source, if it had one. */
+  contentType?: string;
+  /**
+   * The number of body bytes copied (matched against a non-RDF destination's
+   * size); absent on a dry run.
+   */
+  bytes?: number;
+}
+
+/** The outcome of {@link copyResource} / {@link moveResource}. */
+export interface TransferResult {
+  /** Every resource copied (or, on a dry run, that would be), parents before children. */
+  copied: TransferredResource[];
+  /** The source URLs deleted after the copy (a move only), children before parents. */
+  deleted: string[];
+  /** Whether this was a dry run (nothing was copied or deleted). */
+  dryRun: boolean;
+}
+
+/**
+ * Collect the copy plan for `source` → `destination`: the pair itself, or — for
+ * a container — every pair in its subtree, parents first. Only strict
+ * descendants of each container are followed (the listing is untrusted; see
+ * {@link deletionPlan}), and each is mapped to the same relative path under the
+ * destination.
+ */
+async function transferPlan(
+  config: SolidMcpConfig,
+  source: string,
+  destination: string,
+  plan: TransferStep[],
+): Promise<void> {
+  if (!isContainerUrl(source)) {
+    plan.push({ from: source, to: destination, leaf: true });
+    return;
+  }
+  const children = (await listContainer(config, source)).filter(
+    (c) => c.url.startsWith(source) && c.url !== source,
+  );
+  // An empty container has to be created explicitly; a non-empty one comes into
+  // existence with its first child (Solid servers create intermediate containers).
+  plan.push({ from: source, to: destination, leaf: children.length === 0 });
+  for (const child of children) {
+    const to = requirePodScopedWriteUrl(config, destination + child.url.slice(source.length));
+    await transferPlan(config, child.url, to, plan);
+  }
+}
+
+/** Count the bytes flowing through a body stream (for post-copy verification). */
+function countingStream(): {
+  stream: TransformStream<Uint8Array, Uint8Array>;
+  bytes: () => number;
+} {
+  let n = 0;
+  const stream = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      n += chunk.byteLength;
+      controller.enqueue(chunk);
+    },
+  });
+  return { stream, bytes: () => n };
+}
+
+/**
+ * A PUT whose body streams from `body` rather than being buffered, so a
+ * resource of any size passes through in constant memory. A streamed request
+ * body needs `duplex: "half"` under the WHATWG fetch spec.
+ */
+function streamedPut(
+  headers: Record<string, string>,
+  body: ReadableStream<Uint8Array> | null,
+): RequestInit & { duplex: "half" } {
+  return { method: "PUT", headers, body: body ?? "", duplex: "half" };
+}
+
+/**
+ * Copy ONE resource: GET it through {@link scopedFetch}, stream the body
+ * straight into a PUT at `to` with the source's original Content-Type, then
+ * VERIFY with a {@link statResource} of the destination: it must exist and, for
+ * a non-RDF body, any unencoded Content-Length must match the bytes written. An
+ * RDF body's length is not compared — a server that stores triples serialises
+ * them afresh on the way out. Throws on any failure, including a failed
+ * verification.
+ */
+async function copyOne(
+  config: SolidMcpConfig,
+  from: string,
+  to: string,
+  overwrite: boolean,
+): Promise<TransferredResource> {
+  const src = await scopedFetch(config)(from, { method: "GET" });
+  if (!src.ok) {
+    throw new Error(
+      `failed to copy ${from}: reading it returned HTTP ${src.status} ${src.statusText}`,
+    );
+  }
+  const contentType = src.headers.get("content-type") ?? undefined;
+  const counter = countingStream();
+  const headers: Record<string, string> = {};
+  if (contentType !== undefined) headers["content-type"] = contentType;
+  if (!overwrite) headers["if-none-match"] = "*";
+  const init = streamedPut(headers, src.body ? src.body.pipeThrough(counter.stream) : null);
+  const put = () => sendMutation(config, requireWriteTarget(config, to, "put"), init, "copy");
+  if (overwrite) await journaled(config, to, "update", put);
+  else await put();
+  let landed: StatResult;
+  try {
+    landed = await statResource(config, to);
+  } catch (err) {
+    throw new Error(
+      `copy of ${from} to ${to} could not be verified (wrote ${counter.bytes()} bytes, ` +
+        `${err instanceof Error ? err.message : String(err)}).`,
+    );
+  }
+  const rdf = isRdfLike(bareMediaType(src.headers.get("content-type")));
+  if (!rdf && landed.size !== undefined && landed.size !== counter.bytes()) {
+    throw new Error(
+      `copy of ${from} to ${to} could not be verified (wrote ${counter.bytes()} bytes, ` +
+        `the destination has ${landed.size}).`,
+    );
+  }
+  const copied: TransferredResource = { from, to, bytes: counter.bytes() };
+  if (contentType !== undefined) copied.contentType = contentType;
+  return copied;
+}
+
+/**
+ * "Copy" an EMPTY source container: PUT an empty Turtle body at the destination
+ * container URL. Its listing is deliberately not copied — a container's
+ * `ldp:contains` triples are server-managed, and a server refuses them in a PUT.
+ */
+async function createEmptyContainer(
+  config: SolidMcpConfig,
+  from: string,
+  to: string,
+  overwrite: boolean,
+): Promise<TransferredResource> {
+  const headers: Record<string, string> = { "content-type": "text/turtle" };
+  if (!overwrite) headers["if-none-match"] = "*";
+  await sendMutation(
+    config,
+    requireWriteTarget(config, to, "put"),
+    { method: "PUT", headers, body: "" },
+    "copy",
+  );
+  return { from, to, contentType: "text/turtle", bytes: 0 };
+}
+
+/**
+ * Copy the resource or container subtree at `from` to `to` (both pod-scoped),
+ * byte-for-byte — binary bodies included — with each resource's original
+ * Content-Type. A container is copied with its whole subtree (`to` must then be
+ * a container URL too, and not inside `from`). By default nothing existing at
+ * the destination is overwritten (see {@link TransferOptions}). GUARDED like
+ * {@link writeResource} on every destination; sources are read through the
+ * pod-scoped fetch. Stops at the first failure.
+ */
+export async function copyResource(
+  config: SolidMcpConfig,
+  from: string,
+  to: string,
+  options: TransferOptions = {},
+): Promise<TransferResult> {
+  const plan = await planTransfer(config, from, to, options.plan);
+  if (options.dryRun) {
+    return { copied: plannedCopies(plan), deleted: [], dryRun: true };
+  }
+  return { copied: await runTransfer(config, plan, options), deleted: [], dryRun: false };
+}
+
+/** One pair of a transfer plan; `leaf` pairs are the ones actually written. */
+interface TransferStep {
+  from: string;
+  to: string;
+  leaf: boolean;
+}
+
+/**
+ * Validate a copy of `from` to `to` and collect its plan ({@link transferPlan}),
+ * permission-checking every destination before the first byte is copied. With
+ * an `approved` plan, the fresh one must copy exactly those sources.
+ */
+async function planTransfer(
+  config: SolidMcpConfig,
+  from: string,
+  to: string,
+  approved?: string[],
+): Promise<TransferStep[]> {
+  const source = requirePodScopedUrl(config, from);
+  const destination = requireWriteTarget(config, to, "put");
+  if (isContainerUrl(source) !== isContainerUrl(destination)) {
+    throw new Error(
+      `cannot copy ${source} to ${destination}: a container must be copied to a container URL ` +
+        "(ending in '/') and a resource to a resource URL.",
+    );
+  }
+  if (destination === source || (isContainerUrl(source) && destination.startsWith(source))) {
+    throw new Error(`cannot copy ${source} into itself (${destination}).`);
+  }
+  const plan: TransferStep[] = [];
+  await transferPlan(config, source, destination, plan);
+  for (const step of plan) {
+    if (step.leaf) requireWriteTarget(config, step.to, "put");
+  }
+  const sources = plan.filter((step) => step.leaf).map((step) => step.from);
+  if (approved !== undefined && !sameUrls(sources, approved)) {
+    throw new Error(
+      `refusing to copy ${source}: what it would copy changed since the plan was approved ` +
+        `(now ${sources.length} resource(s), approved ${approved.length}) — nothing was copied.`,
+    );
+  }
+  return plan;
+}
+
+/** The copies a transfer plan would make: its leaves, in order. */
+function plannedCopies(plan: TransferStep[]): TransferredResource[] {
+  return plan.filter((step) => step.leaf).map(({ from, to }) => ({ from, to }));
+}
+
+/** Copy every leaf of a transfer plan, in order, stopping at the first failure. */
+async function runTransfer(
+  config: SolidMcpConfig,
+  plan: TransferStep[],
+  options: TransferOptions,
+): Promise<TransferredResource[]> {
+  const overwrite = options.overwrite === true;
+  const copied: TransferredResource[] = [];
+  for (const step of plan) {
+    if (!step.leaf) continue;
+    copied.push(
+      isContainerUrl(step.from)
+        ? await createEmptyContainer(config, step.from, step.to, overwrite)
+        : await copyOne(config, step.from, step.to, overwrite),
+    );
+  }
+  return copied;
+}
+
+/**
+ * The sources of a transfer plan (parents first) reordered children before
+ * their parents — the order they can be deleted in — keeping sibling order.
+ */
+function bottomUp(plan: TransferStep[]): string[] {
+  const order: string[] = [];
+  const open: string[] = [];
+  for (const { from } of plan) {
+    // Close every open container `from` is not inside: its subtree is complete.
+    let depth = open.length;
+    while (depth > 0 && !from.startsWith(open[depth - 1] ?? "")) depth--;
+    order.push(...open.splice(depth).reverse());
+    if (isContainerUrl(from)) open.push(from);
+    else order.push(from);
+  }
+  order.push(...open.reverse());
+  return order;
+}
+
+/**
+ * Move the resource or container subtree at `from` to `to`: a
+ * {@link copyResource} followed — only once EVERY copy has been written and
+ * verified — by deleting exactly the sources that were copied, children before
+ * their parents. The source is not listed again, so a child created there after
+ * the copy is never deleted uncopied (its container's delete then fails
+ * instead). If any copy fails, the source is left untouched. The source must
+ * itself be a legal write target (so the pod root cannot be moved), and every
+ * planned source deletable under the writable scopes — checked before any copy.
+ */
+export async function moveResource(
+  config: SolidMcpConfig,
+  from: string,
+  to: string,
+  options: TransferOptions = {},
+): Promise<TransferResult> {
+  requireWriteTarget(config, from, "delete");
+  const plan = await planTransfer(config, from, to, options.plan);
+  const sources = bottomUp(plan);
+  for (const source of sources) requireWriteTarget(config, source, "delete");
+  if (options.dryRun) {
+    return { copied: plannedCopies(plan), deleted: sources, dryRun: true };
+  }
+  const copied = await runTransfer(config, plan, options);
+  return { copied, deleted: await deletePlanned(config, sources), dryRun: false };
+}
+
+/**
+ * One step of a {@link batchWrite}: a PUT, PATCH, create (LDP POST) or
+ * (non-recursive) DELETE, with the same options as the single-resource call.
+ */
+export type BatchOperation =
+  | ({ op: "put"; url: string; content: string; contentType: string } & WriteOptions)
+  | ({ op: "patch"; url: string } & PatchOptions)
+  | ({ op: "create"; container: string; body: string; contentType: string } & CreateOptions)
+  | { op: "delete"; url: string };
+
+/** What happened to one step of a {@link batchWrite}. */
+export type BatchStepStatus =
+  /** The step ran and, the batch having succeeded, stands. */
+  | "succeeded"
+  /** The step ran, then a later failure undid it. */
+  | "rolled-back"
+  /** The step ran, a later step failed, and undoing it failed too (see `error`). */
+  | "rollback-failed"
+  /** The step itself failed (see `error`). */
+  | "failed"
+  /** The step never ran because an earlier one failed. */
+  | "skipped";
+
+/** The report for one step of a {@link batchWrite}. */
+export interface BatchStepResult {
+  /** The step's position in the batch (0-based). */
+  index: number;
+  /** The step's operation. */
+  op: BatchOperation["op"];
+  /** The resource the step targeted (for a create: the minted URL, once known). */
+  url: string;
+  /** What happened to the step. */
+  status: BatchStepStatus;
+  /** The ETag the step's write returned, if any. */
+  etag?: string;
+  /** Why the step (or its rollback) failed. */
+  error?: string;
+}
+
+/** The outcome of {@link batchWrite}. */
+export interface BatchResult {
+  /** Whether every step succeeded (if not, the completed steps were rolled back). */
+  ok: boolean;
+  /** One report per step, in batch order. */
+  steps: BatchStepResult[];
+}
+
+/** The state of one target before a batch touched it. */
+interface Snapshot {
+  exists: boolean;
+  body?: Uint8Array<ArrayBuffer>;
+  contentType?: string;
+  etag?: string;
+}
+
+/**
+ * Read the prior state of `target` (body + Content-Type + ETag) for a rollback.
+ * The body is capped at {@link SolidMcpConfig.maxUploadBytes} — the most a
+ * rollback could PUT back — and a larger one is refused rather than buffered.
+ */
+async function snapshotOf(config: SolidMcpConfig, target: string): Promise<Snapshot> {
+  const res = await scopedFetch(config)(target, { method: "GET" });
+  if (res.status === 404) return { exists: false };
+  if (!res.ok) {
+    throw new Error(
+      `cannot snapshot ${target}: reading it returned HTTP ${res.status} ${res.statusText}`,
+    );
+  }
+  const max = config.maxUploadBytes ?? DEFAULT_MAX_UPLOAD_BYTES;
+  const body = await readBounded(res, 0, max + 1);
+  if (body.byteLength > max) {
+    throw new Error(
+      `cannot snapshot ${target}: it is over the ${max}-byte upload limit (maxUploadBytes), ` +
+        "so a rollback could not restore it — change it outside a batch.",
+    );
+  }
+  const snapshot: Snapshot = { exists: true, body };
+  const contentType = res.headers.get("content-type");
+  if (contentType !== null) snapshot.contentType = contentType;
+  const etag = res.headers.get("etag");
+  if (etag !== null) snapshot.etag = etag;
+  return snapshot;
+}
+
+/**
+ * Check one batch step against every guard it will meet (writes enabled, write
+ * target, writable scopes), returning the URL it targets (the container, for a
+ * create). A container target is refused for put / patch / delete: a batch only
+ * snapshots — and so can only restore — plain resources.
+ */
+function batchTarget(config: SolidMcpConfig, step: BatchOperation): string {
+  if (step.op === "create") {
+    requireWritesEnabled(config);
+    return requireWritableScope(config, step.container, "create");
+  }
+  const target = requireWriteTarget(config, step.url, step.op);
+  if (isContainerUrl(target)) {
+    throw new Error(
+      `cannot ${step.op} ${target} in a batch: containers are not supported (a batch can only ` +
+        "snapshot and restore plain resources).",
+    );
+  }
+  return target;
+}
+
+/** Run one batch step through the matching single-resource operation. */
+async function runBatchStep(
+  config: SolidMcpConfig,
+  step: BatchOperation,
+): Promise<{ url: string; etag?: string }> {
+  switch (step.op) {
+    case "put": {
+      const { op: _op, url, content, contentType, ...options } = step;
+      return writeResource(config, url, content, contentType, options);
+    }
+    case "patch": {
+      const { op: _op, url, ...patch } = step;
+      return patchResource(config, url, patch);
+    }
+    case "create": {
+      const { op: _op, container, body, contentType, ...options } = step;
+      return createResource(config, container, body, contentType, options);
+    }
+    case "delete": {
+      const { urls } = await deleteResource(config, step.url);
+      return { url: urls[0] ?? step.url };
+    }
+  }
+}
+
+/** How a batch left a resource it touched: deleted, or written with an ETag. */
+interface Touched {
+  deleted: boolean;
+  etag?: string;
+  /** The resource's Last-Modified, when the server gave it no ETag. */
+  lastModified?: string;
+}
+
+/**
+ * How a batch step left `url`: deleted, or carrying the ETag the step returned —
+ * else, by a follow-up HEAD, its current ETag or Last-Modified — for a rollback
+ * to send as its precondition.
+ */
+async function touchedBy(
+  config: SolidMcpConfig,
+  op: BatchOperation["op"],
+  result: { url: string; etag?: string },
+): Promise<Touched> {
+  if (op === "delete") return { deleted: true };
+  if (result.etag !== undefined) return { deleted: false, etag: result.etag };
+  const now: Touched = { deleted: false };
+  try {
+    const head = await scopedFetch(config)(result.url, { method: "HEAD" });
+    const etag = head.headers.get("etag");
+    const lastModified = head.headers.get("last-modified");
+    if (etag !== null) now.etag = etag;
+    else if (lastModified !== null) now.lastModified = lastModified;
+  } catch {
+    // best-effort: with no validator, a rollback refuses to write blind.
+  }
+  return now;
+}
+
+/**
+ * Put `target` back the way `snapshot` found it: re-PUT its old body and
+ * Content-Type, or DELETE it if it did not exist. The last ETag the batch saw
+ * for it is sent as `If-Match` (else its Last-Modified as
+ * `If-Unmodified-Since`), so a restore never clobbers a change someone else
+ * made in the meantime; a resource the batch deleted is restored create-only.
+ * With no precondition to send, it throws rather than write blind. The
+ * restored resource gets a new ETag from the server.
+ */
+async function restoreSnapshot(
+  config: SolidMcpConfig,
+  target: string,
+  snapshot: Snapshot,
+  now: Touched,
+): Promise<void> {
+  if (!snapshot.exists && now.deleted) return;
+  const headers: Record<string, string> = {};
+  if (now.deleted) headers["if-none-match"] = "*";
+  else if (now.etag !== undefined) headers["if-match"] = now.etag;
+  else if (now.lastModified !== undefined) headers["if-unmodified-since"] = now.lastModified;
+  else {
+    throw new Error(
+      `not restoring ${target}: the server gave no ETag or Last-Modified for it, so a ` +
+        "change made since the batch could not be detected.",
+    );
+  }
+  if (!snapshot.exists) {
+    await sendMutation(config, target, { method: "DELETE", headers }, "restore");
+    return;
+  }
+  if (snapshot.contentType !== undefined) headers["content-type"] = snapshot.contentType;
+  await sendMutation(
+    config,
+    target,
+    { method: "PUT", headers, body: snapshot.body ?? "" },
+    "restore",
+  );
+}
+
+/**
+ * Journal a batch before its first step: one entry per existing target, its
+ * copy taken from the target's snapshot and its kind from the batch's last step
+ * on it. Nothing when journaling is off. If any entry cannot be written, those
+ * already written are removed and the batch is refused.
+ */
+async function journalBatch(
+  config: SolidMcpConfig,
+  snapshots: Map<string, Snapshot>,
+  kinds: Map<string, JournalEntry["kind"]>,
+): Promise<Map<string, PendingJournal>> {
+  const journal = new Map<string, PendingJournal>();
+  const trash = trashContainerOf(config);
+  if (trash === undefined) return journal;
+  try {
+    for (const [target, snapshot] of snapshots) {
+      if (!snapshot.exists || target.startsWith(trash)) continue;
+      const kind = kinds.get(target) ?? "update";
+      const body = snapshot.body ?? new Uint8Array(0);
+      journal.set(
+        target,
+        await writeJournalEntry(config, trash, target, kind, snapshot.contentType, body),
+      );
+    }
+  } catch (e) {
+    for (const pending of journal.values()) await dropJournal(config, pending);
+    throw new Error(
+      `could not journal the batch into ${trash} — refusing to run it: ` +
+        `${e instanceof Error ? e.message : String(e)}`,
+    );
+  }
+  return journal;
+}
+
+/**
+ * Settle a batch's journal entry for a change that stands, as the batch left
+ * the resource: an `as:Delete`, or an `as:Update` stamped ({@link stampJournal})
+ * with its validators. The record is rewritten only when its kind was wrong —
+ * when the batch stopped before its last step on the resource.
+ */
+async function settleBatchJournal(
+  config: SolidMcpConfig,
+  pending: PendingJournal,
+  now: Touched,
+): Promise<void> {
+  const { namedNode, quad } = DataFactory;
+  const type = namedNode(`${AS}${now.deleted ? "Delete" : "Update"}`);
+  const at = pending.record.findIndex((q) => q.predicate.value === RDF_TYPE);
+  if (at !== -1 && !pending.record[at]?.object.equals(type)) {
+    pending.record[at] = quad(namedNode(`${pending.entry}#it`), namedNode(RDF_TYPE), type);
+    try {
+      await writeJournalRecord(config, pending.entry, pending.record);
+    } catch {
+      // best-effort: the changes have already been made.
+    }
+  }
+  if (!now.deleted) await stampJournal(config, pending, now);
+}
+
+/**
+ * Run an ordered batch of writes with BEST-EFFORT rollback. Every step is
+ * checked against the guards up front, and the prior state (body, Content-Type,
+ * ETag) of every put / patch / delete target is snapshotted — all before the
+ * first write, so a bad step, or a target unreadable or over
+ * {@link SolidMcpConfig.maxUploadBytes}, fails the batch with nothing changed. The steps then run in order; at the first failure the rest are
+ * skipped and every resource the batch touched is restored from its snapshot
+ * (a created resource is deleted), newest first. The result reports each
+ * step's fate. Best-effort: a restore that fails (or finds the resource changed
+ * by someone else) is reported as `rollback-failed`, not retried. With a trash
+ * container, the batch is journaled once ({@link journalBatch}): a committed
+ * batch leaves one entry per existing target, and a rolled-back one leaves
+ * entries only for the changes its rollback could not undo.
+ */
+export async function batchWrite(
+  config: SolidMcpConfig,
+  operations: BatchOperation[],
+): Promise<BatchResult> {
+  if (operations.length === 0) {
+    throw new Error("nothing to do: the batch has no operations.");
+  }
+  const targets = operations.map((step) => batchTarget(config, step));
+  const snapshots = new Map<string, Snapshot>();
+  // How the whole batch will have changed each target: by its last step.
+  const kinds = new Map<string, JournalEntry["kind"]>();
+  operations.forEach((step, i) => {
+    if (step.op === "create") return;
+    snapshots.set(targets[i] as string, { exists: false });
+    kinds.set(targets[i] as string, step.op === "delete" ? "delete" : "update");
+  });
+  for (const target of snapshots.keys()) {
+    snapshots.set(target, await snapshotOf(config, target));
+  }
+  // The batch journals for itself, from the snapshots: the steps run unjournaled,
+  // and an entry is kept only for a change that stands once the batch settles.
+  const { trashContainer: _trashContainer, ...unjournaled } = config;
+  const journal = await journalBatch(config, snapshots, kinds);
+
+  const steps: BatchStepResult[] = operations.map((step, index) => ({
+    index,
+    op: step.op,
+    url: targets[index] as string,
+    status: "skipped",
+  }));
+  // How the batch last left each URL it touched, in first-touch order.
+  const touched = new Map<string, Touched>();
+  let failed = false;
+  for (const [i, step] of operations.entries()) {
+    const report = steps[i] as BatchStepResult;
+    try {
+      const result = await runBatchStep(unjournaled, step);
+      report.url = result.url;
+      report.status = "succeeded";
+      if (result.etag !== undefined) report.etag = result.etag;
+      touched.set(result.url, await touchedBy(config, step.op, result));
+    } catch (e) {
+      report.status = "failed";
+      report.error = e instanceof Error ? e.message : String(e);
+      failed = true;
+      break;
+    }
+  }
+  if (!failed) {
+    for (const [target, pending] of journal) {
+      await settleBatchJournal(config, pending, touched.get(target) ?? { deleted: false });
+    }
+    return { ok: true, steps };
+  }
+
+  const rollbackErrors = new Map<string, string>();
+  for (const [target, now] of [...touched].reverse()) {
+    try {
+      await restoreSnapshot(config, target, snapshots.get(target) ?? { exists: false }, now);
+    } catch (e) {
+      rollbackErrors.set(target, e instanceof Error ? e.message : String(e));
+    }
+  }
+  for (const [target, pending] of journal) {
+    const now = touched.get(target);
+    if (now !== undefined && rollbackErrors.has(target)) {
+      await settleBatchJournal(config, pending, now);
+    } else {
+      await dropJournal(config, pending);
+    }
+  }
+  for (const report of steps) {
+    if (report.status !== "succeeded") continue;
+    const error = rollbackErrors.get(report.url);
+    if (error === undefined) {
+      report.status = "rolled-back";
+    } else {
+      report.status = "rollback-failed";
+      report.error = error;
+    }
+  }
+  return { ok: false, steps };
+}
+
+/** The ActivityStreams 2.0 namespace — the journal records each change as an AS2 activity. */
+const AS = "https://www.w3.org/ns/activitystreams#";
+const RDF_TYPE = "http://www.w3.org/1999/02/22-rdf-syntax-ns#type";
+const XSD_DATE_TIME = "http://www.w3.org/2001/XMLSchema#dateTime";
+/** W3C HTTP-in-RDF header terms — an update's record keeps the validators its change produced. */
+const HTTP_HEADERS = "http://www.w3.org/2011/http-headers#";
+
+/** The suffix of a journal entry's metadata resource (next to its saved copy). */
+const JOURNAL_META_SUFFIX = ".meta.ttl";
+
+/** One journaled change: a resource's previous representation, saved in the trash. */
+export interface JournalEntry {
+  /** The entry's metadata resource — the handle {@link undoChanges} takes. */
+  entry: string;
+  /** The resource that was changed. */
+  url: string;
+  /** Whether the change overwrote (`update`) or deleted (`delete`) the resource. */
+  kind: "update" | "delete";
+  /** When the change was made (ISO 8601). */
+  timestamp: string;
+  /** The saved previous representation, inside the trash container. */
+  copy: string;
+  /** The previous representation's Content-Type, if it had one. */
+  contentType?: string;
+  /** For an update: the ETag the change left on the resource, which an undo must still find. */
+  etag?: string;
+  /** For an update without an ETag: the Last-Modified the change left (an HTTP-date). */
+  lastModified?: string;
+}
+
+/** Options for {@link undoChanges}. */
+export interface UndoOptions {
+  /** Undo the N most recent changes, newest first. Default 1. */
+  count?: number;
+  /** Undo exactly this journal entry (its metadata URL) instead. */
+  entry?: string;
+  /**
+   * Undo exactly these journal entries, in this order — e.g. the `restored`
+   * entries of a dry run a human approved — instead of the newest `count`.
+   */
+  entries?: string[];
+  /** Report what would be restored without restoring anything. */
+  dryRun?: boolean;
+}
+
+/** The outcome of {@link undoChanges}. */
+export interface UndoResult {
+  /** The entries restored (or, on a dry run, that would be), in the order undone. */
+  restored: JournalEntry[];
+  /** Whether this was a dry run (nothing was restored). */
+  dryRun: boolean;
+}
+
+/**
+ * The configured trash container as a canonical in-pod container URL, or
+ * `undefined` when journaling is off. Throws on a trash container outside the
+ * pod, at its root, or not ending in `/`.
+ */
+export function trashContainerOf(config: SolidMcpConfig): string | undefined {
+  if (config.trashContainer === undefined) return undefined;
+  const trash = requirePodScopedWriteUrl(config, config.trashContainer);
+  if (!isContainerUrl(trash)) {
+    throw new Error(`trashContainer ${trash} is not a container URL (must end in '/').`);
+  }
+  return trash;
+}
+
+/** A per-process sequence that orders journal entries minted in the same millisecond. */
+let journalSequence = 0;
+
+/** A fresh journal-entry id that sorts by time: `20261019T033500123Z-000042`. */
+function journalId(now: Date): string {
+  const stamp = now.toISOString().replace(/[-:.]/g, "");
+  journalSequence = (journalSequence + 1) % 1_000_000;
+  return `${stamp}-${String(journalSequence).padStart(6, "0")}`;
+}
+
+/** A journal entry written ahead of its change, until {@link journaled} settles it. */
+interface PendingJournal {
+  entry: string;
+  copy: string;
+  record: Quad[];
+}
+
+/**
+ * JOURNAL a change before making it: copy the current representation of
+ * `target` into the trash container ({@link writeJournalEntry}). A no-op when
+ * journaling is off, for containers (their listings are server-managed), for
+ * the trash's own resources, and when `target` does not exist yet. Fails the
+ * change (throws) if the journal cannot be written, so nothing is overwritten
+ * or deleted without its copy. The trash is server-internal: writes to it are
+ * pod-scoped but not subject to the writable scopes.
+ */
+async function journalChange(
+  config: SolidMcpConfig,
+  target: string,
+  kind: JournalEntry["kind"],
+): Promise<PendingJournal | undefined> {
+  const trash = trashContainerOf(config);
+  if (trash === undefined || isContainerUrl(target) || target.startsWith(trash)) return undefined;
+  try {
+    const previous = await scopedFetch(config)(target, { method: "GET" });
+    if (previous.status === 404) {
+      await previous.body?.cancel();
+      return undefined;
+    }
+    if (!previous.ok) {
+      await previous.body?.cancel();
+      throw new Error(`reading it returned HTTP ${previous.status} ${previous.statusText}`);
+    }
+    // The previous representation streams straight into its copy, whatever its size.
+    const contentType = previous.headers.get("content-type") ?? undefined;
+    return await writeJournalEntry(config, trash, target, kind, contentType, previous.body);
+  } catch (e) {
+    throw new Error(
+      `could not journal ${target} into ${trash} — refusing to change it: ` +
+        `${e instanceof Error ? e.message : String(e)}`,
+    );
+  }
+}
+
+/**
+ * Write one journal entry for a change of `target`: `body` (the previous
+ * representation, streamed or already in hand) as a copy in `trash`, next to
+ * an AS2 record (`as:Update` or `as:Delete`, with `as:object` the original URL,
+ * `as:published` the time, `as:url` the copy and `as:mediaType` its
+ * Content-Type). Both are written create-only.
+ */
+async function writeJournalEntry(
+  config: SolidMcpConfig,
+  trash: string,
+  target: string,
+  kind: JournalEntry["kind"],
+  contentType: string | undefined,
+  body: ReadableStream<Uint8Array> | Uint8Array<ArrayBuffer> | null,
+): Promise<PendingJournal> {
+  const now = new Date();
+  const copy = `${trash}${journalId(now)}`;
+  const entry = `${copy}${JOURNAL_META_SUFFIX}`;
+  const copyHeaders: Record<string, string> = { "if-none-match": "*" };
+  if (contentType !== undefined) copyHeaders["content-type"] = contentType;
+  const init =
+    body instanceof Uint8Array
+      ? { method: "PUT", headers: copyHeaders, body }
+      : streamedPut(copyHeaders, body);
+  await sendMutation(config, copy, init, "write");
+  const { namedNode, literal, quad } = DataFactory;
+  const it = namedNode(`${entry}#it`);
+  const record = [
+    quad(it, namedNode(RDF_TYPE), namedNode(`${AS}${kind === "delete" ? "Delete" : "Update"}`)),
+    quad(it, namedNode(`${AS}object`), namedNode(target)),
+    quad(it, namedNode(`${AS}published`), literal(now.toISOString(), namedNode(XSD_DATE_TIME))),
+    quad(it, namedNode(`${AS}url`), namedNode(copy)),
+  ];
+  if (contentType !== undefined) {
+    record.push(quad(it, namedNode(`${AS}mediaType`), literal(contentType)));
+  }
+  await writeJournalRecord(config, entry, record, { "if-none-match": "*" });
+  return { entry, copy, record };
+}
+
+/**
+ * Stamp an update's journal record with the ETag (else Last-Modified) its
+ * change left, which {@link undoChanges} restores against. Best-effort, as the
+ * change itself has already succeeded: an unstamped update is kept, and
+ * undoChanges refuses to restore it blind.
+ */
+async function stampJournal(
+  config: SolidMcpConfig,
+  pending: PendingJournal,
+  validators: { etag?: string; lastModified?: string },
+): Promise<void> {
+  const { namedNode, literal, quad } = DataFactory;
+  const it = namedNode(`${pending.entry}#it`);
+  if (validators.etag !== undefined) {
+    pending.record.push(quad(it, namedNode(`${HTTP_HEADERS}etag`), literal(validators.etag)));
+  } else if (validators.lastModified !== undefined) {
+    pending.record.push(
+      quad(it, namedNode(`${HTTP_HEADERS}last-modified`), literal(validators.lastModified)),
+    );
+  } else {
+    return;
+  }
+  try {
+    await writeJournalRecord(config, pending.entry, pending.record);
+  } catch {
+    // best-effort: see above.
+  }
+}
+
+/** Remove a journal entry and its copy again, best-effort, for a change that was not made. */
+async function dropJournal(config: SolidMcpConfig, pending: PendingJournal): Promise<void> {
+  for (const url of [pending.entry, pending.copy]) {
+    try {
+      await sendMutation(config, url, { method: "DELETE" }, "delete");
+    } catch {
+      // best-effort: the caller's own error is the one to report.
+    }
+  }
+}
+
+/** PUT a journal record (serialised as Turtle) at its metadata resource. */
+async function writeJournalRecord(
+  config: SolidMcpConfig,
+  entry: string,
+  record: Quad[],
+  headers: Record<string, string> = {},
+): Promise<void> {
+  await sendMutation(
+    config,
+    entry,
+    {
+      method: "PUT",
+      headers: { "content-type": "text/turtle", ...headers },
+      body: await serializeJournalRecord(record),
+    },
+    "write",
+  );
+}
+
+/**
+ * Make a change under the journal: journal `target` ({@link journalChange}),
+ * run `mutate`, then settle the entry. A failed change removes its copy and
+ * record again, so the journal only ever holds changes that were made. An
+ * update's record is then stamped ({@link stampJournal}).
+ */
+async function journaled(
+  config: SolidMcpConfig,
+  target: string,
+  kind: JournalEntry["kind"],
+  mutate: () => Promise<Response>,
+): Promise<Response> {
+  const pending = await journalChange(config, target, kind);
+  if (pending === undefined) return mutate();
+  let res: Response;
+  try {
+    res = await mutate();
+  } catch (e) {
+    await dropJournal(config, pending);
+    throw e;
+  }
+  if (kind === "update") {
+    let validators = res.headers;
+    if (!validators.has("etag") && !validators.has("last-modified")) {
+      try {
+        validators = (await scopedFetch(config)(target, { method: "HEAD" })).headers;
+      } catch {
+        // best-effort: the update is then journaled unstamped.
+      }
+    }
+    const etag = validators.get("etag");
+    const lastModified = validators.get("last-modified");
+    await stampJournal(config, pending, {
+      ...(etag !== null ? { etag } : {}),
+      ...(lastModified !== null ? { lastModified } : {}),
+    });
+  }
+  return res;
+}
+
+/** Serialise a journal record to Turtle via n3.Writer, with the `as:` prefix. */
+function serializeJournalRecord(quads: Quad[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const writer = new Writer({ format: "text/turtle", prefixes: { as: AS } });
+    writer.addQuads(quads);
+    writer.end((err, result) => {
+      if (err) reject(err);
+      else resolve(result);
+    });
+  });
+}
+
+/**
+ * Read one journal entry's record (via {@link readRdf}). The record is pod data
+ * and so UNTRUSTED: it must describe a change of an in-pod resource whose copy
+ * lies inside the trash container, or it is refused.
+ */
+async function readJournalEntry(
+  config: SolidMcpConfig,
+  trash: string,
+  entry: string,
+): Promise<JournalEntry> {
+  if (!entry.startsWith(trash) || !entry.endsWith(JOURNAL_META_SUFFIX)) {
+    throw new Error(`${entry} is not a journal entry in ${trash}.`);
+  }
+  const { dataset } = await readRdf(config, entry);
+  const it = DataFactory.namedNode(`${entry}#it`);
+  const value = (predicate: string) =>
+    dataset.getObjects(it, DataFactory.namedNode(`${AS}${predicate}`), null)[0]?.value;
+  const types = dataset.getObjects(it, DataFactory.namedNode(RDF_TYPE), null).map((t) => t.value);
+  const url = podScopedUrlOrUndefined(config, value("object") ?? "");
+  const copy = value("url");
+  const timestamp = value("published");
+  if (url === undefined || copy === undefined || !copy.startsWith(trash) || !timestamp) {
+    throw new Error(`journal entry ${entry} is malformed or points outside the pod.`);
+  }
+  const result: JournalEntry = {
+    entry,
+    url,
+    kind: types.includes(`${AS}Delete`) ? "delete" : "update",
+    timestamp,
+    copy,
+  };
+  const contentType = value("mediaType");
+  if (contentType !== undefined) result.contentType = contentType;
+  const validator = (header: string) =>
+    dataset.getObjects(it, DataFactory.namedNode(`${HTTP_HEADERS}${header}`), null)[0]?.value;
+  const etag = validator("etag");
+  if (etag !== undefined) result.etag = etag;
+  const lastModified = validator("last-modified");
+  if (lastModified !== undefined) result.lastModified = lastModified;
+  return result;
+}
+
+/**
+ * List the newest `limit` journal entries in the trash container, newest
+ * first (entry ids sort by time). An absent trash container is an empty journal.
+ */
+export async function listJournal(config: SolidMcpConfig, limit = 20): Promise<JournalEntry[]> {
+  const trash = trashContainerOf(config);
+  if (trash === undefined) {
+    throw new Error("no journal: the server has no trashContainer configured.");
+  }
+  const head = await scopedFetch(config)(trash, { method: "HEAD" });
+  if (head.status === 404) return [];
+  const entries = (await listContainer(config, trash))
+    .map((c) => c.url)
+    .filter((u) => u.startsWith(trash) && u.endsWith(JOURNAL_META_SUFFIX))
+    .sort()
+    .reverse()
+    .slice(0, limit);
+  const journal: JournalEntry[] = [];
+  for (const entry of entries) journal.push(await readJournalEntry(config, trash, entry));
+  return journal;
+}
+
+/**
+ * UNDO journaled changes: restore the previous representation of the `count`
+ * most recent changes (newest first), or of the named `entry` / `entries`. Each
+ * restore PUTs the saved bytes back with their original Content-Type,
+ * conditionally so a later change is never clobbered: create-only
+ * (`If-None-Match: *`) for an undone delete, and `If-Match` the ETag the change
+ * left (else `If-Unmodified-Since` its Last-Modified) for an undone update,
+ * refused when neither was recorded; an older entry for a URL already restored in
+ * this call expects the validator that restore returned instead. It then removes
+ * the consumed entry and its copy. The restore itself is not journaled. GUARDED
+ * like {@link writeResource} on every restored URL, all checked before the first
+ * restore; stops at the first failure.
+ */
+export async function undoChanges(
+  config: SolidMcpConfig,
+  options: UndoOptions = {},
+): Promise<UndoResult> {
+  requireWritesEnabled(config);
+  const trash = trashContainerOf(config);
+  if (trash === undefined) {
+    throw new Error("nothing to undo: the server has no trashContainer configured.");
+  }
+  const count = options.count ?? 1;
+  if (!Number.isSafeInteger(count) || count < 1) {
+    throw new Error(`count must be a positive integer, got ${count}.`);
+  }
+  const named = options.entries ?? (options.entry !== undefined ? [options.entry] : undefined);
+  const entries: JournalEntry[] = [];
+  if (named === undefined) entries.push(...(await listJournal(config, count)));
+  for (const entry of named ?? []) {
+    entries.push(await readJournalEntry(config, trash, requirePodScopedUrl(config, entry)));
+  }
+  if (entries.length === 0) {
+    throw new Error(`nothing to undo: the journal in ${trash} is empty.`);
+  }
+  for (const e of entries) {
+    requireWriteTarget(config, e.url, "put");
+    if (e.kind === "update" && e.etag === undefined && e.lastModified === undefined) {
+      throw new Error(
+        `cannot undo ${e.entry}: it records no ETag or Last-Modified for ${e.url}, so a ` +
+          `later change could not be detected — restore it by hand from ${e.copy}.`,
+      );
+    }
+  }
+  if (options.dryRun) {
+    return { restored: entries, dryRun: true };
+  }
+  const restored: JournalEntry[] = [];
+  // A restore gives the resource a new ETag, so an older entry for the same URL
+  // must expect that one rather than the one its own change left.
+  const current = new Map<string, Touched>();
+  for (const e of entries) {
+    try {
+      const saved = await scopedFetch(config)(e.copy, { method: "GET" });
+      if (!saved.ok) {
+        throw new Error(
+          `cannot undo ${e.entry}: its saved copy ${e.copy} returned HTTP ${saved.status} ${saved.statusText}`,
+        );
+      }
+      const headers: Record<string, string> = {};
+      if (e.contentType !== undefined) headers["content-type"] = e.contentType;
+      const now = current.get(e.url);
+      if (now !== undefined) {
+        if (now.etag !== undefined) headers["if-match"] = now.etag;
+        else if (now.lastModified !== undefined) headers["if-unmodified-since"] = now.lastModified;
+        else {
+          throw new Error(
+            `cannot undo ${e.entry}: the server gave no ETag or Last-Modified for ${e.url} ` +
+              "after restoring a newer change to it, so a later change could not be detected.",
+          );
+        }
+      } else if (e.kind === "delete") headers["if-none-match"] = "*";
+      else if (e.etag !== undefined) headers["if-match"] = e.etag;
+      else if (e.lastModified !== undefined) headers["if-unmodified-since"] = e.lastModified;
+      const res = await sendMutation(config, e.url, streamedPut(headers, saved.body), "restore");
+      const etag = res.headers.get("etag");
+      current.set(
+        e.url,
+        await touchedBy(config, "put", etag !== null ? { url: e.url, etag } : { url: e.url }),
+      );
+      await sendMutation(config, e.entry, { method: "DELETE" }, "delete");
+      await sendMutation(config, e.copy, { method: "DELETE" }, "delete");
+    } catch (err) {
+      throw new Error(
+        `${err instanceof Error ? err.message : String(err)} (stopped after undoing ` +
+          `${restored.length} of ${entries.length}).`,
+      );
+    }
+    restored.push(e);
+  }
+  return { restored, dryRun: false };
+}
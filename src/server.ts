@@ -6,28 +6,66 @@
  *  - **Resources**: pod URLs map 1:1 to MCP resource URIs (the resource uri IS the
  *    pod url). A `list` callback browses the pod root's children. The read callback
  *    returns a container listing as JSON, an RDF resource as Turtle, or any other
- *    resource as text / base64 bytes. Every read is pod-scope-guarded.
- *  - **Tools**: `solid_list`, `solid_read`, `solid_search`, `solid_write`. All are
- *    pod-scope-guarded and use the injected authenticated fetch. `solid_write`
- *    reflects the read-only default (returns `isError` when disabled, never throws
- *    out of the handler). Tool handlers catch errors → `{ isError: true, ... }`.
+ *    resource as text / base64 bytes; a `?format=` suffix picks the serialisation
+ *    instead, and `?view=summary` summarises RDF as Markdown. Every read is pod-scope-guarded.
+ *  - **Tools**: `solid_list`, `solid_tree`, `solid_read`, `solid_stat`, `solid_search`,
+ *    `solid_sparql`, `solid_reindex`, `solid_write`, `solid_patch`, `solid_patch_metadata`,
+ *    `solid_create`, `solid_delete`, `solid_copy`, `solid_move`, `solid_batch`, `solid_undo`.
+ *    All are pod-scope-guarded and use the injected authenticated fetch. The mutating
+ *    tools reflect the read-only default (return `isError` when disabled, never throw
+ *    out of the handler) and, under `confirmWrites`, ask the human to approve each
+ *    change via an MCP elicitation first. Tool handlers catch errors → `{ isError: true, ... }`.
  */
 
 import { isContainerUrl } from "@jeswr/guarded-fetch";
 import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { type ContentBlock, ListResourcesRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import {
   normalizePodRoot,
   requirePodScopedUrl,
+  requireWritableScope,
+  requireWritableUrl,
   type SolidMcpConfig,
+  validateWritableScopes,
   writesEnabled,
 } from "./auth.js";
 import {
+  type BatchOperation,
+  batchWrite,
+  copyResource,
+  createResource,
+  deleteResource,
+  describedByOf,
+  diffRdf,
+  extractText,
+  isDiffableContentType,
   listContainer,
+  listContainerPage,
+  moveResource,
+  nTriplesLines,
+  parseTurtle,
+  patchResource,
+  querySparql,
+  RDF_FORMAT_MEDIA_TYPES,
   RDF_MEDIA_TYPES,
+  type RdfFormat,
+  type ReadResult,
+  readMetadata,
   readRdf,
   readResource,
+  reindex,
+  type SummaryFormat,
   search,
+  serializeRdf,
+  statResource,
+  summarizeRdf,
+  type TransferResult,
+  type TreeNode,
+  trashContainerOf,
+  undoChanges,
+  WRITE_DISABLED_MESSAGE,
+  walkTree,
   writeResource,
 } from "./pod.js";
 
@@ -37,13 +75,13 @@ function errorText(e: unknown): string {
 
 /**
  * The MCP tool-result envelope, defined ONCE. Every `solid_*` tool returns text
- * content on success and `{ isError: true }` on failure (a tool NEVER throws out
- * of its handler — the read-only refusal and every caught error both surface as
- * an `isError` result). Wrapping this here keeps each handler as "do the work ->
- * `toolText(...)`" / "on error -> `toolError(...)`".
+ * content (one block per argument) on success and `{ isError: true }` on failure
+ * (a tool NEVER throws out of its handler — the read-only refusal and every
+ * caught error both surface as an `isError` result). Wrapping this here keeps
+ * each handler as "do the work -> `toolText(...)`" / "on error -> `toolError(...)`".
  */
-function toolText(text: string) {
-  return { content: [{ type: "text" as const, text }] };
+function toolText(...texts: string[]) {
+  return { content: texts.map((text) => ({ type: "text" as const, text })) };
 }
 
 /** The `isError` tool-result envelope. Accepts a caught value or a plain message. */
@@ -51,6 +89,271 @@ function toolError(e: unknown) {
   return { isError: true, content: [{ type: "text" as const, text: errorText(e) }] };
 }
 
+/**
+ * The approval-prompt preview of a copy / move: every resource its dry run
+ * would copy and, for a move, every source it would then delete.
+ */
+function transferPreview(plan: TransferResult, overwrite: boolean | undefined): string {
+  const lines = [
+    `copies ${plan.copied.length} resource(s)${overwrite ? ", OVERWRITING existing resources" : ""}:`,
+    ...plan.copied.map((c) => `${c.from} → ${c.to}`),
+  ];
+  if (plan.deleted.length > 0) {
+    lines.push(`then deletes ${plan.deleted.length} source(s):`, ...plan.deleted);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * The approval-prompt preview of a `solid_write`: for a Turtle-family body, the
+ * triple diff against the current resource (see diffRdf); otherwise — or if the
+ * diff cannot be computed — the body itself.
+ */
+async function writePreview(
+  config: SolidMcpConfig,
+  url: string,
+  content: string,
+  contentType: string,
+  encoding: "utf8" | "base64" | undefined,
+): Promise<string> {
+  if (encoding === "base64") {
+    return `(binary ${contentType} body, ${content.length} base64 characters)`;
+  }
+  if (isDiffableContentType(contentType)) {
+    try {
+      const diff = await diffRdf(config, url, content, contentType);
+      return [
+        `${diff.exists ? "changes" : "creates"} ${url}: ${diff.added.length} triple(s) added, ` +
+          `${diff.removed.length} removed, ${diff.unchanged} unchanged`,
+        ...(await nTriplesLines(diff.removed)).map((line) => `- ${line}`),
+        ...(await nTriplesLines(diff.added)).map((line) => `+ ${line}`),
+      ].join("\n");
+    } catch {
+      // Fall through to the raw body — the write itself will report any error.
+    }
+  }
+  return `${contentType} body:\n${content}`;
+}
+
+/**
+ * The approval-prompt preview of a `solid_batch`: each numbered step with what
+ * it would write — a put's {@link writePreview}, a patch's `-`/`+` triples, a
+ * create's body — as `solid_write`, `solid_patch` and `solid_create` show them.
+ */
+async function batchPreview(config: SolidMcpConfig, steps: BatchOperation[]): Promise<string> {
+  const lines: string[] = [];
+  for (const [i, step] of steps.entries()) {
+    switch (step.op) {
+      case "put":
+        lines.push(
+          `${i + 1}. put ${step.url}`,
+          await writePreview(config, step.url, step.content, step.contentType, step.encoding),
+        );
+        break;
+      case "patch":
+        lines.push(
+          `${i + 1}. patch ${step.url}`,
+          ...(await nTriplesLines(step.delete ?? [])).map((line) => `- ${line}`),
+          ...(await nTriplesLines(step.insert ?? [])).map((line) => `+ ${line}`),
+        );
+        break;
+      case "create":
+        lines.push(
+          `${i + 1}. create in ${step.container}` +
+            `${step.slug !== undefined ? ` (slug ${JSON.stringify(step.slug)})` : ""}` +
+            `${step.body ? `, ${step.contentType} body:\n${step.body}` : ""}`,
+        );
+        break;
+      default:
+        lines.push(`${i + 1}. delete ${step.url}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/** One pending mutation, as put to the human under `confirmWrites`. */
+interface PendingWrite {
+  /** The operation, as shown to the human (e.g. "write", "delete"). */
+  operation: string;
+  /** The canonical URL the operation targets. */
+  target: string;
+  /** What will change: the body, the triples, or the resources affected. */
+  preview: string;
+}
+
+/** How much of a body / diff an approval prompt shows before truncating. */
+const CONFIRM_PREVIEW_CHARS = 2000;
+
+/** Truncate `text` for an approval prompt, saying how much was left out. */
+function previewOf(text: string): string {
+  if (text.length <= CONFIRM_PREVIEW_CHARS) return text;
+  return `${text.slice(0, CONFIRM_PREVIEW_CHARS)}\n… (${text.length - CONFIRM_PREVIEW_CHARS} more characters)`;
+}
+
+/** Prefix every line of `text` with `mark` — a diff-style rendering of a patch. */
+function diffLines(mark: "+" | "-", text: string): string[] {
+  return text
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .map((line) => `${mark} ${line}`);
+}
+
+/**
+ * Under `confirmWrites`, ask the human to approve `pending` via an MCP
+ * elicitation, resolving only on an explicit approval. Throws — so the handler
+ * returns `isError` and nothing is written — when the human declines or
+ * cancels, and fails CLOSED when the client cannot elicit at all. A no-op when
+ * `confirmWrites` is off.
+ */
+async function confirmWrite(
+  server: McpServer,
+  config: SolidMcpConfig,
+  pending: PendingWrite,
+): Promise<void> {
+  if (!config.confirmWrites) return;
+  const what = `the ${pending.operation} of ${pending.target}`;
+  if (!server.server.getClientCapabilities()?.elicitation) {
+    throw new Error(
+      `confirmation required (confirmWrites) but the MCP client does not support ` +
+        `elicitation — refusing ${what}.`,
+    );
+  }
+  let result: Awaited<ReturnType<McpServer["server"]["elicitInput"]>>;
+  try {
+    result = await server.server.elicitInput({
+      message:
+        `Approve this change to the Solid pod?\n\noperation: ${pending.operation}\n` +
+        `target: ${pending.target}\n\n${previewOf(pending.preview)}`,
+      requestedSchema: {
+        type: "object",
+        properties: {
+          approve: {
+            type: "boolean",
+            title: "Approve",
+            description: "Allow this change to the pod.",
+            default: false,
+          },
+        },
+        required: ["approve"],
+      },
+    });
+  } catch (e) {
+    throw new Error(`could not confirm ${what} (nothing was changed): ${errorText(e)}`);
+  }
+  if (result.action !== "accept" || result.content?.approve !== true) {
+    const outcome =
+      result.action === "accept"
+        ? "did not approve"
+        : result.action === "decline"
+          ? "declined"
+          : "cancelled";
+    throw new Error(`write not confirmed: the user ${outcome} ${what}; nothing was changed.`);
+  }
+}
+
+/**
+ * The native MCP content for a whole-resource read of a binary: an `image` /
+ * `audio` part a multimodal client can show, if the whole file fitted within
+ * maxBytes — otherwise (or for any other binary) a `resource_link` to its pod
+ * URL, rather than a base64 dump. `format: "raw"` or an offset/length still
+ * returns the bytes themselves.
+ */
+function binaryContent(target: string, bytes: ReadResult): ContentBlock[] {
+  const mimeType = bytes.contentType ?? "application/octet-stream";
+  const family = mimeType.split("/")[0];
+  if ((family === "image" || family === "audio") && !bytes.truncated) {
+    return [{ type: family, data: bytes.base64 ?? "", mimeType }];
+  }
+  const size = bytes.truncated ? bytes.totalSize : Buffer.byteLength(bytes.base64 ?? "", "base64");
+  const why = bytes.truncated ? "larger than maxBytes" : "binary";
+  return [
+    {
+      type: "text",
+      text: `[${mimeType}${size !== undefined ? `, ${size} bytes` : ""}: ${why}, so not inlined — read it with format "raw" (and offset/length) for its base64 bytes]`,
+    },
+    {
+      type: "resource_link",
+      uri: target,
+      name: decodeURIComponent(new URL(target).pathname.split("/").pop() || target),
+      mimeType,
+      ...(size !== undefined ? { size } : {}),
+    },
+  ];
+}
+
+/**
+ * Render a {@link TreeNode} as a compact indented outline, one resource per
+ * line: a container with its child count, total bytes and latest change; any
+ * other resource with its type, size and modified time.
+ */
+function renderTree(node: TreeNode, indent = ""): string[] {
+  const facts: string[] = [];
+  if (node.isContainer) {
+    if (node.childCount !== undefined) {
+      facts.push(`${node.childCount} ${node.childCount === 1 ? "child" : "children"}`);
+      facts.push(`${node.totalBytes ?? 0} B`);
+    }
+    if (node.lastModified !== undefined) facts.push(`latest ${node.lastModified}`);
+    if (node.error !== undefined) facts.push(`unreadable: ${node.error}`);
+    else if (node.children === undefined) facts.push("not expanded");
+    else if (node.truncated) facts.push("partial");
+  } else {
+    if (node.mimeType !== undefined) facts.push(node.mimeType);
+    if (node.size !== undefined) facts.push(`${node.size} B`);
+    if (node.modified !== undefined) facts.push(node.modified);
+  }
+  const line = `${indent}${node.name}${facts.length > 0 ? ` (${facts.join(", ")})` : ""}`;
+  return [line, ...(node.children ?? []).flatMap((child) => renderTree(child, `${indent}  `))];
+}
+
+/** The `format` choices of `solid_read` and the resource template: an RDF serialisation, or the original bytes. */
+const READ_FORMATS = ["turtle", "jsonld", "ntriples", "nquads", "raw"] as const;
+type ReadFormat = (typeof READ_FORMATS)[number];
+
+/**
+ * Refuse to render `target` (as `as`) unless `bytes` — the read that found it —
+ * shows a whole RDF resource: a non-RDF resource, or one only partly read (past
+ * maxBytes, or an offset/length), cannot be re-serialised or summarised.
+ */
+function requireWholeRdf(target: string, bytes: ReadResult, as: string): void {
+  if (!bytes.contentType || !RDF_MEDIA_TYPES.has(bytes.contentType)) {
+    throw new Error(
+      `cannot render ${target} as ${as}: it is not RDF (${bytes.contentType ?? "no content-type"}) — read it with format "raw".`,
+    );
+  }
+  if (bytes.offset !== undefined) {
+    throw new Error(
+      `cannot render ${target} as ${as}: only part of it was read (it exceeds maxBytes, or an offset/length was given) — page through it with format "raw".`,
+    );
+  }
+}
+
+/** Re-serialise the RDF resource `target` as `format`, from the store `readRdf` parses. */
+async function renderRdf(
+  cfg: SolidMcpConfig,
+  target: string,
+  bytes: ReadResult,
+  format: RdfFormat,
+  context?: Record<string, unknown>,
+): Promise<string> {
+  requireWholeRdf(target, bytes, format);
+  const { turtle, dataset } = await readRdf(cfg, target);
+  if (format === "turtle") return turtle;
+  return serializeRdf(dataset, format, context ? { context } : {});
+}
+
+/** Summarise the RDF resource `target` (see `summarizeRdf`), from the store `readRdf` parses. */
+async function summarize(
+  cfg: SolidMcpConfig,
+  target: string,
+  bytes: ReadResult,
+  format: SummaryFormat,
+): Promise<string> {
+  requireWholeRdf(target, bytes, "a summary");
+  const { dataset } = await readRdf(cfg, target);
+  return summarizeRdf(dataset, target, format);
+}
+
 /**
  * Build an {@link McpServer} for the pod described by `config`. The config is
  * validated eagerly (podRoot must be an absolute http(s) container URL) so a
@@ -60,6 +363,9 @@ export function createSolidMcpServer(config: SolidMcpConfig): McpServer {
   // Eagerly validate + canonicalise the pod root (throws on a bad podRoot).
   const podRoot = normalizePodRoot(config.podRoot);
   const cfg: SolidMcpConfig = { ...config, podRoot };
+  // Likewise the writable scopes: a bad prefix fails here, not on the first write.
+  validateWritableScopes(cfg);
+  trashContainerOf(cfg);
 
   const server = new McpServer(
     { name: "@jeswr/solid-mcp", version: "0.1.0" },
@@ -69,21 +375,121 @@ export function createSolidMcpServer(config: SolidMcpConfig): McpServer {
   // ---- Resources: a template mapping every pod URL to an MCP resource ----
   // The resource URI scheme mirrors the pod's http(s) URLs 1:1. We register a
   // wildcard template over the pod's scheme+host so any in-pod URL is addressable;
-  // the `list` callback enumerates the pod root's immediate children so a client
-  // can discover what's there.
+  // the `list` callback enumerates the pod root's immediate children, a page at a
+  // time, so a client can discover what's there.
   const rootUrl = new URL(podRoot);
+  const listRoot = async (cursor?: string) => {
+    const page = await listContainerPage(cfg, podRoot, cursor === undefined ? {} : { cursor });
+    return {
+      resources: page.children.map((c) => ({
+        uri: c.url,
+        name: c.name,
+        ...(c.mimeType ? { mimeType: c.mimeType } : {}),
+      })),
+      ...(page.nextCursor ? { nextCursor: page.nextCursor } : {}),
+    };
+  };
   const template = new ResourceTemplate(`${rootUrl.protocol}//${rootUrl.host}/{+path}`, {
-    list: async () => {
-      const children = await listContainer(cfg, podRoot);
+    list: () => listRoot(),
+  });
+
+  // Reads one pod resource for any template. With no `format` or `view`, a
+  // container is a JSON listing and RDF is Turtle; an explicit one applies to
+  // containers too.
+  const readPodResource = async (
+    uri: string,
+    target: string,
+    as: { format?: ReadFormat; view?: "summary" } = {},
+  ) => {
+    const { format, view } = as;
+    if (format === undefined && view === undefined && isContainerUrl(target)) {
+      const children = await listContainer(cfg, target);
+      return {
+        contents: [{ uri, mimeType: "application/json", text: JSON.stringify(children, null, 2) }],
+      };
+    }
+    // Peek at the content-type via the bytes path; render RDF as Turtle (unless
+    // it is too big to read whole — then the capped raw text is served).
+    const bytes = await readResource(cfg, target);
+    if (view === "summary") {
+      const text = await summarize(cfg, target, bytes, "markdown");
+      return { contents: [{ uri, mimeType: "text/markdown", text }] };
+    }
+    if (format !== undefined && format !== "raw") {
+      const text = await renderRdf(cfg, target, bytes, format);
+      return { contents: [{ uri, mimeType: RDF_FORMAT_MEDIA_TYPES[format], text }] };
+    }
+    if (
+      format === undefined &&
+      bytes.contentType &&
+      RDF_MEDIA_TYPES.has(bytes.contentType) &&
+      !bytes.truncated
+    ) {
+      const { turtle } = await readRdf(cfg, target);
+      return { contents: [{ uri, mimeType: "text/turtle", text: turtle }] };
+    }
+    if (bytes.text !== undefined) {
       return {
-        resources: children.map((c) => ({
-          uri: c.url,
-          name: c.name,
-          ...(c.mimeType ? { mimeType: c.mimeType } : {}),
-        })),
+        contents: [
+          { uri, ...(bytes.contentType ? { mimeType: bytes.contentType } : {}), text: bytes.text },
+        ],
       };
+    }
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: bytes.contentType ?? "application/octet-stream",
+          blob: bytes.base64 ?? "",
+        },
+      ],
+    };
+  };
+
+  // Registered FIRST so it wins the match: `<pod url>?format=<f>` reads the pod
+  // url (without the suffix) in that format. Any other query is part of the url.
+  server.registerResource(
+    "solid-pod-format",
+    new ResourceTemplate(`${rootUrl.protocol}//${rootUrl.host}/{+path}{?format}`, {
+      list: undefined,
+    }),
+    {
+      title: "Solid pod resource in a chosen format",
+      description: `A resource in the Solid pod, read in the \`format\` given (${READ_FORMATS.join(" | ")}): an RDF resource (or container) re-serialised, or \`raw\` for its original bytes.`,
     },
-  });
+    async (uri: URL, { format }) => {
+      const href = uri.toString();
+      if (typeof format !== "string" || !(READ_FORMATS as readonly string[]).includes(format)) {
+        throw new Error(
+          `unknown format ${JSON.stringify(format)} (expected one of ${READ_FORMATS.join(", ")}).`,
+        );
+      }
+      const target = requirePodScopedUrl(cfg, href.slice(0, href.lastIndexOf("?format=")));
+      return readPodResource(href, target, { format: format as ReadFormat });
+    },
+  );
+
+  // Likewise `<pod url>?view=summary`: an RDF resource summarised as Markdown.
+  server.registerResource(
+    "solid-pod-summary",
+    new ResourceTemplate(`${rootUrl.protocol}//${rootUrl.host}/{+path}{?view}`, {
+      list: undefined,
+    }),
+    {
+      title: "Solid pod resource, summarised",
+      description:
+        "An RDF resource in the Solid pod (with `view=summary`) as a Markdown summary: grouped by subject, prefixed names, plain literals.",
+      mimeType: "text/markdown",
+    },
+    async (uri: URL, { view }) => {
+      const href = uri.toString();
+      if (view !== "summary") {
+        throw new Error(`unknown view ${JSON.stringify(view)} (expected "summary").`);
+      }
+      const target = requirePodScopedUrl(cfg, href.slice(0, href.lastIndexOf("?view=")));
+      return readPodResource(href, target, { view });
+    },
+  );
 
   server.registerResource(
     "solid-pod",
@@ -95,42 +501,15 @@ export function createSolidMcpServer(config: SolidMcpConfig): McpServer {
     },
     async (uri: URL) => {
       const target = requirePodScopedUrl(cfg, uri.toString());
-      if (isContainerUrl(target)) {
-        const children = await listContainer(cfg, target);
-        return {
-          contents: [
-            { uri: target, mimeType: "application/json", text: JSON.stringify(children, null, 2) },
-          ],
-        };
-      }
-      // Peek at the content-type via the bytes path; render RDF as Turtle.
-      const bytes = await readResource(cfg, target);
-      if (bytes.contentType && RDF_MEDIA_TYPES.has(bytes.contentType)) {
-        const { turtle } = await readRdf(cfg, target);
-        return { contents: [{ uri: target, mimeType: "text/turtle", text: turtle }] };
-      }
-      if (bytes.text !== undefined) {
-        return {
-          contents: [
-            {
-              uri: target,
-              ...(bytes.contentType ? { mimeType: bytes.contentType } : {}),
-              text: bytes.text,
-            },
-          ],
-        };
-      }
-      return {
-        contents: [
-          {
-            uri: target,
-            mimeType: bytes.contentType ?? "application/octet-stream",
-            blob: bytes.base64 ?? "",
-          },
-        ],
-      };
+      return readPodResource(target, target);
     },
   );
+  // The SDK's resources/list handler neither passes the request cursor to the
+  // `list` callback nor returns a nextCursor, so replace it (this template is
+  // the only listable resource) with one that pages.
+  server.server.setRequestHandler(ListResourcesRequestSchema, (request) =>
+    listRoot(request.params?.cursor),
+  );
 
   // ---- Tools ----
   server.registerTool(
@@ -138,16 +517,49 @@ export function createSolidMcpServer(config: SolidMcpConfig): McpServer {
     {
       title: "List a Solid container",
       description:
-        "List the immediate children of a Solid LDP container (must be within the pod). Returns typed children (url, name, isContainer, type, mimeType, size, modified).",
+        "List the immediate children of a Solid LDP container (must be within the pod), a page at a time. Returns { children, total, nextCursor? }: typed children (url, name, isContainer, type, mimeType, size, modified), how many matched, and — if there are more — the cursor for the next page. Filter by rdf:type, mimeType, isContainer, a name glob or modifiedSince; sort by name, modified or size.",
       inputSchema: {
         container: z.string().describe("Absolute URL of the container (within the pod)."),
+        limit: z
+          .number()
+          .int()
+          .positive()
+          .max(1000)
+          .optional()
+          .describe("Children per page (default 100, at most 1000)."),
+        cursor: z
+          .string()
+          .optional()
+          .describe("A previous page's nextCursor, to continue (keep the same sort and order)."),
+        type: z.string().optional().describe("Only children with this rdf:type (a full IRI)."),
+        mimeType: z
+          .string()
+          .optional()
+          .describe('Only children with this MIME type — exact, or a wildcard like "image/*".'),
+        isContainer: z
+          .boolean()
+          .optional()
+          .describe("Only sub-containers (true) or only non-containers (false)."),
+        name: z
+          .string()
+          .optional()
+          .describe('Only children whose name matches this glob, e.g. "*.jpg" (case-insensitive).'),
+        modifiedSince: z
+          .string()
+          .optional()
+          .describe("Only children modified at or after this ISO 8601 date."),
+        sort: z
+          .enum(["name", "modified", "size"])
+          .optional()
+          .describe("Sort key (default name); children lacking it come last."),
+        order: z.enum(["asc", "desc"]).optional().describe("Sort order (default asc)."),
       },
       annotations: { readOnlyHint: true, openWorldHint: true },
     },
-    async ({ container }) => {
+    async ({ container, ...options }) => {
       try {
-        const children = await listContainer(cfg, container);
-        return toolText(JSON.stringify(children, null, 2));
+        const page = await listContainerPage(cfg, container, options);
+        return toolText(JSON.stringify(page));
       } catch (e) {
         return toolError(e);
       }
@@ -159,24 +571,203 @@ export function createSolidMcpServer(config: SolidMcpConfig): McpServer {
     {
       title: "Read a Solid resource",
       description:
-        "Read a resource in the pod. RDF resources are returned as Turtle; other resources as text, or base64 for binary. Fails closed (401/403) if the resource is protected and no authenticated fetch was supplied.",
-      inputSchema: { url: z.string().describe("Absolute URL of the resource (within the pod).") },
+        'Read a resource in the pod. RDF resources are returned as Turtle by default — or as JSON-LD, N-Triples or N-Quads via format, or as a compact subject-by-subject summary (Markdown or JSON) via view:"summary"; other resources as text — images and audio as image/audio content, other binaries as a resource_link (the bytes of any resource, base64 for binary, with format raw); extract returns the readable text of HTML, Markdown or JSON documents. Large resources are returned in parts of at most maxBytes (default 1 MiB): a partial read starts with a line giving the total size and the offset to continue from — pass it as offset to page through. Fails closed (401/403) if the resource is protected and no authenticated fetch was supplied.',
+      inputSchema: {
+        url: z.string().describe("Absolute URL of the resource (within the pod)."),
+        offset: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe("Byte offset to start reading at (default 0), e.g. a previous nextOffset."),
+        length: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Read at most this many bytes (capped by the server's maxBytes)."),
+        format: z
+          .enum(READ_FORMATS)
+          .optional()
+          .describe(
+            "Output format: turtle (the default for RDF), jsonld, ntriples, nquads, or raw for the original bytes. The RDF formats need the whole resource to be read.",
+          ),
+        context: z
+          .record(z.string(), z.unknown())
+          .optional()
+          .describe(
+            'A JSON-LD context object to compact the output with (format "jsonld" only). It must be inline — remote contexts are refused.',
+          ),
+        view: z
+          .enum(["summary"])
+          .optional()
+          .describe(
+            "summary: instead of the document, a compact view of an RDF resource grouped by subject — prefixed names, rdf:type beside each subject, plain literals. Lossy; read the document itself to edit it.",
+          ),
+        summaryFormat: z
+          .enum(["markdown", "json"])
+          .optional()
+          .describe('The shape of view "summary": markdown (default) or compact json.'),
+        extract: z
+          .enum(["text", "markdown"])
+          .optional()
+          .describe(
+            "Return the readable text of a text document instead of its source: HTML as clean text, or as Markdown with markdown; Markdown without its front-matter; JSON pretty-printed.",
+          ),
+        metadata: z
+          .boolean()
+          .optional()
+          .describe(
+            "Also return the resource's metadata graph (title, tags, licence…) from its describedby description resource, as Turtle.",
+          ),
+      },
       annotations: { readOnlyHint: true, openWorldHint: true },
     },
-    async ({ url }) => {
+    async ({ url, offset, length, format, context, view, summaryFormat, extract, metadata }) => {
       try {
+        if (view !== undefined && format !== undefined) {
+          return toolError('view "summary" replaces format — pass one or the other.');
+        }
+        if (extract !== undefined && (format !== undefined || view !== undefined)) {
+          return toolError("extract replaces format and view — pass only one of them.");
+        }
+        if (summaryFormat !== undefined && view === undefined) {
+          return toolError('summaryFormat only applies with view "summary".');
+        }
+        if (context && format !== "jsonld") {
+          return toolError(
+            `context only applies to format "jsonld", not ${format ?? "the default"}.`,
+          );
+        }
         const target = requirePodScopedUrl(cfg, url);
-        const bytes = await readResource(cfg, target);
-        if (bytes.contentType && RDF_MEDIA_TYPES.has(bytes.contentType)) {
-          const { turtle } = await readRdf(cfg, target);
-          return toolText(turtle);
+        const bytes = await readResource(cfg, target, {
+          ...(offset !== undefined ? { offset } : {}),
+          ...(length !== undefined ? { length } : {}),
+        });
+        const partial = bytes.offset !== undefined;
+        const header = partial
+          ? `[partial read from byte ${bytes.offset}` +
+            `${bytes.totalSize !== undefined ? ` of ${bytes.totalSize}` : ""}: ` +
+            `${bytes.truncated ? `truncated — continue with offset ${bytes.nextOffset}` : "to the end"}]\n`
+          : "";
+        const text = (t: string): ContentBlock[] => [{ type: "text", text: t }];
+        let content: ContentBlock[];
+        if (extract !== undefined) {
+          if (bytes.text === undefined) {
+            return toolError(
+              `cannot extract text from ${target}: it is binary (${bytes.contentType ?? "no content-type"}).`,
+            );
+          }
+          const body = extractText(bytes.text, bytes.contentType, {
+            format: extract,
+            base: target,
+          });
+          content = text(`${header}${body}`);
+        } else if (view === "summary") {
+          content = text(await summarize(cfg, target, bytes, summaryFormat ?? "markdown"));
+        } else if (format !== undefined && format !== "raw") {
+          content = text(await renderRdf(cfg, target, bytes, format, context));
+        } else if (
+          format === undefined &&
+          bytes.contentType &&
+          RDF_MEDIA_TYPES.has(bytes.contentType) &&
+          !partial
+        ) {
+          content = text((await readRdf(cfg, target)).turtle);
+        } else if (
+          bytes.base64 !== undefined &&
+          format === undefined &&
+          offset === undefined &&
+          length === undefined
+        ) {
+          content = binaryContent(target, bytes);
+        } else {
+          content = text(
+            bytes.text !== undefined
+              ? `${header}${bytes.text}`
+              : `${header}[binary ${bytes.contentType ?? "application/octet-stream"}, base64]\n${bytes.base64 ?? ""}`,
+          );
         }
-        if (bytes.text !== undefined) {
-          return toolText(bytes.text);
+        if (metadata) {
+          // The description graph rides along as a further text block. Without
+          // one (no describedby link advertised, say) the content still comes back,
+          // with a note in its place.
+          let note: string;
+          try {
+            const meta = await readMetadata(cfg, target);
+            note = `[metadata from ${meta.describedBy}${meta.exists ? "" : " (not created yet)"}]\n${meta.turtle}`;
+          } catch (e) {
+            note = `[no metadata: ${errorText(e)}]`;
+          }
+          content.push({ type: "text", text: note });
         }
-        return toolText(
-          `[binary ${bytes.contentType ?? "application/octet-stream"}, base64]\n${bytes.base64 ?? ""}`,
-        );
+        return { content };
+      } catch (e) {
+        return toolError(e);
+      }
+    },
+  );
+
+  server.registerTool(
+    "solid_stat",
+    {
+      title: "Describe a Solid resource",
+      description:
+        "Report a resource's metadata from its response headers, without downloading the body: whether it is a container, content type, size, last-modified time, ETag, rdf types, allowed methods, WAC-Allow access modes, and its acl / describedby / storage links (in-pod ones only). Uses HEAD, falling back to GET.",
+      inputSchema: {
+        url: z.string().describe("Absolute URL of the resource (within the pod)."),
+      },
+      annotations: { readOnlyHint: true, openWorldHint: true },
+    },
+    async ({ url }) => {
+      try {
+        const stat = await statResource(cfg, url);
+        return toolText(JSON.stringify(stat, null, 2));
+      } catch (e) {
+        return toolError(e);
+      }
+    },
+  );
+
+  server.registerTool(
+    "solid_tree",
+    {
+      title: "Show a Solid container tree",
+      description:
+        'Walk a container\'s subtree (default: the pod root) and return an overview in one call: an indented outline (or JSON) where each container shows its child count, the total bytes below it and its most recent change. Bounded by the same depth and resource caps as solid_search; a container cut short is marked "not expanded" or "partial".',
+      inputSchema: {
+        container: z
+          .string()
+          .optional()
+          .describe("Absolute URL of the container to walk (default: the pod root)."),
+        depth: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe("How many container levels below it to expand (default 4)."),
+        maxResources: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Stop after visiting this many resources (default 500)."),
+        output: z
+          .enum(["text", "json"])
+          .optional()
+          .describe("An indented outline (text, default) or the tree as JSON."),
+      },
+      annotations: { readOnlyHint: true, openWorldHint: true },
+    },
+    async ({ container, depth, maxResources, output }) => {
+      try {
+        const tree = await walkTree(cfg, container ?? podRoot, {
+          ...(depth !== undefined ? { maxDepth: depth } : {}),
+          ...(maxResources !== undefined ? { maxResources } : {}),
+        });
+        if (output === "json") return toolText(JSON.stringify(tree));
+        const footer = `[${tree.visited} resources visited${tree.root.truncated ? "; partial — raise depth or maxResources to see more" : ""}]`;
+        return toolText([...renderTree(tree.root), footer].join("\n"));
       } catch (e) {
         return toolError(e);
       }
@@ -188,19 +779,81 @@ export function createSolidMcpServer(config: SolidMcpConfig): McpServer {
     {
       title: "Search the Solid pod",
       description:
-        "Client-side search across the pod (no server FTS): best-effort Type-Index discovery plus a bounded recursive container scan, matching the query against resource url/name and, for RDF resources, literal values. Returns ranked matches.",
+        'Client-side search across the pod (no server FTS): best-effort Type-Index discovery plus a bounded recursive container scan, matching the query against resource url/name, the literal values of RDF resources and the text of HTML, Markdown, JSON and plain-text documents. A match must contain every word of the query (each matching the start of a word), every "quoted phrase" word for word, and none of the -word / -"phrase" exclusions. Matches are scored (BM25 over name, path, literals and text; a word in the name counts most) and returned strongest first, each with its score and up to three hits: passages with the query words in **bold**, and for a literal the subject and predicate of its triple. When the server keeps a search index (see solid_reindex) it answers from that instead. Optional filters narrow the matches by rdf:type, media type, modified time and containers vs files; a filter on a media type or modified time the listing does not advertise excludes the resource. Returns ranked matches.',
       inputSchema: {
-        query: z.string().describe("Case-insensitive search term."),
+        query: z
+          .string()
+          .describe(
+            'Case-insensitive words to search for; "quoted phrase" for an exact phrase, -word or -"phrase" to exclude.',
+          ),
         scope: z
           .string()
           .optional()
           .describe("Optional container URL to restrict the search to (within the pod)."),
+        type: z
+          .string()
+          .optional()
+          .describe(
+            "Only resources of this rdf:type (absolute IRI), from their listing or the subjects inside them.",
+          ),
+        mimeType: z
+          .string()
+          .optional()
+          .describe('Only resources of this media type; "image/*" matches a whole family.'),
+        modifiedAfter: z
+          .string()
+          .optional()
+          .describe("Only resources last modified at or after this ISO 8601 date-time."),
+        modifiedBefore: z
+          .string()
+          .optional()
+          .describe("Only resources last modified at or before this ISO 8601 date-time."),
+        kind: z.enum(["container", "file"]).optional().describe("Only containers, or only files."),
+        maxDepth: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe("How many container levels below the scope to scan (default 4)."),
+        maxResources: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Stop the scan after visiting this many resources (default 500)."),
+        limit: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Return at most this many matches, strongest first."),
       },
       annotations: { readOnlyHint: true, openWorldHint: true },
     },
-    async ({ query, scope }) => {
+    async ({
+      query,
+      scope,
+      type,
+      mimeType,
+      modifiedAfter,
+      modifiedBefore,
+      kind,
+      maxDepth,
+      maxResources,
+      limit,
+    }) => {
       try {
-        const matches = await search(cfg, query, scope ? { scope } : {});
+        const matches = await search(cfg, query, {
+          ...(scope ? { scope } : {}),
+          ...(type !== undefined ? { type } : {}),
+          ...(mimeType !== undefined ? { mimeType } : {}),
+          ...(modifiedAfter !== undefined ? { modifiedAfter } : {}),
+          ...(modifiedBefore !== undefined ? { modifiedBefore } : {}),
+          ...(kind !== undefined ? { kind } : {}),
+          ...(maxDepth !== undefined ? { maxDepth } : {}),
+          ...(maxResources !== undefined ? { maxResources } : {}),
+          ...(limit !== undefined ? { limit } : {}),
+        });
         return toolText(JSON.stringify(matches, null, 2));
       } catch (e) {
         return toolError(e);
@@ -208,28 +861,164 @@ export function createSolidMcpServer(config: SolidMcpConfig): McpServer {
     },
   );
 
+  server.registerTool(
+    "solid_sparql",
+    {
+      title: "Query the Solid pod with SPARQL",
+      description:
+        "Run a SPARQL SELECT, ASK, CONSTRUCT or DESCRIBE query over the RDF documents under a container (default: the pod root), gathered with the same bounded crawl as solid_search and queried locally. Each document's triples are in a named graph of its URL (GRAPH ?g finds where a fact came from); the default graph is their union. SELECT / ASK return SPARQL JSON results, CONSTRUCT / DESCRIBE return Turtle. Never fetches beyond the pod (no SERVICE or remote FROM) and never writes.",
+      inputSchema: {
+        query: z.string().describe("The SPARQL query."),
+        scope: z
+          .string()
+          .optional()
+          .describe("Container URL whose documents to query (default: the pod root)."),
+        maxDepth: z
+          .number()
+          .int()
+          .nonnegative()
+          .optional()
+          .describe("How many container levels below the scope to crawl (default 4)."),
+        maxResources: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Stop after visiting this many resources (default 500)."),
+      },
+      annotations: { readOnlyHint: true, openWorldHint: true },
+    },
+    async ({ query, scope, maxDepth, maxResources }) => {
+      try {
+        const result = await querySparql(cfg, query, {
+          ...(scope !== undefined ? { scope } : {}),
+          ...(maxDepth !== undefined ? { maxDepth } : {}),
+          ...(maxResources !== undefined ? { maxResources } : {}),
+        });
+        const body = result.dataset
+          ? await serializeRdf(result.dataset, "turtle")
+          : JSON.stringify(result.json);
+        // Unlisted containers already explain a partial result; otherwise it was a cap or the timeout.
+        const partial =
+          result.failed.length > 0
+            ? `; partial — could not list ${result.failed.join(", ")}`
+            : "; partial — a cap or the timeout was hit, raise maxDepth or maxResources or narrow the scope";
+        const footer =
+          `[queried ${result.sources.length} documents under ${scope ?? podRoot}` +
+          `${result.skipped.length > 0 ? `; skipped ${result.skipped.join(", ")}` : ""}` +
+          `${result.truncated ? partial : ""}]`;
+        return toolText(body, footer);
+      } catch (e) {
+        return toolError(e);
+      }
+    },
+  );
+
+  server.registerTool(
+    "solid_reindex",
+    {
+      title: "Refresh the search index",
+      description:
+        "Build or refresh the server's local search index (when it was started with an index path), so solid_search answers from it without crawling the pod. Incremental: resources whose modified time or ETag is unchanged are not re-read, and removed ones are dropped. Pass full:true to rebuild from scratch. Writes only the local index file, never the pod.",
+      inputSchema: {
+        full: z
+          .boolean()
+          .optional()
+          .describe("Discard the existing index and re-read every resource."),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ full }) => {
+      try {
+        const result = await reindex(cfg, full ? { full } : {});
+        return toolText(JSON.stringify(result, null, 2));
+      } catch (e) {
+        return toolError(e);
+      }
+    },
+  );
+
   server.registerTool(
     "solid_write",
     {
       title: "Write a Solid resource",
       description:
-        "Write (PUT) a resource in the pod. DISABLED by default — the server is read-only unless created with readOnly:false. Pod-scope-guarded.",
+        'Write (PUT) a resource in the pod. DISABLED by default — the server is read-only unless created with readOnly:false. Pod-scope-guarded. Pass the etag from a prior read as expectedEtag to avoid clobbering a concurrent change (a mismatch fails with the current etag — re-read and retry), or createOnly to refuse overwriting an existing resource. Binary bodies (images, PDFs) are sent base64-encoded with encoding:"base64" — the same form solid_read returns them in. For Turtle-family RDF, preview:true writes nothing and instead reports the triples the write would add and remove, plus the etag to commit it with (expectedEtag) in a second call.',
       inputSchema: {
         url: z.string().describe("Absolute URL of the resource to write (within the pod)."),
         content: z.string().describe("The resource body to write."),
         contentType: z.string().describe("The Content-Type for the written resource."),
+        expectedEtag: z
+          .string()
+          .optional()
+          .describe("Only write if the resource's current ETag is this one (If-Match)."),
+        createOnly: z
+          .boolean()
+          .optional()
+          .describe("Only write if the resource does not exist yet (If-None-Match: *)."),
+        encoding: z
+          .enum(["utf8", "base64"])
+          .optional()
+          .describe('How content is encoded: "utf8" text (default) or "base64" for binary bodies.'),
+        preview: z
+          .boolean()
+          .optional()
+          .describe(
+            "Write nothing; report the RDF triples this write would add/remove and the etag to commit it with.",
+          ),
       },
       annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: true },
     },
-    async ({ url, content, contentType }) => {
+    async ({ url, content, contentType, expectedEtag, createOnly, encoding, preview }) => {
       // Reflect the read-only default as an isError result rather than throwing.
       if (!writesEnabled(cfg)) {
-        return toolError(
-          "write disabled: server is read-only (set readOnly:false to enable writes).",
-        );
+        return toolError(WRITE_DISABLED_MESSAGE);
       }
       try {
-        const result = await writeResource(cfg, url, content, contentType);
+        if (preview) {
+          if (encoding === "base64") {
+            return toolError("preview needs a Turtle-family RDF body, not a base64 one.");
+          }
+          // Preview only what could be committed: the target must be writable.
+          requireWritableUrl(cfg, url, "put");
+          const diff = await diffRdf(cfg, url, content, contentType);
+          return toolText(
+            JSON.stringify(
+              {
+                url: diff.url,
+                exists: diff.exists,
+                ...(diff.etag !== undefined ? { etag: diff.etag } : {}),
+                added: await nTriplesLines(diff.added),
+                removed: await nTriplesLines(diff.removed),
+                unchanged: diff.unchanged,
+                commit: diff.exists
+                  ? diff.etag !== undefined
+                    ? `call solid_write again without preview and with expectedEtag ${JSON.stringify(diff.etag)}`
+                    : "call solid_write again without preview (the pod sent no etag to guard the write with)"
+                  : "call solid_write again without preview and with createOnly:true",
+              },
+              null,
+              2,
+            ),
+          );
+        }
+        if (cfg.confirmWrites) {
+          await confirmWrite(server, cfg, {
+            operation: createOnly ? "create-only write" : "write",
+            target: requireWritableUrl(cfg, url, "put"),
+            preview: await writePreview(cfg, url, content, contentType, encoding),
+          });
+        }
+        const result = await writeResource(cfg, url, content, contentType, {
+          ...(expectedEtag !== undefined ? { ifMatch: expectedEtag } : {}),
+          ...(createOnly ? { ifNoneMatch: "*" as const } : {}),
+          ...(encoding ? { encoding } : {}),
+        });
         return toolText(`wrote ${result.url}${result.etag ? ` (etag ${result.etag})` : ""}`);
       } catch (e) {
         return toolError(e);
@@ -237,5 +1026,445 @@ export function createSolidMcpServer(config: SolidMcpConfig): McpServer {
     },
   );
 
+  server.registerTool(
+    "solid_patch",
+    {
+      title: "Patch a Solid RDF resource",
+      description:
+        "Add and/or remove individual triples in an RDF resource (PATCH) without rewriting the whole document. Triples are given as Turtle (relative IRIs resolve against the resource URL). Sent as an N3 Patch (default) or a SPARQL Update. DISABLED by default — the server is read-only unless created with readOnly:false. Pod-scope-guarded.",
+      inputSchema: {
+        url: z.string().describe("Absolute URL of the RDF resource to patch (within the pod)."),
+        insert: z.string().optional().describe("Turtle triples to add to the resource."),
+        delete: z
+          .string()
+          .optional()
+          .describe("Turtle triples to remove from the resource (no blank nodes)."),
+        format: z
+          .enum(["n3", "sparql-update"])
+          .optional()
+          .describe('The patch dialect: "n3" (text/n3, default) or "sparql-update".'),
+      },
+      annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+    },
+    async ({ url, insert, delete: del, format }) => {
+      if (!writesEnabled(cfg)) {
+        return toolError(WRITE_DISABLED_MESSAGE);
+      }
+      try {
+        const target = requirePodScopedUrl(cfg, url);
+        await confirmWrite(server, cfg, {
+          operation: "patch",
+          target: requireWritableUrl(cfg, target, "patch"),
+          preview: [...diffLines("-", del ?? ""), ...diffLines("+", insert ?? "")].join("\n"),
+        });
+        const result = await patchResource(cfg, target, {
+          insert: insert ? parseTurtle(insert, target) : [],
+          delete: del ? parseTurtle(del, target) : [],
+          ...(format ? { format } : {}),
+        });
+        return toolText(`patched ${result.url}${result.etag ? ` (etag ${result.etag})` : ""}`);
+      } catch (e) {
+        return toolError(e);
+      }
+    },
+  );
+
+  server.registerTool(
+    "solid_patch_metadata",
+    {
+      title: "Patch a Solid resource's metadata",
+      description:
+        'Add and/or remove triples in the description (metadata) resource a resource links to with rel="describedby" — e.g. to title, tag or license an image or PDF so it becomes findable. Triples are given as Turtle; relative IRIs resolve against the DESCRIBED resource, so <> is the resource itself. Sent as an N3 Patch (default) or a SPARQL Update. DISABLED by default — the server is read-only unless created with readOnly:false. Pod-scope-guarded.',
+      inputSchema: {
+        url: z.string().describe("Absolute URL of the described resource (within the pod)."),
+        insert: z.string().optional().describe("Turtle triples to add to its metadata."),
+        delete: z
+          .string()
+          .optional()
+          .describe("Turtle triples to remove from its metadata (no blank nodes)."),
+        format: z
+          .enum(["n3", "sparql-update"])
+          .optional()
+          .describe('The patch dialect: "n3" (text/n3, default) or "sparql-update".'),
+      },
+      annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+    },
+    async ({ url, insert, delete: del, format }) => {
+      if (!writesEnabled(cfg)) {
+        return toolError(WRITE_DISABLED_MESSAGE);
+      }
+      try {
+        // Editing a resource's metadata is a patch of that resource, so its own
+        // writable scope applies as well as the description resource's.
+        const target = requireWritableUrl(cfg, url, "patch");
+        const describedBy = requireWritableUrl(cfg, await describedByOf(cfg, target), "patch");
+        await confirmWrite(server, cfg, {
+          operation: "patch (metadata)",
+          target: describedBy,
+          preview: [...diffLines("-", del ?? ""), ...diffLines("+", insert ?? "")].join("\n"),
+        });
+        const result = await patchResource(cfg, describedBy, {
+          insert: insert ? parseTurtle(insert, target) : [],
+          delete: del ? parseTurtle(del, target) : [],
+          ...(format ? { format } : {}),
+        });
+        return toolText(
+          `patched the metadata of ${target} in ${result.url}${result.etag ? ` (etag ${result.etag})` : ""}`,
+        );
+      } catch (e) {
+        return toolError(e);
+      }
+    },
+  );
+
+  server.registerTool(
+    "solid_create",
+    {
+      title: "Create a resource in a Solid container",
+      description:
+        "Create a new resource (or sub-container) inside a container via an LDP POST, letting the pod mint its URL; an optional slug suggests the name. Returns the URL the pod assigned. DISABLED by default — the server is read-only unless created with readOnly:false. Pod-scope-guarded.",
+      inputSchema: {
+        container: z
+          .string()
+          .describe("Absolute URL of the parent container (within the pod, ending in '/')."),
+        content: z.string().optional().describe("The body of the new resource (default empty)."),
+        contentType: z
+          .string()
+          .optional()
+          .describe("The Content-Type of the new resource (required unless asContainer)."),
+        slug: z.string().optional().describe("A suggested name for the new resource."),
+        asContainer: z
+          .boolean()
+          .optional()
+          .describe("Create a sub-container (ldp:BasicContainer) instead of a resource."),
+      },
+      annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: true },
+    },
+    async ({ container, content, contentType, slug, asContainer }) => {
+      if (!writesEnabled(cfg)) {
+        return toolError(WRITE_DISABLED_MESSAGE);
+      }
+      if (contentType === undefined && !asContainer) {
+        return toolError("contentType is required unless creating a container (asContainer).");
+      }
+      try {
+        await confirmWrite(server, cfg, {
+          operation: asContainer ? "create (container)" : "create",
+          target: requireWritableScope(cfg, container, "create"),
+          preview:
+            `new ${asContainer ? "container" : "resource"}` +
+            `${slug !== undefined ? ` (slug ${JSON.stringify(slug)})` : ""}` +
+            `${content ? `, ${contentType ?? "text/turtle"} body:\n${content}` : ""}`,
+        });
+        const result = await createResource(
+          cfg,
+          container,
+          content ?? "",
+          contentType ?? "text/turtle",
+          { ...(slug !== undefined ? { slug } : {}), ...(asContainer ? { asContainer } : {}) },
+        );
+        return toolText(`created ${result.url}${result.etag ? ` (etag ${result.etag})` : ""}`);
+      } catch (e) {
+        return toolError(e);
+      }
+    },
+  );
+
+  server.registerTool(
+    "solid_delete",
+    {
+      title: "Delete a Solid resource",
+      description:
+        "Delete a resource in the pod. A non-empty container is refused unless recursive is set, in which case everything under it is deleted bottom-up, stopping at the first failure. dryRun lists what would be deleted without deleting. The pod root can never be deleted. DISABLED by default — the server is read-only unless created with readOnly:false. Pod-scope-guarded.",
+      inputSchema: {
+        url: z.string().describe("Absolute URL of the resource or container to delete."),
+        recursive: z
+          .boolean()
+          .optional()
+          .describe("Delete a non-empty container together with everything under it."),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe("Only list the URLs that would be deleted; delete nothing."),
+      },
+      annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+    },
+    async ({ url, recursive, dryRun }) => {
+      if (!writesEnabled(cfg)) {
+        return toolError(WRITE_DISABLED_MESSAGE);
+      }
+      try {
+        const options = {
+          ...(recursive ? { recursive } : {}),
+          ...(dryRun ? { dryRun } : {}),
+        };
+        let approved: { plan: string[] } | undefined;
+        if (cfg.confirmWrites && !dryRun) {
+          // Show the human exactly what would go: the dry-run plan — and then
+          // delete only that plan, refusing if the tree has changed meanwhile.
+          const plan = await deleteResource(cfg, url, { ...options, dryRun: true });
+          await confirmWrite(server, cfg, {
+            operation: "delete",
+            target: plan.urls[plan.urls.length - 1] ?? url,
+            preview: `deletes ${plan.urls.length} resource(s):\n${plan.urls.join("\n")}`,
+          });
+          approved = { plan: plan.urls };
+        }
+        const result = await deleteResource(cfg, url, { ...options, ...approved });
+        return toolText(JSON.stringify(result, null, 2));
+      } catch (e) {
+        return toolError(e);
+      }
+    },
+  );
+
+  const transferSchema = {
+    from: z.string().describe("Absolute URL of the source resource or container (within the pod)."),
+    to: z
+      .string()
+      .describe(
+        "Absolute URL of the destination (within the pod); a container URL (ending in '/') when copying a container.",
+      ),
+    overwrite: z
+      .boolean()
+      .optional()
+      .describe("Overwrite resources that already exist at the destination (default false)."),
+  };
+
+  server.registerTool(
+    "solid_copy",
+    {
+      title: "Copy a Solid resource or container",
+      description:
+        "Copy a resource — or a container with its whole subtree — to another location in the pod, byte-for-byte (binary bodies included) with each resource's original Content-Type. Existing destination resources are not overwritten unless overwrite is set. DISABLED by default — the server is read-only unless created with readOnly:false. Pod-scope-guarded.",
+      inputSchema: transferSchema,
+      annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+    },
+    async ({ from, to, overwrite }) => {
+      if (!writesEnabled(cfg)) {
+        return toolError(WRITE_DISABLED_MESSAGE);
+      }
+      try {
+        const options = overwrite ? { overwrite } : {};
+        let approved: { plan: string[] } | undefined;
+        if (cfg.confirmWrites) {
+          // Show the human exactly what would be copied, then copy only that plan.
+          const plan = await copyResource(cfg, from, to, { ...options, dryRun: true });
+          await confirmWrite(server, cfg, {
+            operation: "copy",
+            target: requireWritableUrl(cfg, to, "put"),
+            preview: transferPreview(plan, overwrite),
+          });
+          approved = { plan: plan.copied.map((c) => c.from) };
+        }
+        const result = await copyResource(cfg, from, to, { ...options, ...approved });
+        return toolText(JSON.stringify(result, null, 2));
+      } catch (e) {
+        return toolError(e);
+      }
+    },
+  );
+
+  server.registerTool(
+    "solid_move",
+    {
+      title: "Move a Solid resource or container",
+      description:
+        "Move (or rename) a resource — or a container with its whole subtree — within the pod: copies everything byte-for-byte with its original Content-Type, verifies every copy, and only then deletes exactly the sources it copied. If any copy fails the source is left untouched. DISABLED by default — the server is read-only unless created with readOnly:false. Pod-scope-guarded.",
+      inputSchema: transferSchema,
+      annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+    },
+    async ({ from, to, overwrite }) => {
+      if (!writesEnabled(cfg)) {
+        return toolError(WRITE_DISABLED_MESSAGE);
+      }
+      try {
+        const options = overwrite ? { overwrite } : {};
+        let approved: { plan: string[] } | undefined;
+        if (cfg.confirmWrites) {
+          // Show the human exactly what would be moved, then move only that plan.
+          const plan = await moveResource(cfg, from, to, { ...options, dryRun: true });
+          await confirmWrite(server, cfg, {
+            operation: "move",
+            target: requireWritableUrl(cfg, to, "put"),
+            preview: transferPreview(plan, overwrite),
+          });
+          approved = { plan: plan.copied.map((c) => c.from) };
+        }
+        const result = await moveResource(cfg, from, to, { ...options, ...approved });
+        return toolText(JSON.stringify(result, null, 2));
+      } catch (e) {
+        return toolError(e);
+      }
+    },
+  );
+
+  const batchStep = z.discriminatedUnion("op", [
+    z.object({
+      op: z.literal("put"),
+      url: z.string().describe("Absolute URL of the resource to write."),
+      content: z.string().describe("The resource body."),
+      contentType: z.string().describe("The Content-Type for the written resource."),
+      expectedEtag: z.string().optional().describe("Only write if the current ETag is this one."),
+      createOnly: z.boolean().optional().describe("Only write if the resource does not exist yet."),
+      encoding: z.enum(["utf8", "base64"]).optional().describe("How content is encoded."),
+    }),
+    z.object({
+      op: z.literal("patch"),
+      url: z.string().describe("Absolute URL of the RDF resource to patch."),
+      insert: z.string().optional().describe("Turtle triples to add."),
+      delete: z.string().optional().describe("Turtle triples to remove (no blank nodes)."),
+      format: z.enum(["n3", "sparql-update"]).optional().describe("The patch dialect."),
+    }),
+    z.object({
+      op: z.literal("create"),
+      container: z.string().describe("Absolute URL of the parent container (ending in '/')."),
+      content: z.string().optional().describe("The body of the new resource (default empty)."),
+      contentType: z
+        .string()
+        .optional()
+        .describe("Its Content-Type (required unless asContainer)."),
+      slug: z.string().optional().describe("A suggested name for the new resource."),
+      asContainer: z.boolean().optional().describe("Create a sub-container instead."),
+    }),
+    z.object({
+      op: z.literal("delete"),
+      url: z.string().describe("Absolute URL of the resource to delete (not a container)."),
+    }),
+  ]);
+
+  server.registerTool(
+    "solid_batch",
+    {
+      title: "Run several Solid writes as one batch",
+      description:
+        "Run an ordered list of put / patch / create / delete operations as one unit. Every target's prior state (body, Content-Type, ETag) is snapshotted first; if any step fails, the remaining steps are skipped and the completed ones are rolled back from the snapshots (best-effort). Reports, per step, whether it succeeded, failed, was skipped, or was rolled back. Containers can be created but not written or deleted in a batch. DISABLED by default — the server is read-only unless created with readOnly:false. Pod-scope-guarded.",
+      inputSchema: {
+        operations: z.array(batchStep).min(1).describe("The operations to run, in order."),
+      },
+      annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+    },
+    async ({ operations }) => {
+      if (!writesEnabled(cfg)) {
+        return toolError(WRITE_DISABLED_MESSAGE);
+      }
+      try {
+        const steps = operations.map((step): BatchOperation => {
+          switch (step.op) {
+            case "put":
+              return {
+                op: "put",
+                url: step.url,
+                content: step.content,
+                contentType: step.contentType,
+                ...(step.expectedEtag !== undefined ? { ifMatch: step.expectedEtag } : {}),
+                ...(step.createOnly ? { ifNoneMatch: "*" as const } : {}),
+                ...(step.encoding ? { encoding: step.encoding } : {}),
+              };
+            case "patch": {
+              const target = requirePodScopedUrl(cfg, step.url);
+              return {
+                op: "patch",
+                url: target,
+                insert: step.insert ? parseTurtle(step.insert, target) : [],
+                delete: step.delete ? parseTurtle(step.delete, target) : [],
+                ...(step.format ? { format: step.format } : {}),
+              };
+            }
+            case "create":
+              if (step.contentType === undefined && !step.asContainer) {
+                throw new Error(
+                  `create in ${step.container}: contentType is required unless asContainer.`,
+                );
+              }
+              return {
+                op: "create",
+                container: step.container,
+                body: step.content ?? "",
+                contentType: step.contentType ?? "text/turtle",
+                ...(step.slug !== undefined ? { slug: step.slug } : {}),
+                ...(step.asContainer ? { asContainer: step.asContainer } : {}),
+              };
+            default:
+              return { op: "delete", url: step.url };
+          }
+        });
+        if (cfg.confirmWrites) {
+          await confirmWrite(server, cfg, {
+            operation: `batch of ${steps.length}`,
+            target: podRoot,
+            preview: await batchPreview(cfg, steps),
+          });
+        }
+        const result = await batchWrite(cfg, steps);
+        const report = JSON.stringify(result, null, 2);
+        return result.ok ? toolText(report) : toolError(report);
+      } catch (e) {
+        return toolError(e);
+      }
+    },
+  );
+
+  server.registerTool(
+    "solid_undo",
+    {
+      title: "Undo journaled changes",
+      description:
+        "Undo recent overwrites and deletes by restoring the previous representation the server saved in its trash container (only when created with a trashContainer). Restores the most recent change by default, the last count changes newest first, or one specific journal entry; dryRun lists what would be restored (and so shows the journal). A restore never overwrites a later change: an undone delete will not overwrite a resource recreated since, and an undone update is refused once the resource has changed again. DISABLED by default — the server is read-only unless created with readOnly:false. Pod-scope-guarded.",
+      inputSchema: {
+        count: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("How many of the most recent changes to undo (default 1)."),
+        entry: z
+          .string()
+          .optional()
+          .describe("Undo exactly this journal entry (its .meta.ttl URL in the trash container)."),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe("Only list the changes that would be undone; restore nothing."),
+      },
+      annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+    },
+    async ({ count, entry, dryRun }) => {
+      if (!writesEnabled(cfg)) {
+        return toolError(WRITE_DISABLED_MESSAGE);
+      }
+      try {
+        const options = {
+          ...(count !== undefined ? { count } : {}),
+          ...(entry !== undefined ? { entry } : {}),
+        };
+        let approved: { entries: string[] } | undefined;
+        if (cfg.confirmWrites && !dryRun) {
+          // Restore exactly the entries the human approved, not whatever is newest by then.
+          const plan = await undoChanges(cfg, { ...options, dryRun: true });
+          await confirmWrite(server, cfg, {
+            operation: "undo",
+            target: plan.restored.map((e) => e.url).join(", "),
+            preview: plan.restored
+              .map(
+                (e) =>
+                  `restores the ${e.timestamp} ${e.kind === "delete" ? "deletion" : "overwrite"} of ${e.url}`,
+              )
+              .join("\n"),
+          });
+          approved = { entries: plan.restored.map((e) => e.entry) };
+        }
+        const result = await undoChanges(cfg, {
+          ...options,
+          ...approved,
+          ...(dryRun ? { dryRun } : {}),
+        });
+        return toolText(JSON.stringify(result, null, 2));
+      } catch (e) {
+        return toolError(e);
+      }
+    },
+  );
+
   return server;
 }
@@ -2,8 +2,12 @@
 import { describe, expect, it } from "vitest";
 import {
   normalizePodRoot,
+  parseWritableScopes,
   requirePodScopedUrl,
   requirePodScopedWriteUrl,
+  requireWritableScope,
+  requireWritableUrl,
+  validateWritableScopes,
   writesEnabled,
 } from "../src/auth.js";
 
@@ -139,3 +143,106 @@ describe("writesEnabled", () => {
     expect(writesEnabled({ ...base, readOnly: false })).toBe(true);
   });
 });
+
+describe("requireWritableUrl (writable scopes)", () => {
+  const base = { fetch: globalThis.fetch, podRoot: POD, readOnly: false };
+
+  it("allows any in-pod write target when no scopes are configured", () => {
+    expect(requireWritableUrl(base, `${POD}anything.txt`, "delete")).toBe(`${POD}anything.txt`);
+  });
+
+  it("confines writes to the allowed subtrees (relative prefixes resolve against podRoot)", () => {
+    const cfg = { ...base, writableScopes: { allow: ["agent-notes/"] } };
+    expect(requireWritableUrl(cfg, `${POD}agent-notes/a/b.txt`, "put")).toBe(
+      `${POD}agent-notes/a/b.txt`,
+    );
+    expect(() => requireWritableUrl(cfg, `${POD}profile/card`, "put")).toThrow(
+      /write-scope violation: put on .*profile\/card is outside every writable scope/,
+    );
+    // A segment boundary, not a string prefix: agent-notes-old/ is NOT in agent-notes/.
+    expect(() => requireWritableUrl(cfg, `${POD}agent-notes-old/x`, "put")).toThrow(
+      /write-scope violation/,
+    );
+  });
+
+  it("limits a rule to its operations", () => {
+    const cfg = {
+      ...base,
+      writableScopes: {
+        allow: [{ prefix: "tasks/", operations: ["create" as const, "patch" as const] }],
+      },
+    };
+    expect(requireWritableUrl(cfg, `${POD}tasks/t1`, "patch")).toBe(`${POD}tasks/t1`);
+    expect(() => requireWritableUrl(cfg, `${POD}tasks/t1`, "delete")).toThrow(
+      /write-scope violation: delete/,
+    );
+  });
+
+  it("lets a deny rule override an allow rule", () => {
+    const cfg = { ...base, writableScopes: { allow: ["tasks/"], deny: ["tasks/archive/"] } };
+    expect(requireWritableUrl(cfg, `${POD}tasks/t1`, "put")).toBe(`${POD}tasks/t1`);
+    expect(() => requireWritableUrl(cfg, `${POD}tasks/archive/old`, "put")).toThrow(
+      /denied by .*tasks\/archive\//,
+    );
+  });
+
+  it("treats a non-container prefix as that one resource", () => {
+    const cfg = { ...base, writableScopes: { deny: ["profile/card"] } };
+    expect(() => requireWritableUrl(cfg, `${POD}profile/card`, "patch")).toThrow(/denied/);
+    expect(requireWritableUrl(cfg, `${POD}profile/card2`, "patch")).toBe(`${POD}profile/card2`);
+  });
+
+  it("still refuses the pod root and out-of-pod targets first", () => {
+    const cfg = { ...base, writableScopes: { allow: [POD] } };
+    expect(() => requireWritableUrl(cfg, POD, "put")).toThrow(/pod-scope violation/);
+    expect(() => requireWritableUrl(cfg, "https://evil.example/x", "put")).toThrow(
+      /pod-scope violation/,
+    );
+  });
+
+  it("requireWritableScope admits the pod root as a create container", () => {
+    const cfg = {
+      ...base,
+      writableScopes: { allow: [{ prefix: POD, operations: ["create" as const] }] },
+    };
+    expect(requireWritableScope(cfg, POD, "create")).toBe(POD);
+  });
+});
+
+describe("validateWritableScopes", () => {
+  const base = { fetch: globalThis.fetch, podRoot: POD };
+
+  it("rejects an out-of-pod prefix", () => {
+    expect(() =>
+      validateWritableScopes({ ...base, writableScopes: { allow: ["https://evil.example/"] } }),
+    ).toThrow(/writableScopes.allow: .*is not a pod URL/);
+  });
+
+  it("rejects an unknown operation", () => {
+    const writableScopes = {
+      deny: [{ prefix: "x/", operations: ["erase"] as unknown as ["delete"] }],
+    };
+    expect(() => validateWritableScopes({ ...base, writableScopes })).toThrow(
+      /writableScopes.deny: unknown operation "erase"/,
+    );
+  });
+});
+
+describe("parseWritableScopes", () => {
+  it("parses allow, per-operation and deny entries", () => {
+    expect(parseWritableScopes("agent-notes/, create+patch=tasks/,!tasks/archive/")).toEqual({
+      allow: [{ prefix: "agent-notes/" }, { prefix: "tasks/", operations: ["create", "patch"] }],
+      deny: [{ prefix: "tasks/archive/" }],
+    });
+  });
+
+  it("does not misread an '=' inside a URL as an operation list", () => {
+    expect(parseWritableScopes("https://alice.example/pod/q?a=b")).toEqual({
+      allow: [{ prefix: "https://alice.example/pod/q?a=b" }],
+    });
+  });
+
+  it("returns no rules for an empty spec", () => {
+    expect(parseWritableScopes(" , ")).toEqual({});
+  });
+});
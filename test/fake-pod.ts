@@ -4,7 +4,11 @@
  * function that serves the given resources by URL. Each resource is
  * `{ contentType, body, status?, etag? }`. PUTs are recorded so write tests can
  * assert the request, and a resource map can be supplied to make PUT update the
- * served map. Unknown URLs return 404.
+ * served map. Conditional PUTs (`If-Match` / `If-None-Match: *`) are honoured
+ * with a 412, and a POST to a container mints a child (LDP create, honouring
+ * `Slug`); DELETE removes a served resource. A container that is not in the map
+ * but has resources under it is listed implicitly. Every mutating request (PUT, PATCH,
+ * POST, DELETE) is also recorded in `writes`, in order. Unknown URLs return 404.
  */
 
 export interface FakeResource {
@@ -16,6 +20,10 @@ export interface FakeResource {
   redirectTo?: string;
   /** The redirect status to use with `redirectTo` (default 302). */
   redirectStatus?: number;
+  /** Extra response headers for a GET / HEAD (e.g. `link`, `wac-allow`, `allow`). */
+  headers?: Record<string, string>;
+  /** If set, a HEAD is refused with a 405 (to exercise a GET fallback). */
+  refuseHead?: boolean;
 }
 
 export interface PutRecord {
@@ -28,11 +36,28 @@ export interface PutRecord {
 export interface FakePod {
   fetch: typeof fetch;
   puts: PutRecord[];
+  /** Every mutating request (any method other than GET/HEAD), in order. */
+  writes: PutRecord[];
+}
+
+/** Options for {@link makeFakePod}. */
+export interface FakePodOptions {
+  /**
+   * Give each PUT a fresh ETag (`"v1"`, `"v2"`, …) instead of the fixed `"new"`,
+   * so chained conditional writes to one resource can be told apart.
+   */
+  versionEtags?: boolean;
 }
 
 /** Build a fetch-shaped function serving `resources`. */
-export function makeFakePod(resources: Record<string, FakeResource>): FakePod {
+export function makeFakePod(
+  resources: Record<string, FakeResource>,
+  options: FakePodOptions = {},
+): FakePod {
   const puts: PutRecord[] = [];
+  const writes: PutRecord[] = [];
+  let minted = 0;
+  let versions = 0;
   const map = { ...resources };
 
   const fakeFetch = (async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
@@ -40,17 +65,75 @@ export function makeFakePod(resources: Record<string, FakeResource>): FakePod {
       typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url;
     const method = (init?.method ?? "GET").toUpperCase();
 
+    // Read any request body to text, whether a string or a stream (a copy
+    // streams the source body straight into its PUT).
+    const body =
+      init?.body == null
+        ? ""
+        : typeof init.body === "string"
+          ? init.body
+          : await new Response(init.body).text();
+    if (method !== "GET" && method !== "HEAD") {
+      const headers = new Headers(init?.headers);
+      writes.push({ url, method, contentType: headers.get("content-type"), body });
+    }
+
+    if (method === "PATCH") {
+      // Recorded above; the patch itself is not applied to the served map, but
+      // the resource's ETag moves on as it would on a real server.
+      const patched = map[url];
+      if (patched) map[url] = { ...patched, etag: '"patched"' };
+      return new Response(null, { status: 205, headers: { etag: '"patched"' } });
+    }
+
+    if (method === "DELETE") {
+      if (!map[url]) return new Response("not found", { status: 404, statusText: "Not Found" });
+      delete map[url];
+      return new Response(null, { status: 204 });
+    }
+
+    if (method === "POST") {
+      // LDP create: mint `<container><slug>` (or a counter name), de-duplicated,
+      // with a trailing slash when the Link header asks for a container. The
+      // Location is returned RELATIVE so callers must resolve it.
+      const headers = new Headers(init?.headers);
+      const asContainer = (headers.get("link") ?? "").includes("ldp#BasicContainer");
+      const base = encodeURIComponent(headers.get("slug") ?? `resource-${++minted}`);
+      let name = `${base}${asContainer ? "/" : ""}`;
+      for (let i = 2; map[`${url}${name}`]; i++) name = `${base}-${i}${asContainer ? "/" : ""}`;
+      map[`${url}${name}`] = asContainer
+        ? { contentType: "text/turtle", body: containerTurtle(`${url}${name}`, []) }
+        : {
+            contentType: headers.get("content-type") ?? "text/plain",
+            body,
+            etag: '"created"',
+          };
+      return new Response(null, { status: 201, headers: { location: name, etag: '"created"' } });
+    }
+
     if (method === "PUT") {
       const headers = new Headers(init?.headers);
-      const body = typeof init?.body === "string" ? init.body : String(init?.body ?? "");
       const contentType = headers.get("content-type");
+      // Honour conditional writes the way a Solid server does: a failed
+      // If-Match / If-None-Match precondition is a 412 carrying the current ETag.
+      const current = map[url];
+      const ifMatch = headers.get("if-match");
+      const ifNoneMatch = headers.get("if-none-match");
+      if ((ifMatch !== null && current?.etag !== ifMatch) || (ifNoneMatch === "*" && current)) {
+        return new Response(null, {
+          status: 412,
+          statusText: "Precondition Failed",
+          headers: current?.etag ? { etag: current.etag } : {},
+        });
+      }
       puts.push({ url, method, contentType, body });
       // Reflect the write into the served map (so a subsequent GET sees it).
-      map[url] = { contentType: contentType ?? "text/plain", body, etag: '"new"' };
-      return new Response(null, { status: 201, headers: { etag: '"new"' } });
+      const etag = options.versionEtags ? `"v${++versions}"` : '"new"';
+      map[url] = { contentType: contentType ?? "text/plain", body, etag };
+      return new Response(null, { status: 201, headers: { etag } });
     }
 
-    const res = map[url];
+    const res = map[url] ?? impliedContainer(map, url);
     if (!res) {
       return new Response("not found", { status: 404, statusText: "Not Found" });
     }
@@ -63,8 +146,11 @@ export function makeFakePod(resources: Record<string, FakeResource>): FakePod {
         headers: { location: res.redirectTo },
       });
     }
+    if (method === "HEAD" && res.refuseHead) {
+      return new Response(null, { status: 405, statusText: "Method Not Allowed" });
+    }
     const status = res.status ?? 200;
-    const headers = new Headers({ "content-type": res.contentType });
+    const headers = new Headers({ ...res.headers, "content-type": res.contentType });
     if (res.etag) headers.set("etag", res.etag);
     if (status >= 400) {
       return new Response(res.body, { status, statusText: statusTextFor(status), headers });
@@ -72,7 +158,29 @@ export function makeFakePod(resources: Record<string, FakeResource>): FakePod {
     return new Response(res.body, { status, headers });
   }) as typeof fetch;
 
-  return { fetch: fakeFetch, puts };
+  return { fetch: fakeFetch, puts, writes };
+}
+
+/**
+ * A container that is not in the map but has resources under it (e.g. one
+ * created implicitly by a PUT, as a Solid server does) gets a listing of its
+ * direct children.
+ */
+function impliedContainer(
+  map: Record<string, FakeResource>,
+  url: string,
+): FakeResource | undefined {
+  if (!url.endsWith("/")) return undefined;
+  const names = new Set<string>();
+  for (const key of Object.keys(map)) {
+    if (!key.startsWith(url) || key === url) continue;
+    const rest = key.slice(url.length);
+    const slash = rest.indexOf("/");
+    names.add(slash === -1 ? rest : rest.slice(0, slash + 1));
+  }
+  if (names.size === 0) return undefined;
+  const children = [...names].map((name) => ({ name, container: name.endsWith("/") }));
+  return { contentType: "text/turtle", body: containerTurtle(url, children) };
 }
 
 function statusTextFor(status: number): string {
@@ -97,11 +205,24 @@ function statusTextFor(status: number): string {
  */
 export function containerTurtle(
   base: string,
-  children: Array<{ name: string; container?: boolean }>,
+  children: Array<{
+    name: string;
+    container?: boolean;
+    /** posix:size, in bytes. */
+    size?: number;
+    /** dcterms:modified, as an ISO 8601 date-time. */
+    modified?: string;
+    /** The child's MIME type, advertised as an IANA media-type class. */
+    mimeType?: string;
+    /** Extra rdf:type IRIs. */
+    types?: string[];
+  }>,
 ): string {
   const lines: string[] = [
     "@prefix ldp: <http://www.w3.org/ns/ldp#> .",
     "@prefix dcterms: <http://purl.org/dc/terms/> .",
+    "@prefix posix: <http://www.w3.org/ns/posix/stat#> .",
+    "@prefix xsd: <http://www.w3.org/2001/XMLSchema#> .",
     "",
     `<${base}> a ldp:Container, ldp:BasicContainer, ldp:Resource ;`,
   ];
@@ -113,8 +234,15 @@ export function containerTurtle(
   }
   lines.push("");
   for (const c of children) {
-    const t = c.container ? "ldp:Container, ldp:BasicContainer, ldp:Resource" : "ldp:Resource";
-    lines.push(`<${base}${c.name}> a ${t} .`);
+    const types = [
+      c.container ? "ldp:Container, ldp:BasicContainer, ldp:Resource" : "ldp:Resource",
+    ];
+    if (c.mimeType) types.push(`<http://www.w3.org/ns/iana/media-types/${c.mimeType}#Resource>`);
+    for (const t of c.types ?? []) types.push(`<${t}>`);
+    const props = [`a ${types.join(", ")}`];
+    if (c.size !== undefined) props.push(`posix:size ${c.size}`);
+    if (c.modified !== undefined) props.push(`dcterms:modified "${c.modified}"^^xsd:dateTime`);
+    lines.push(`<${base}${c.name}> ${props.join(" ; ")} .`);
   }
   return lines.join("\n");
 }
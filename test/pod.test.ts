@@ -1,7 +1,36 @@
 // AUTHORED-BY Claude Opus 4.8 (Fable unavailable) — re-review/upgrade candidate
+import { mkdtemp, readdir, readFile, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { Parser } from "n3";
 import { describe, expect, it } from "vitest";
 import type { SolidMcpConfig } from "../src/auth.js";
-import { listContainer, readRdf, readResource, search, writeResource } from "../src/pod.js";
+import {
+  batchWrite,
+  copyResource,
+  createResource,
+  deleteResource,
+  diffRdf,
+  extractText,
+  listContainer,
+  listContainerPage,
+  listJournal,
+  moveResource,
+  parseTurtle,
+  patchResource,
+  querySparql,
+  readMetadata,
+  readRdf,
+  readResource,
+  reindex,
+  search,
+  serializeRdf,
+  statResource,
+  summarizeRdf,
+  undoChanges,
+  walkTree,
+  writeResource,
+} from "../src/pod.js";
 import { containerTurtle, makeFakePod, poisonedContainerTurtle } from "./fake-pod.js";
 
 /** Wrap a fetch to record every requested URL (to assert an SSRF target is NOT hit). */
@@ -91,6 +120,86 @@ describe("listContainer", () => {
   });
 });
 
+describe("listContainerPage", () => {
+  const photos = makeFakePod({
+    [POD]: {
+      contentType: "text/turtle",
+      body: containerTurtle(POD, [
+        { name: "b.jpg", mimeType: "image/jpeg", size: 300, modified: "2026-03-01T00:00:00Z" },
+        { name: "a.png", mimeType: "image/png", size: 100, modified: "2026-01-01T00:00:00Z" },
+        { name: "C.JPG", mimeType: "image/jpeg", size: 200 },
+        { name: "notes.txt", mimeType: "text/plain", size: 10, modified: "2026-02-01T00:00:00Z" },
+        { name: "album/", container: true },
+        {
+          name: "msg.ttl",
+          types: ["http://schema.org/Message"],
+          modified: "2026-04-01T00:00:00Z",
+        },
+      ]),
+    },
+  });
+  const names = (page: { children: Array<{ name: string }> }) => page.children.map((c) => c.name);
+
+  it("pages through the children with a cursor", async () => {
+    const first = await listContainerPage(cfg(photos.fetch), POD, { limit: 4 });
+    expect(first.total).toBe(6);
+    expect(names(first)).toEqual(["C.JPG", "a.png", "album/", "b.jpg"]);
+    expect(first.nextCursor).toBeDefined();
+    const rest = await listContainerPage(cfg(photos.fetch), POD, {
+      limit: 4,
+      cursor: first.nextCursor,
+    });
+    expect(names(rest)).toEqual(["msg.ttl", "notes.txt"]);
+    expect(rest.nextCursor).toBeUndefined();
+  });
+
+  it("filters by mimeType wildcard, name glob, container-ness, type and modifiedSince", async () => {
+    const c = cfg(photos.fetch);
+    expect(names(await listContainerPage(c, POD, { mimeType: "image/*" }))).toEqual([
+      "C.JPG",
+      "a.png",
+      "b.jpg",
+    ]);
+    expect(names(await listContainerPage(c, POD, { name: "*.jpg" }))).toEqual(["C.JPG", "b.jpg"]);
+    expect(names(await listContainerPage(c, POD, { isContainer: true }))).toEqual(["album/"]);
+    expect(names(await listContainerPage(c, POD, { type: "http://schema.org/Message" }))).toEqual([
+      "msg.ttl",
+    ]);
+    expect(
+      names(await listContainerPage(c, POD, { modifiedSince: "2026-02-01T00:00:00Z" })),
+    ).toEqual(["b.jpg", "msg.ttl", "notes.txt"]);
+  });
+
+  it("sorts by size or modified time, with children lacking the key last", async () => {
+    const c = cfg(photos.fetch);
+    expect(names(await listContainerPage(c, POD, { sort: "size", order: "desc" }))).toEqual([
+      "b.jpg",
+      "C.JPG",
+      "a.png",
+      "notes.txt",
+      "album/",
+      "msg.ttl",
+    ]);
+    expect(
+      names(await listContainerPage(c, POD, { sort: "modified", mimeType: "image/*" })),
+    ).toEqual(["a.png", "b.jpg", "C.JPG"]);
+  });
+
+  it("refuses a cursor issued for another sort, and a bad modifiedSince", async () => {
+    const c = cfg(photos.fetch);
+    const first = await listContainerPage(c, POD, { limit: 1 });
+    await expect(
+      listContainerPage(c, POD, { cursor: first.nextCursor, sort: "size" }),
+    ).rejects.toThrow(/sorted by name asc, not size asc/);
+    await expect(listContainerPage(c, POD, { cursor: "garbage" })).rejects.toThrow(
+      /invalid list cursor/,
+    );
+    await expect(listContainerPage(c, POD, { modifiedSince: "last week" })).rejects.toThrow(
+      /modifiedSince must be an ISO 8601 date/,
+    );
+  });
+});
+
 describe("readResource", () => {
   it("returns text for a textual content-type", async () => {
     const pod = makeFakePod({
@@ -213,6 +322,429 @@ describe("readRdf", () => {
   });
 });
 
+describe("serializeRdf", () => {
+  const ttl = `@prefix foaf: <http://xmlns.com/foaf/0.1/> .\n<${POD}me> foaf:name "Alice" .`;
+
+  it("writes N-Triples and N-Quads one statement per line", async () => {
+    const pod = makeFakePod({ [`${POD}me`]: { contentType: "text/turtle", body: ttl } });
+    const { dataset } = await readRdf(cfg(pod.fetch), `${POD}me`);
+    const line = `<${POD}me> <http://xmlns.com/foaf/0.1/name> "Alice" .\n`;
+    expect(await serializeRdf(dataset, "ntriples")).toBe(line);
+    expect(await serializeRdf(dataset, "nquads")).toBe(line);
+  });
+
+  it("writes JSON-LD compacted with a supplied context, round-tripping the graph", async () => {
+    const pod = makeFakePod({ [`${POD}me`]: { contentType: "text/turtle", body: ttl } });
+    const { dataset } = await readRdf(cfg(pod.fetch), `${POD}me`);
+    const json = await serializeRdf(dataset, "jsonld", {
+      context: { foaf: "http://xmlns.com/foaf/0.1/" },
+    });
+    const doc = JSON.parse(json);
+    expect(doc["@context"]).toEqual({ foaf: "http://xmlns.com/foaf/0.1/" });
+    expect(json).toContain('"foaf:name"');
+    expect(json).not.toContain("http://xmlns.com/foaf/0.1/name");
+  });
+
+  it("refuses a context that references a remote context (no fetch)", async () => {
+    const pod = makeFakePod({ [`${POD}me`]: { contentType: "text/turtle", body: ttl } });
+    const { dataset } = await readRdf(cfg(pod.fetch), `${POD}me`);
+    await expect(
+      serializeRdf(dataset, "jsonld", { context: { "@import": "https://evil.example/ctx" } }),
+    ).rejects.toThrow(/invalid JSON-LD context.*not fetched/s);
+  });
+});
+
+describe("statResource", () => {
+  const headers = {
+    link: [
+      '<http://www.w3.org/ns/ldp#Resource>; rel="type"',
+      '<notes.ttl.acl>; rel="acl"',
+      `<${POD}notes.ttl.meta>; rel="describedby"`,
+      '<https://evil.example/>; rel="http://www.w3.org/ns/pim/space#storage"',
+    ].join(", "),
+    "wac-allow": 'user="read write append control",public="read"',
+    allow: "GET, HEAD, PUT, PATCH, DELETE",
+    "last-modified": "Tue, 01 Sep 2026 10:00:00 GMT",
+  };
+
+  it("reports the headers of a HEAD, dropping an out-of-pod link target", async () => {
+    const pod = makeFakePod({
+      [`${POD}notes.ttl`]: {
+        contentType: "text/turtle; charset=utf-8",
+        body: "",
+        etag: '"v1"',
+        headers,
+      },
+    });
+    const { fetch, urls } = recordingFetch(pod.fetch);
+    const stat = await statResource(cfg(fetch), `${POD}notes.ttl`);
+    expect(stat).toEqual({
+      url: `${POD}notes.ttl`,
+      isContainer: false,
+      contentType: "text/turtle",
+      modified: "2026-09-01T10:00:00.000Z",
+      etag: '"v1"',
+      types: ["http://www.w3.org/ns/ldp#Resource"],
+      allow: ["GET", "HEAD", "PUT", "PATCH", "DELETE"],
+      wacAllow: { user: ["read", "write", "append", "control"], public: ["read"] },
+      // The relative acl resolves against the resource; the off-pod storage is dropped.
+      links: { acl: `${POD}notes.ttl.acl`, describedby: `${POD}notes.ttl.meta` },
+    });
+    expect(urls).toEqual([`${POD}notes.ttl`]);
+  });
+
+  it("falls back to a GET when the server refuses HEAD, and spots a container by its type", async () => {
+    const pod = makeFakePod({
+      [`${POD}odd`]: {
+        contentType: "text/turtle",
+        body: "",
+        refuseHead: true,
+        headers: { link: '<http://www.w3.org/ns/ldp#BasicContainer>; rel="type"' },
+      },
+    });
+    const stat = await statResource(cfg(pod.fetch), `${POD}odd`);
+    expect(stat.isContainer).toBe(true);
+    expect(stat.links).toEqual({});
+    expect(stat.wacAllow).toBeUndefined();
+  });
+
+  it("throws on a missing resource and refuses an out-of-pod url", async () => {
+    const pod = makeFakePod({});
+    await expect(statResource(cfg(pod.fetch), `${POD}nope`)).rejects.toThrow(
+      /failed to stat .*nope: HTTP 404/,
+    );
+    await expect(statResource(cfg(pod.fetch), "https://evil.example/x")).rejects.toThrow(
+      /pod-scope violation/,
+    );
+  });
+});
+
+describe("readMetadata", () => {
+  it("reads the describedby graph, or an empty one when it does not exist yet", async () => {
+    const pod = makeFakePod({
+      [`${POD}doc.pdf`]: {
+        contentType: "application/pdf",
+        body: "%PDF",
+        headers: { link: '<doc.pdf.meta>; rel="describedby"' },
+      },
+      [`${POD}doc.pdf.meta`]: {
+        contentType: "text/turtle",
+        body: `<${POD}doc.pdf> <http://purl.org/dc/terms/title> "Report" .`,
+      },
+      [`${POD}new.pdf`]: {
+        contentType: "application/pdf",
+        body: "%PDF",
+        headers: { link: '<new.pdf.meta>; rel="describedby"' },
+      },
+    });
+    const meta = await readMetadata(cfg(pod.fetch), `${POD}doc.pdf`);
+    expect(meta).toMatchObject({
+      url: `${POD}doc.pdf`,
+      describedBy: `${POD}doc.pdf.meta`,
+      exists: true,
+    });
+    expect(meta.turtle).toContain("Report");
+    const empty = await readMetadata(cfg(pod.fetch), `${POD}new.pdf`);
+    expect(empty).toMatchObject({ describedBy: `${POD}new.pdf.meta`, exists: false, turtle: "" });
+    expect(empty.dataset.size).toBe(0);
+  });
+
+  it("throws when the describedby link is missing or points outside the pod", async () => {
+    const pod = makeFakePod({
+      [`${POD}plain.txt`]: { contentType: "text/plain", body: "x" },
+      [`${POD}evil.txt`]: {
+        contentType: "text/plain",
+        body: "x",
+        headers: { link: '<https://evil.example/meta>; rel="describedby"' },
+      },
+    });
+    await expect(readMetadata(cfg(pod.fetch), `${POD}plain.txt`)).rejects.toThrow(
+      /has no description resource/,
+    );
+    await expect(readMetadata(cfg(pod.fetch), `${POD}evil.txt`)).rejects.toThrow(
+      /has no description resource/,
+    );
+  });
+});
+
+describe("walkTree", () => {
+  const treePod = () =>
+    makeFakePod({
+      [POD]: {
+        contentType: "text/turtle",
+        body: containerTurtle(POD, [
+          { name: "docs/", container: true },
+          { name: "top.txt", size: 5, modified: "2026-01-01T00:00:00Z" },
+        ]),
+      },
+      [`${POD}docs/`]: {
+        contentType: "text/turtle",
+        body: containerTurtle(`${POD}docs/`, [
+          { name: "deep/", container: true },
+          {
+            name: "a.pdf",
+            mimeType: "application/pdf",
+            size: 100,
+            modified: "2026-05-01T00:00:00Z",
+          },
+          { name: "locked/", container: true },
+        ]),
+      },
+      [`${POD}docs/deep/`]: {
+        contentType: "text/turtle",
+        body: containerTurtle(`${POD}docs/deep/`, [{ name: "b.txt", size: 7 }]),
+      },
+      [`${POD}docs/locked/`]: { contentType: "text/plain", body: "forbidden", status: 403 },
+    });
+
+  it("aggregates child counts, bytes and the latest change per container", async () => {
+    const { root, visited } = await walkTree(cfg(treePod().fetch), POD);
+    expect(visited).toBe(6);
+    expect(root).toMatchObject({
+      childCount: 2,
+      totalBytes: 112,
+      lastModified: "2026-05-01T00:00:00.000Z",
+      truncated: true, // docs/locked/ could not be listed
+    });
+    const docs = root.children?.find((c) => c.name === "docs/");
+    expect(docs).toMatchObject({ childCount: 3, totalBytes: 107 });
+    const locked = docs?.children?.find((c) => c.name === "locked/");
+    expect(locked?.truncated).toBe(true);
+    expect(locked?.error).toMatch(/403/);
+  });
+
+  it("stops at the depth cap and the resource cap, marking what it cut short", async () => {
+    const shallow = await walkTree(cfg(treePod().fetch), POD, { maxDepth: 0 });
+    const docs = shallow.root.children?.find((c) => c.name === "docs/");
+    expect(docs?.children).toBeUndefined();
+    expect(docs?.truncated).toBe(true);
+    expect(shallow.root.totalBytes).toBe(5);
+
+    const capped = await walkTree(cfg(treePod().fetch), POD, { maxResources: 3 });
+    expect(capped.visited).toBe(3);
+    expect(capped.root.truncated).toBe(true);
+    const cappedDocs = capped.root.children?.find((c) => c.name === "docs/");
+    expect(cappedDocs?.children?.map((c) => c.name)).toEqual(["deep/"]);
+  });
+
+  it("refuses a non-container and throws when the root itself cannot be listed", async () => {
+    const pod = treePod();
+    await expect(walkTree(cfg(pod.fetch), `${POD}top.txt`)).rejects.toThrow(/not a container/);
+    await expect(walkTree(cfg(pod.fetch), `${POD}docs/locked/`)).rejects.toThrow(/403/);
+  });
+});
+
+describe("crawl concurrency", () => {
+  /** A pod of two containers of notes that all mention "apple". */
+  const orchard = () => {
+    const notes = (base: string) =>
+      Object.fromEntries(
+        Array.from({ length: 6 }, (_, i) => [
+          `${base}n${i}.ttl`,
+          { contentType: "text/turtle", body: `<#it> <http://schema.org/text> "apple ${i}" .` },
+        ]),
+      );
+    const names = Array.from({ length: 6 }, (_, i) => ({ name: `n${i}.ttl` }));
+    return makeFakePod({
+      [POD]: {
+        contentType: "text/turtle",
+        body: containerTurtle(POD, [
+          { name: "a/", container: true },
+          { name: "b/", container: true },
+          ...names,
+        ]),
+      },
+      [`${POD}a/`]: { contentType: "text/turtle", body: containerTurtle(`${POD}a/`, names) },
+      [`${POD}b/`]: { contentType: "text/turtle", body: containerTurtle(`${POD}b/`, names) },
+      ...notes(POD),
+      ...notes(`${POD}a/`),
+      ...notes(`${POD}b/`),
+    });
+  };
+
+  /** Delay each response — later requests less, so they overtake — and track how many overlap. */
+  function slowFetch(inner: typeof globalThis.fetch) {
+    let started = 0;
+    let inFlight = 0;
+    const stats = { peak: 0 };
+    const fetch = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      inFlight++;
+      stats.peak = Math.max(stats.peak, inFlight);
+      const delay = Math.max(1, 20 - started++);
+      try {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        return await inner(input, init);
+      } finally {
+        inFlight--;
+      }
+    }) as typeof globalThis.fetch;
+    return { fetch, stats };
+  }
+
+  it("overlaps requests up to the per-host bound and returns the sequential order", async () => {
+    const sequential = await search(cfg(orchard().fetch), "apple", { concurrency: 1 });
+    expect(sequential.length).toBe(18);
+    const slow = slowFetch(orchard().fetch);
+    const parallel = await search(cfg(slow.fetch), "apple", { concurrency: 8, perHost: 3 });
+    expect(parallel).toEqual(sequential);
+    expect(slow.stats.peak).toBe(3);
+  });
+
+  it("honours the resource cap exactly, whatever the interleaving", async () => {
+    const slow = slowFetch(orchard().fetch);
+    const tree = await walkTree(cfg(slow.fetch), POD, { maxResources: 11, concurrency: 6 });
+    expect(tree.visited).toBe(11);
+    expect(tree.root.children?.map((c) => c.name)).toEqual([
+      "a/",
+      "b/",
+      ...Array.from({ length: 6 }, (_, i) => `n${i}.ttl`),
+    ]);
+    expect(tree.root.children?.[0]?.children?.map((c) => c.name)).toEqual([
+      "n0.ttl",
+      "n1.ttl",
+      "n2.ttl",
+    ]);
+    expect(tree.root.children?.[1]).toMatchObject({ truncated: true });
+    expect(tree.root.truncated).toBe(true);
+  });
+
+  it("rejects a non-positive bound", async () => {
+    await expect(search(cfg(orchard().fetch), "apple", { perHost: 0 })).rejects.toThrow(
+      /perHost must be a positive integer/,
+    );
+  });
+});
+
+describe("summarizeRdf", () => {
+  const card = [
+    "@prefix foaf: <http://xmlns.com/foaf/0.1/> .",
+    "@prefix schema: <https://schema.org/> .",
+    "@prefix dct: <http://purl.org/dc/terms/> .",
+    "@prefix xsd: <http://www.w3.org/2001/XMLSchema#> .",
+    `<${POD}card> dct:title "Karte"@de, "Card"@en .`,
+    `<${POD}card#me> a foaf:Person ; foaf:name "Alice" ; schema:age 42 ;`,
+    `  foaf:knows <https://bob.example/#me>, <${POD}card#carol> ;`,
+    '  <https://example.org/odd/path#x> "2026-01-01"^^xsd:date .',
+  ].join("\n");
+  const dataset = () => {
+    const pod = makeFakePod({ [`${POD}card`]: { contentType: "text/turtle", body: card } });
+    return readRdf(cfg(pod.fetch), `${POD}card`).then((r) => r.dataset);
+  };
+
+  it("groups by subject as Markdown, with prefixed names and clean literals", async () => {
+    expect(summarizeRdf(await dataset(), `${POD}card`)).toBe(
+      [
+        `# ${POD}card`,
+        "",
+        "## <>",
+        '- dct:title: "Karte" @de; "Card" @en',
+        "",
+        "## <#me> (foaf:Person)",
+        '- foaf:name: "Alice"',
+        "- schema:age: 42",
+        "- foaf:knows: <https://bob.example/#me>; <#carol>",
+        '- <https://example.org/odd/path#x>: "2026-01-01" (xsd:date)',
+        "",
+        "Prefixes: dct: <http://purl.org/dc/terms/>, foaf: <http://xmlns.com/foaf/0.1/>, schema: <https://schema.org/>, xsd: <http://www.w3.org/2001/XMLSchema#>",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("emits compact JSON with typed values", async () => {
+    const summary = JSON.parse(summarizeRdf(await dataset(), `${POD}card`, "json"));
+    expect(summary.base).toBe(`${POD}card`);
+    expect(summary.subjects[1]).toEqual({
+      id: "<#me>",
+      types: ["foaf:Person"],
+      properties: {
+        "foaf:name": ["Alice"],
+        "schema:age": [42],
+        "foaf:knows": [{ id: "<https://bob.example/#me>" }, { id: "<#carol>" }],
+        "<https://example.org/odd/path#x>": [{ value: "2026-01-01", type: "xsd:date" }],
+      },
+    });
+    expect(summary.subjects[0].properties["dct:title"]).toEqual([
+      { text: "Karte", lang: "de" },
+      { text: "Card", lang: "en" },
+    ]);
+  });
+
+  it("keeps the two schema.org namespaces apart in its prefix table", async () => {
+    const pod = makeFakePod({
+      [`${POD}mixed`]: {
+        contentType: "text/turtle",
+        body: `<#a> <https://schema.org/name> "A" ; <http://schema.org/name> "B" .`,
+      },
+    });
+    const { dataset } = await readRdf(cfg(pod.fetch), `${POD}mixed`);
+    const summary = summarizeRdf(dataset, `${POD}mixed`);
+    expect(summary).toContain('- schema:name: "A"\n- schema-http:name: "B"');
+    expect(summary).toContain(
+      "Prefixes: schema: <https://schema.org/>, schema-http: <http://schema.org/>",
+    );
+  });
+});
+
+describe("extractText", () => {
+  const page = [
+    "<!doctype html><html><head><title>Ignored</title><style>p{}</style></head><body>",
+    "<h1>Shopping   &amp; errands</h1>",
+    '<p>Buy <strong>avocados</strong> and <a href="recipes/guac">see the recipe</a>.</p>',
+    "<ul><li>one</li><li>two<ol><li>nested</li></ol></li></ul>",
+    "<script>alert(1)</script><pre>  keep\n    this</pre>",
+    "</body></html>",
+  ].join("\n");
+
+  it("turns HTML into clean text, dropping the head and scripts", () => {
+    expect(extractText(page, "text/html")).toBe(
+      [
+        "Shopping & errands",
+        "",
+        "Buy avocados and see the recipe.",
+        "",
+        "- one",
+        "- two",
+        "  1. nested",
+        "",
+        "  keep\n    this",
+      ].join("\n"),
+    );
+  });
+
+  it("turns HTML into Markdown, resolving links against the base", () => {
+    expect(extractText(page, "text/html", { format: "markdown", base: `${POD}notes/` })).toBe(
+      [
+        "# Shopping & errands",
+        "",
+        `Buy **avocados** and [see the recipe](${POD}notes/recipes/guac).`,
+        "",
+        "- one",
+        "- two",
+        "  1. nested",
+        "",
+        "```",
+        "  keep\n    this",
+        "```",
+      ].join("\n"),
+    );
+  });
+
+  it("strips Markdown front-matter, pretty-prints JSON and passes other text through", () => {
+    expect(extractText("---\ntitle: x\ntags: [a]\n---\n\n# Notes\n", "text/markdown")).toBe(
+      "# Notes\n",
+    );
+    expect(extractText("\uFEFF+++\ntitle = 'x'\n+++\n# Notes\n", "text/markdown")).toBe(
+      "# Notes\n",
+    );
+    expect(extractText('{"a":[1,{"b":true}]}', "application/json")).toBe(
+      '{\n  "a": [\n    1,\n    {\n      "b": true\n    }\n  ]\n}',
+    );
+    expect(extractText("{not json", "application/json")).toBe("{not json");
+    expect(extractText("plain --- text", "text/plain")).toBe("plain --- text");
+  });
+});
+
 describe("search", () => {
   it("finds matches by resource name via a container scan", async () => {
     const pod = makeFakePod({
@@ -243,6 +775,38 @@ describe("search", () => {
     expect(hit?.snippet).toContain("avocados");
   });
 
+  it("finds matches in the extracted text of HTML and Markdown documents, not their markup", async () => {
+    const pod = makeFakePod({
+      [POD]: {
+        contentType: "text/turtle",
+        body: containerTurtle(POD, [
+          { name: "page.html" },
+          { name: "notes.md" },
+          { name: "photo.png", mimeType: "image/png" },
+        ]),
+      },
+      [`${POD}page.html`]: {
+        contentType: "text/html",
+        body: '<html><head><title>Strong</title></head><body><p class="strong">Buy <em>avocados</em></p></body></html>',
+      },
+      [`${POD}notes.md`]: {
+        contentType: "text/markdown",
+        body: "---\nsecret: avocado-free\n---\nNothing to see.\n",
+      },
+      [`${POD}photo.png`]: { contentType: "image/png", body: "avocados" },
+    });
+    const hits = await search(cfg(pod.fetch), "avocado");
+    expect(hits).toMatchObject([
+      {
+        url: `${POD}page.html`,
+        name: "page.html",
+        snippet: "text: Buy **avocados**",
+        hits: [{ field: "text", snippet: "Buy **avocados**" }],
+      },
+    ]);
+    expect(await search(cfg(pod.fetch), "strong")).toEqual([]);
+  });
+
   it("recurses into sub-containers up to maxDepth", async () => {
     const pod = makeFakePod({
       [POD]: {
@@ -297,6 +861,152 @@ describe("search", () => {
     expect(await search(cfg(pod.fetch), "   ")).toEqual([]);
   });
 
+  describe("query syntax and ranking", () => {
+    const schema = "http://schema.org/";
+    const kitchen = () =>
+      makeFakePod({
+        [POD]: {
+          contentType: "text/turtle",
+          body: containerTurtle(POD, [
+            { name: "soup.ttl" },
+            { name: "salad.ttl" },
+            { name: "apple-pie.md" },
+          ]),
+        },
+        [`${POD}soup.ttl`]: {
+          contentType: "text/turtle",
+          body: `@prefix s: <${schema}> .
+<#soup> s:name "Tomato soup" ; s:description "A warm tomato soup with basil." .
+<#step> s:text "Chop the tomato." .`,
+        },
+        [`${POD}salad.ttl`]: {
+          contentType: "text/turtle",
+          body: `<#salad> <${schema}name> "Green salad" ; <${schema}description> "Cold, with apple and tomato slices." .`,
+        },
+        [`${POD}apple-pie.md`]: {
+          contentType: "text/markdown",
+          body: "# Apple pie\n\nBake the apple pie until golden. Serve warm.\n",
+        },
+      });
+    const urls = async (query: string) =>
+      (await search(cfg(kitchen().fetch), query)).map((h) => h.url);
+
+    it("requires every word and ranks by score, strongest first", async () => {
+      const hits = await search(cfg(kitchen().fetch), "tomato");
+      expect(hits.map((h) => h.url)).toEqual([`${POD}soup.ttl`, `${POD}salad.ttl`]);
+      expect(hits[0]?.score).toBeGreaterThan(hits[1]?.score ?? 0);
+      expect(await urls("tomato warm")).toEqual([`${POD}soup.ttl`]);
+      expect(await urls("warm")).toContain(`${POD}apple-pie.md`);
+    });
+
+    it("matches a quoted phrase word for word", async () => {
+      expect(await urls('"tomato soup"')).toEqual([`${POD}soup.ttl`]);
+      expect(await urls('"soup tomato"')).toEqual([]);
+    });
+
+    it("drops matches with an excluded word or phrase", async () => {
+      expect(await urls("tomato -cold")).toEqual([`${POD}soup.ttl`]);
+      expect(await urls('apple -"apple pie"')).toEqual([`${POD}salad.ttl`]);
+      expect(await urls("-tomato")).toEqual([]);
+    });
+
+    it("returns several highlighted hits, with the subject and predicate of each literal", async () => {
+      const [soup] = await search(cfg(kitchen().fetch), "tomato");
+      expect(soup?.hits).toHaveLength(3);
+      expect(soup?.hits).toEqual(
+        expect.arrayContaining([
+          {
+            field: "literal",
+            snippet: "**Tomato** soup",
+            subject: `${POD}soup.ttl#soup`,
+            predicate: `${schema}name`,
+          },
+          {
+            field: "literal",
+            snippet: "A warm **tomato** soup with basil.",
+            subject: `${POD}soup.ttl#soup`,
+            predicate: `${schema}description`,
+          },
+          {
+            field: "literal",
+            snippet: "Chop the **tomato**.",
+            subject: `${POD}soup.ttl#step`,
+            predicate: `${schema}text`,
+          },
+        ]),
+      );
+      // A hit covering more of the query comes first.
+      const [both] = await search(cfg(kitchen().fetch), "tomato basil");
+      expect(both?.hits?.[0]?.snippet).toBe("A warm **tomato** soup with **basil**.");
+    });
+  });
+
+  describe("filters", () => {
+    const Recipe = "http://schema.org/Recipe";
+    const filtered = () =>
+      makeFakePod({
+        [POD]: {
+          contentType: "text/turtle",
+          body: containerTurtle(POD, [
+            { name: "plans/", container: true, modified: "2026-03-01T00:00:00Z" },
+            { name: "plan-a.ttl", mimeType: "text/turtle", modified: "2026-01-15T00:00:00Z" },
+            { name: "plan-b.ttl", modified: "2026-02-15T00:00:00Z", types: [Recipe] },
+            { name: "plan.png", mimeType: "image/png", modified: "2026-02-20T00:00:00Z" },
+            { name: "plan.txt" },
+          ]),
+        },
+        [`${POD}plans/`]: { contentType: "text/turtle", body: containerTurtle(`${POD}plans/`, []) },
+        [`${POD}plan-a.ttl`]: {
+          contentType: "text/turtle",
+          body: `<#it> a <${Recipe}> ; <http://schema.org/name> "Soup" .`,
+        },
+        [`${POD}plan-b.ttl`]: { contentType: "text/turtle", body: "" },
+        [`${POD}plan.png`]: { contentType: "image/png", body: "png" },
+        [`${POD}plan.txt`]: { contentType: "text/plain", body: "plan" },
+      });
+    const urls = async (options: Parameters<typeof search>[2]) =>
+      (await search(cfg(filtered().fetch), "plan", options)).map((h) => h.url).sort();
+
+    it("narrows by rdf:type, from the listing or the document's subjects", async () => {
+      expect(await urls({ type: Recipe })).toEqual([`${POD}plan-a.ttl`, `${POD}plan-b.ttl`]);
+    });
+
+    it("narrows by media type or media-type family, excluding unadvertised ones", async () => {
+      expect(await urls({ mimeType: "image/*" })).toEqual([`${POD}plan.png`]);
+      expect(await urls({ mimeType: "text/turtle" })).toEqual([`${POD}plan-a.ttl`]);
+    });
+
+    it("narrows by modified range and by kind", async () => {
+      expect(
+        await urls({ modifiedAfter: "2026-02-01T00:00:00Z", modifiedBefore: "2026-02-28" }),
+      ).toEqual([`${POD}plan-b.ttl`, `${POD}plan.png`]);
+      expect(await urls({ kind: "container" })).toEqual([`${POD}plans/`]);
+      expect(await urls({ kind: "file" })).not.toContain(`${POD}plans/`);
+    });
+
+    it("keeps only the strongest `limit` matches", async () => {
+      const pod = filtered();
+      const all = await search(cfg(pod.fetch), "plan");
+      expect(await search(cfg(pod.fetch), "plan", { limit: 2 })).toEqual(all.slice(0, 2));
+    });
+
+    it("rejects malformed filters", async () => {
+      const pod = filtered();
+      await expect(search(cfg(pod.fetch), "plan", { modifiedAfter: "last week" })).rejects.toThrow(
+        /modifiedAfter must be an ISO 8601 date-time/,
+      );
+      await expect(search(cfg(pod.fetch), "plan", { type: "Recipe" })).rejects.toThrow(
+        /type must be an absolute IRI/,
+      );
+      await expect(search(cfg(pod.fetch), "plan", { mimeType: "image" })).rejects.toThrow(
+        /mimeType must be a media type/,
+      );
+      await expect(search(cfg(pod.fetch), "plan", { limit: 0 })).rejects.toThrow(
+        /limit must be a positive integer/,
+      );
+    });
+  });
+
   it("scope-guards an out-of-pod scope option", async () => {
     const pod = makeFakePod({});
     await expect(search(cfg(pod.fetch), "x", { scope: "https://evil.example/" })).rejects.toThrow(
@@ -412,6 +1122,375 @@ describe("search", () => {
   });
 });
 
+describe("querySparql", () => {
+  const tasks = (title: string, due: string) =>
+    `@prefix schema: <http://schema.org/> .\n<#t> a schema:Action ; schema:name "${title}" ; schema:endTime "${due}" .`;
+  const pod = () =>
+    makeFakePod({
+      [POD]: {
+        contentType: "text/turtle",
+        body: containerTurtle(POD, [
+          { name: "tasks/", container: true },
+          { name: "huge.ttl", size: 5_000_000 },
+          { name: "notes.txt" },
+        ]),
+      },
+      [`${POD}tasks/`]: {
+        contentType: "text/turtle",
+        body: containerTurtle(`${POD}tasks/`, [{ name: "a.ttl" }, { name: "b.ttl" }]),
+      },
+      [`${POD}tasks/a.ttl`]: { contentType: "text/turtle", body: tasks("Dentist", "2026-10-20") },
+      [`${POD}tasks/b.ttl`]: { contentType: "text/turtle", body: tasks("Taxes", "2026-12-01") },
+      [`${POD}huge.ttl`]: { contentType: "text/turtle", body: tasks("Never read", "2026-01-01") },
+      [`${POD}notes.txt`]: { contentType: "text/plain", body: "not RDF" },
+    });
+
+  it("runs a SELECT over the crawled documents, each in a named graph", async () => {
+    const rec = recordingFetch(pod().fetch);
+    const result = await querySparql(
+      cfg(rec.fetch),
+      `PREFIX schema: <http://schema.org/>
+       SELECT ?name ?g WHERE { GRAPH ?g { ?t schema:name ?name ; schema:endTime ?due } FILTER(?due < "2026-11-01") }`,
+    );
+    expect(result.json).toEqual({
+      head: { vars: ["name", "g"] },
+      results: {
+        bindings: [
+          {
+            name: { type: "literal", value: "Dentist" },
+            g: { type: "uri", value: `${POD}tasks/a.ttl` },
+          },
+        ],
+      },
+    });
+    expect(result.sources).toEqual([`${POD}tasks/a.ttl`, `${POD}tasks/b.ttl`]);
+    expect(result.skipped).toEqual([`${POD}huge.ttl`]);
+    expect(result.truncated).toBe(false);
+    expect(rec.urls).not.toContain(`${POD}huge.ttl`);
+    expect(rec.urls).not.toContain(`${POD}notes.txt`);
+  });
+
+  it("answers ASK and CONSTRUCT, and refuses updates and remote sources", async () => {
+    const config = cfg(pod().fetch);
+    const ask = await querySparql(config, 'ASK { ?t <http://schema.org/name> "Taxes" }');
+    expect(ask.json).toEqual({ head: {}, boolean: true });
+    const graph = await querySparql(
+      config,
+      "CONSTRUCT { ?t <http://schema.org/name> ?n } WHERE { ?t <http://schema.org/name> ?n }",
+      { scope: `${POD}tasks/` },
+    );
+    expect(graph.dataset?.size).toBe(2);
+    await expect(querySparql(config, 'INSERT DATA { <#x> <#p> "y" }')).rejects.toThrow(
+      /only SELECT, ASK, CONSTRUCT and DESCRIBE/,
+    );
+    await expect(querySparql(config, "SELECT * WHERE { ?s ?p }")).rejects.toThrow(
+      /invalid SPARQL query/,
+    );
+    const rec = recordingFetch(pod().fetch);
+    await expect(
+      querySparql(
+        cfg(rec.fetch),
+        "SELECT * WHERE { SERVICE <https://evil.example/sparql> { ?s ?p ?o } }",
+      ),
+    ).rejects.toThrow(/invalid SPARQL query/);
+    expect(rec.urls.some((u) => u.includes("evil.example"))).toBe(false);
+  });
+
+  it("queries what it collected before the timeout, marked truncated", async () => {
+    const inner = pod().fetch;
+    const slow = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (String(input).endsWith("b.ttl")) {
+        await new Promise((_, reject) =>
+          init?.signal?.addEventListener("abort", () => reject(init.signal?.reason)),
+        );
+      }
+      return inner(input, init);
+    }) as typeof fetch;
+    const result = await querySparql(
+      cfg(slow),
+      "SELECT ?n WHERE { ?t <http://schema.org/name> ?n }",
+      {
+        timeoutMs: 200,
+      },
+    );
+    expect(result.truncated).toBe(true);
+    expect(result.sources).toEqual([`${POD}tasks/a.ttl`]);
+    expect(result.skipped).toContain(`${POD}tasks/b.ttl`);
+    expect(result.json?.results?.bindings).toEqual([{ n: { type: "literal", value: "Dentist" } }]);
+  });
+
+  it("aborts a container listing that outlasts the timeout", async () => {
+    const inner = pod().fetch;
+    const hanging = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (String(input) === `${POD}tasks/`) {
+        await new Promise((_, reject) =>
+          init?.signal?.addEventListener("abort", () => reject(init.signal?.reason)),
+        );
+      }
+      return inner(input, init);
+    }) as typeof fetch;
+    const result = await querySparql(cfg(hanging), "ASK { ?s ?p ?o }", { timeoutMs: 200 });
+    expect(result.truncated).toBe(true);
+    expect(result.sources).toEqual([]);
+  });
+
+  it("skips a document that turns out larger than maxBytes when the listing gave no size", async () => {
+    const big = `@prefix schema: <http://schema.org/> .\n${Array.from(
+      { length: 50 },
+      (_, i) => `<#t${i}> schema:name "Task ${i}" .`,
+    ).join("\n")}`;
+    const fetch = makeFakePod({
+      [`${POD}tasks/`]: {
+        contentType: "text/turtle",
+        body: containerTurtle(`${POD}tasks/`, [{ name: "a.ttl" }, { name: "big.ttl" }]),
+      },
+      [`${POD}tasks/a.ttl`]: { contentType: "text/turtle", body: tasks("Dentist", "2026-10-20") },
+      [`${POD}tasks/big.ttl`]: { contentType: "text/turtle", body: big },
+    }).fetch;
+    const result = await querySparql(
+      cfg(fetch, { maxBytes: 500 }),
+      "SELECT ?n WHERE { ?t <http://schema.org/name> ?n }",
+      { scope: `${POD}tasks/` },
+    );
+    expect(big.length).toBeGreaterThan(500);
+    expect(result.sources).toEqual([`${POD}tasks/a.ttl`]);
+    expect(result.skipped).toEqual([`${POD}tasks/big.ttl`]);
+    expect(result.json?.results?.bindings).toEqual([{ n: { type: "literal", value: "Dentist" } }]);
+  });
+
+  it("throws when the scope itself cannot be listed", async () => {
+    await expect(
+      querySparql(cfg(pod().fetch), "ASK { ?s ?p ?o }", { scope: `${POD}missing/` }),
+    ).rejects.toThrow(/404/);
+  });
+
+  it("reports a sub-container it could not list, marked truncated", async () => {
+    const inner = pod().fetch;
+    const locked = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (String(input) === `${POD}tasks/`) {
+        return new Response("no", { status: 403, statusText: "Forbidden" });
+      }
+      return inner(input, init);
+    }) as typeof fetch;
+    const result = await querySparql(cfg(locked), "ASK { ?s ?p ?o }");
+    expect(result.failed).toEqual([`${POD}tasks/`]);
+    expect(result.truncated).toBe(true);
+    expect(result.sources).toEqual([]);
+  });
+});
+
+describe("reindex + indexed search", () => {
+  const notes = `@prefix schema: <http://schema.org/> .\n<#n> schema:text "Buy avocados today" .`;
+  const listing = (modified: string) =>
+    containerTurtle(POD, [
+      { name: "note.ttl", modified },
+      { name: "page.html", modified },
+      { name: "docs/", container: true },
+    ]);
+  const resources = () => ({
+    [POD]: { contentType: "text/turtle", body: listing("2026-01-01T00:00:00Z") },
+    [`${POD}note.ttl`]: { contentType: "text/turtle", body: notes },
+    [`${POD}page.html`]: {
+      contentType: "text/html",
+      body: "<h1>Garden plans</h1><p>Plant avocado pits in spring.</p>",
+    },
+    [`${POD}docs/deep/guide.md`]: {
+      contentType: "text/markdown",
+      body: "# Guide\n\nKeep the avocado seedlings warm.\n",
+      etag: '"g1"',
+    },
+  });
+  const withIndex = async (run: (indexPath: string) => Promise<void>) => {
+    const dir = await mkdtemp(join(tmpdir(), "solid-mcp-index-"));
+    try {
+      await run(join(dir, "index.json"));
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  };
+
+  it("indexes names, literals and document text, and answers search without fetching", async () => {
+    await withIndex(async (indexPath) => {
+      const pod = makeFakePod(resources());
+      const result = await reindex(cfg(pod.fetch, { indexPath }));
+      expect(result).toEqual({
+        path: indexPath,
+        indexed: 5,
+        updated: 3,
+        reused: 0,
+        removed: 0,
+        truncated: false,
+      });
+      const stored = JSON.parse(await readFile(indexPath, "utf8"));
+      expect(stored.podRoot).toBe(POD);
+
+      const rec = recordingFetch(pod.fetch);
+      const hits = await search(cfg(rec.fetch, { indexPath }), "avocado");
+      expect(rec.urls).toEqual([]);
+      expect(hits).toHaveLength(3);
+      expect(hits).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            url: `${POD}note.ttl`,
+            snippet: "literal: Buy **avocados** today",
+            hits: [
+              {
+                field: "literal",
+                snippet: "Buy **avocados** today",
+                subject: `${POD}note.ttl#n`,
+                predicate: "http://schema.org/text",
+              },
+            ],
+          }),
+          expect.objectContaining({
+            url: `${POD}page.html`,
+            snippet: "text: Garden plans Plant **avocado** pits in spring.",
+          }),
+          expect.objectContaining({
+            url: `${POD}docs/deep/guide.md`,
+            snippet: "text: # Guide Keep the **avocado** seedlings warm.",
+          }),
+        ]),
+      );
+      // Every word must match; names rank first; scope and maxDepth narrow it.
+      expect(
+        (await search(cfg(pod.fetch, { indexPath }), "garden spring")).map((h) => h.url),
+      ).toEqual([`${POD}page.html`]);
+      expect(
+        (await search(cfg(pod.fetch, { indexPath }), '"plant avocado"')).map((h) => h.url),
+      ).toEqual([`${POD}page.html`]);
+      expect(
+        (await search(cfg(pod.fetch, { indexPath }), "avocado -spring -seedlings")).map(
+          (h) => h.url,
+        ),
+      ).toEqual([`${POD}note.ttl`]);
+      expect((await search(cfg(pod.fetch, { indexPath }), "guide")).map((h) => h.snippet)).toEqual([
+        "name/url match",
+      ]);
+      expect(
+        (await search(cfg(pod.fetch, { indexPath }), "avocado", { scope: `${POD}docs/` })).map(
+          (h) => h.url,
+        ),
+      ).toEqual([`${POD}docs/deep/guide.md`]);
+      expect(
+        await search(cfg(pod.fetch, { indexPath }), "avocado", {
+          scope: `${POD}docs/`,
+          maxDepth: 0,
+        }),
+      ).toEqual([]);
+    });
+  });
+
+  it("applies the search filters to indexed resources", async () => {
+    await withIndex(async (indexPath) => {
+      const pod = makeFakePod({
+        ...resources(),
+        [POD]: {
+          contentType: "text/turtle",
+          body: containerTurtle(POD, [
+            { name: "note.ttl", mimeType: "text/turtle", modified: "2026-01-01T00:00:00Z" },
+            { name: "page.html", modified: "2026-03-01T00:00:00Z" },
+            { name: "docs/", container: true },
+          ]),
+        },
+        [`${POD}note.ttl`]: {
+          contentType: "text/turtle",
+          body: `<#n> a <http://schema.org/Note> ; <http://schema.org/text> "Buy avocados" .`,
+        },
+      });
+      await reindex(cfg(pod.fetch, { indexPath }));
+      const urls = async (options: Parameters<typeof search>[2]) =>
+        (await search(cfg(pod.fetch, { indexPath }), "avocado", options)).map((h) => h.url);
+      expect(await urls({ type: "http://schema.org/Note" })).toEqual([`${POD}note.ttl`]);
+      expect(await urls({ mimeType: "text/*" })).toEqual([`${POD}note.ttl`]);
+      expect(await urls({ modifiedAfter: "2026-02-01T00:00:00Z" })).toEqual([`${POD}page.html`]);
+      expect(await urls({ kind: "container" })).toEqual([]);
+      expect(await urls({ limit: 1 })).toEqual((await urls({})).slice(0, 1));
+    });
+  });
+
+  it("refreshes incrementally by modified time and ETag, dropping removed resources", async () => {
+    await withIndex(async (indexPath) => {
+      const served = resources();
+      const pod = makeFakePod(served);
+      await reindex(cfg(pod.fetch, { indexPath }));
+
+      // Unchanged: the listed modified times skip the RDF and HTML; the
+      // Markdown (listed without one) costs a HEAD whose ETag still matches.
+      const rec = recordingFetch(pod.fetch);
+      const again = await reindex(cfg(rec.fetch, { indexPath }));
+      expect(again).toMatchObject({ indexed: 5, updated: 0, reused: 3, removed: 0 });
+      expect(rec.urls).not.toContain(`${POD}note.ttl`);
+      expect(rec.urls).not.toContain(`${POD}page.html`);
+
+      // A newer modified time re-reads that resource; a deleted one is dropped.
+      await pod.fetch(`${POD}docs/deep/guide.md`, { method: "DELETE" });
+      const changed = makeFakePod({
+        ...served,
+        [POD]: {
+          contentType: "text/turtle",
+          body: containerTurtle(POD, [
+            { name: "note.ttl", modified: "2026-02-01T00:00:00Z" },
+            { name: "page.html", modified: "2026-01-01T00:00:00Z" },
+          ]),
+        },
+        [`${POD}note.ttl`]: { contentType: "text/turtle", body: '<#n> <#p> "Mangoes instead" .' },
+      });
+      const refreshed = await reindex(cfg(changed.fetch, { indexPath }));
+      expect(refreshed).toMatchObject({ indexed: 2, updated: 1, reused: 1, removed: 3 });
+      expect(await search(cfg(changed.fetch, { indexPath }), "avocados")).toEqual([]);
+      expect((await search(cfg(changed.fetch, { indexPath }), "mango")).map((h) => h.url)).toEqual([
+        `${POD}note.ttl`,
+      ]);
+    });
+  });
+
+  it("writes the index owner-only, and concurrent reindexes do not collide", async () => {
+    await withIndex(async (indexPath) => {
+      const pod = makeFakePod(resources());
+      const config = cfg(pod.fetch, { indexPath });
+      await Promise.all([reindex(config), reindex(config)]);
+      expect((await stat(indexPath)).mode & 0o777).toBe(0o600);
+      expect(await readdir(dirname(indexPath))).toEqual(["index.json"]);
+    });
+  });
+
+  it("keeps the entries of a container it could not list", async () => {
+    await withIndex(async (indexPath) => {
+      const served = resources();
+      await reindex(cfg(makeFakePod(served).fetch, { indexPath }));
+      const broken = makeFakePod({
+        ...served,
+        [`${POD}docs/`]: { contentType: "text/plain", body: "nope", status: 500 },
+      });
+      const result = await reindex(cfg(broken.fetch, { indexPath }));
+      expect(result).toMatchObject({ truncated: true, removed: 0 });
+      expect(
+        (await search(cfg(broken.fetch, { indexPath }), "seedlings")).map((h) => h.url),
+      ).toEqual([`${POD}docs/deep/guide.md`]);
+    });
+  });
+
+  it("crawls when there is no index for this pod, and refuses reindex without indexPath", async () => {
+    await withIndex(async (indexPath) => {
+      const served = resources();
+      await reindex(cfg(makeFakePod(served).fetch, { indexPath }));
+      const other = makeFakePod({
+        "https://bob.example/": {
+          contentType: "text/turtle",
+          body: containerTurtle("https://bob.example/", [{ name: "avocado.txt" }]),
+        },
+        "https://bob.example/avocado.txt": { contentType: "text/plain", body: "" },
+      });
+      const hits = await search(
+        { fetch: other.fetch, podRoot: "https://bob.example/", indexPath },
+        "avocado",
+      );
+      expect(hits.map((h) => h.url)).toEqual(["https://bob.example/avocado.txt"]);
+    });
+    await expect(reindex(cfg(makeFakePod({}).fetch))).rejects.toThrow(/no indexPath configured/);
+  });
+});
 describe("writeResource", () => {
   it("THROWS when read-only by default", async () => {
     const pod = makeFakePod({});
@@ -523,3 +1602,1348 @@ describe("writeResource", () => {
     expect(requests.map((r) => r.url)).not.toContain("https://evil.example/sink");
   });
 });
+
+describe("writeResource — optimistic concurrency", () => {
+  function versionedPod() {
+    return makeFakePod({
+      [`${POD}doc.ttl`]: { contentType: "text/turtle", body: "", etag: '"v1"' },
+    });
+  }
+
+  it("sends If-Match and succeeds when the ETag still matches", async () => {
+    const pod = versionedPod();
+    let sent: Headers | undefined;
+    const spy = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (init?.method === "PUT") sent = new Headers(init.headers);
+      return pod.fetch(input, init);
+    }) as typeof fetch;
+    const r = await writeResource(
+      cfg(spy, { readOnly: false }),
+      `${POD}doc.ttl`,
+      "x",
+      "text/turtle",
+      {
+        ifMatch: '"v1"',
+      },
+    );
+    expect(r.etag).toBe('"new"');
+    expect(sent?.get("if-match")).toBe('"v1"');
+    expect(pod.puts.length).toBe(1);
+  });
+
+  it("reports a 412 as 'changed since you read it' with the current ETag", async () => {
+    const pod = versionedPod();
+    await expect(
+      writeResource(cfg(pod.fetch, { readOnly: false }), `${POD}doc.ttl`, "x", "text/turtle", {
+        ifMatch: '"stale"',
+      }),
+    ).rejects.toThrow(/precondition failed \(412\).*changed since you read it.*current etag "v1"/s);
+    expect(pod.puts.length).toBe(0);
+  });
+
+  it("falls back to a HEAD for the current ETag when the 412 carries none", async () => {
+    const requests: string[] = [];
+    const conflicting = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+      requests.push(init?.method ?? "GET");
+      if (init?.method === "PUT") return new Response(null, { status: 412 });
+      return new Response(null, { status: 200, headers: { etag: '"v9"' } });
+    }) as typeof fetch;
+    await expect(
+      writeResource(cfg(conflicting, { readOnly: false }), `${POD}doc.ttl`, "x", "text/turtle", {
+        ifMatch: '"v1"',
+      }),
+    ).rejects.toThrow(/current etag "v9"/);
+    expect(requests).toEqual(["PUT", "HEAD"]);
+  });
+
+  it("createOnly (If-None-Match: *) refuses to overwrite an existing resource", async () => {
+    const pod = versionedPod();
+    const config = cfg(pod.fetch, { readOnly: false });
+    await expect(
+      writeResource(config, `${POD}doc.ttl`, "x", "text/turtle", { ifNoneMatch: "*" }),
+    ).rejects.toThrow(/precondition failed \(412\).*already exists/);
+    await writeResource(config, `${POD}fresh.ttl`, "x", "text/turtle", { ifNoneMatch: "*" });
+    expect(pod.puts.map((p) => p.url)).toEqual([`${POD}fresh.ttl`]);
+  });
+
+  it("rejects ifMatch together with ifNoneMatch", async () => {
+    const pod = versionedPod();
+    await expect(
+      writeResource(cfg(pod.fetch, { readOnly: false }), `${POD}doc.ttl`, "x", "text/turtle", {
+        ifMatch: '"v1"',
+        ifNoneMatch: "*",
+      }),
+    ).rejects.toThrow(/mutually exclusive/);
+    expect(pod.writes.length).toBe(0);
+  });
+});
+
+describe("writeResource — binary uploads", () => {
+  it("decodes a base64 body to bytes before the PUT", async () => {
+    let sent: unknown;
+    const capturing = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+      sent = init?.body;
+      return new Response(null, { status: 201 });
+    }) as typeof fetch;
+    const png = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+    await writeResource(
+      cfg(capturing, { readOnly: false }),
+      `${POD}img.png`,
+      Buffer.from(png).toString("base64"),
+      "image/png",
+      { encoding: "base64" },
+    );
+    expect(sent).toBeInstanceOf(Uint8Array);
+    expect([...(sent as Uint8Array)]).toEqual([...png]);
+  });
+
+  it("round-trips a binary body read back as base64", async () => {
+    const pod = makeFakePod({});
+    const config = cfg(pod.fetch, { readOnly: false });
+    await writeResource(config, `${POD}a.bin`, Buffer.from("BIN").toString("base64"), "image/png", {
+      encoding: "base64",
+    });
+    expect((await readResource(config, `${POD}a.bin`)).base64).toBe(
+      Buffer.from("BIN").toString("base64"),
+    );
+  });
+
+  it("rejects malformed base64 instead of uploading garbage", async () => {
+    const pod = makeFakePod({});
+    await expect(
+      writeResource(
+        cfg(pod.fetch, { readOnly: false }),
+        `${POD}a.bin`,
+        "not base64!",
+        "image/png",
+        {
+          encoding: "base64",
+        },
+      ),
+    ).rejects.toThrow(/not valid base64/);
+    expect(pod.writes.length).toBe(0);
+  });
+
+  it("enforces maxUploadBytes on the decoded body", async () => {
+    const pod = makeFakePod({});
+    const config = cfg(pod.fetch, { readOnly: false, maxUploadBytes: 4 });
+    await expect(
+      writeResource(config, `${POD}a.bin`, Buffer.from("12345").toString("base64"), "image/png", {
+        encoding: "base64",
+      }),
+    ).rejects.toThrow(/5 bytes, over the 4-byte upload limit/);
+    await expect(writeResource(config, `${POD}a.txt`, "12345", "text/plain")).rejects.toThrow(
+      /upload limit/,
+    );
+    await writeResource(config, `${POD}a.txt`, "1234", "text/plain");
+    expect(pod.puts.length).toBe(1);
+  });
+});
+
+describe("patchResource", () => {
+  const Me = `${POD}profile/card`;
+  const insert = parseTurtle(`<#me> <http://xmlns.com/foaf/0.1/nick> "ali" .`, Me);
+  const del = parseTurtle(`<#me> <http://xmlns.com/foaf/0.1/nick> "al\\"ice" .`, Me);
+
+  it("THROWS when read-only by default", async () => {
+    const pod = makeFakePod({});
+    await expect(patchResource(cfg(pod.fetch), Me, { insert })).rejects.toThrow(
+      /write disabled.*read-only/,
+    );
+    expect(pod.writes.length).toBe(0);
+  });
+
+  it("sends an N3 Patch (solid:InsertDeletePatch) by default", async () => {
+    const pod = makeFakePod({});
+    const r = await patchResource(cfg(pod.fetch, { readOnly: false }), Me, {
+      insert,
+      delete: del,
+    });
+    expect(r).toEqual({ url: Me, etag: '"patched"' });
+    expect(pod.writes.length).toBe(1);
+    const sent = pod.writes[0];
+    expect(sent?.method).toBe("PATCH");
+    expect(sent?.contentType).toBe("text/n3");
+    expect(sent?.body).toContain("solid:InsertDeletePatch");
+    expect(sent?.body).toMatch(
+      /solid:inserts \{\n<https:\/\/alice\.example\/pod\/profile\/card#me> <http:\/\/xmlns\.com\/foaf\/0\.1\/nick> "ali" \.\n\s*\}/,
+    );
+    // The literal is escaped by n3.Writer, not concatenated verbatim.
+    expect(sent?.body).toContain("solid:deletes {\n<https://alice.example/pod/profile/card#me>");
+    expect(sent?.body).toContain('"al\\"ice"');
+  });
+
+  it("round-trips: the N3 Patch body parses back to the same triples", async () => {
+    const pod = makeFakePod({});
+    await patchResource(cfg(pod.fetch, { readOnly: false }), Me, { insert });
+    const parsed = new Parser({ format: "text/n3" }).parse(pod.writes[0]?.body ?? "");
+    // 1 type triple + 1 inserts triple + the formula's inner triple.
+    expect(parsed.some((q) => q.object.value === "ali")).toBe(true);
+    expect(parsed.some((q) => q.predicate.value.endsWith("#inserts"))).toBe(true);
+    expect(parsed.some((q) => q.predicate.value.endsWith("#deletes"))).toBe(false);
+  });
+
+  it("sends a SPARQL Update when format is sparql-update", async () => {
+    const pod = makeFakePod({});
+    await patchResource(cfg(pod.fetch, { readOnly: false }), Me, {
+      insert,
+      delete: del,
+      format: "sparql-update",
+    });
+    const sent = pod.writes[0];
+    expect(sent?.contentType).toBe("application/sparql-update");
+    expect(sent?.body.indexOf("DELETE DATA {")).toBe(0);
+    expect(sent?.body).toContain(";\nINSERT DATA {\n<https://alice.example/pod/profile/card#me>");
+  });
+
+  it("refuses an empty patch", async () => {
+    const pod = makeFakePod({});
+    await expect(patchResource(cfg(pod.fetch, { readOnly: false }), Me, {})).rejects.toThrow(
+      /nothing to patch/,
+    );
+    expect(pod.writes.length).toBe(0);
+  });
+
+  it("refuses blank nodes in the triples to delete", async () => {
+    const pod = makeFakePod({});
+    await expect(
+      patchResource(cfg(pod.fetch, { readOnly: false }), Me, {
+        delete: parseTurtle('[] <http://xmlns.com/foaf/0.1/nick> "x" .', Me),
+      }),
+    ).rejects.toThrow(/blank nodes/);
+    expect(pod.writes.length).toBe(0);
+  });
+
+  it("scope-guards the url and refuses the pod root", async () => {
+    const pod = makeFakePod({});
+    const config = cfg(pod.fetch, { readOnly: false });
+    await expect(patchResource(config, "https://evil.example/x", { insert })).rejects.toThrow(
+      /pod-scope violation/,
+    );
+    await expect(patchResource(config, POD, { insert })).rejects.toThrow(/pod-scope violation/);
+    expect(pod.writes.length).toBe(0);
+  });
+
+  it("REFUSES to follow a redirect on a patch (redirect SSRF)", async () => {
+    const redirecting = (async () =>
+      new Response(null, {
+        status: 307,
+        headers: { location: "https://evil.example/sink" },
+      })) as typeof fetch;
+    await expect(
+      patchResource(cfg(redirecting, { readOnly: false }), Me, { insert }),
+    ).rejects.toThrow(/refusing to follow a redirect \(307\) on a patch/);
+  });
+
+  it("fails closed on a 403 patch", async () => {
+    const denying = (async () =>
+      new Response("no", { status: 403, statusText: "Forbidden" })) as typeof fetch;
+    await expect(patchResource(cfg(denying, { readOnly: false }), Me, { insert })).rejects.toThrow(
+      /unauthenticated\/forbidden \(403\) patching/,
+    );
+  });
+});
+
+describe("createResource", () => {
+  function notesPod() {
+    return makeFakePod({
+      [`${POD}notes/`]: { contentType: "text/turtle", body: containerTurtle(`${POD}notes/`, []) },
+    });
+  }
+
+  it("THROWS when read-only by default", async () => {
+    const pod = notesPod();
+    await expect(createResource(cfg(pod.fetch), `${POD}notes/`, "x", "text/plain")).rejects.toThrow(
+      /write disabled.*read-only/,
+    );
+    expect(pod.writes.length).toBe(0);
+  });
+
+  it("POSTs with a Slug and returns the resolved Location", async () => {
+    const pod = notesPod();
+    const r = await createResource(
+      cfg(pod.fetch, { readOnly: false }),
+      `${POD}notes/`,
+      "hello",
+      "text/plain",
+      { slug: "memo.txt" },
+    );
+    expect(r.url).toBe(`${POD}notes/memo.txt`);
+    expect(pod.writes[0]?.method).toBe("POST");
+    expect(pod.writes[0]?.url).toBe(`${POD}notes/`);
+    expect(pod.writes[0]?.body).toBe("hello");
+    expect((await readResource(cfg(pod.fetch), r.url)).text).toBe("hello");
+  });
+
+  it("creates a sub-container via the ldp:BasicContainer Link type", async () => {
+    const pod = notesPod();
+    let link: string | null = null;
+    const spy = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      link = new Headers(init?.headers).get("link");
+      return pod.fetch(input, init);
+    }) as typeof fetch;
+    const r = await createResource(
+      cfg(spy, { readOnly: false }),
+      `${POD}notes/`,
+      "",
+      "text/turtle",
+      {
+        slug: "2024",
+        asContainer: true,
+      },
+    );
+    expect(r.url).toBe(`${POD}notes/2024/`);
+    expect(link).toBe('<http://www.w3.org/ns/ldp#BasicContainer>; rel="type"');
+  });
+
+  it("may create directly under the pod root, but not via its slashless alias", async () => {
+    const pod = makeFakePod({});
+    const config = cfg(pod.fetch, { readOnly: false });
+    expect((await createResource(config, POD, "x", "text/plain", { slug: "top" })).url).toBe(
+      `${POD}top`,
+    );
+    await expect(createResource(config, POD.slice(0, -1), "x", "text/plain")).rejects.toThrow(
+      /not a container URL/,
+    );
+  });
+
+  it("scope-guards the container", async () => {
+    const pod = makeFakePod({});
+    await expect(
+      createResource(
+        cfg(pod.fetch, { readOnly: false }),
+        "https://evil.example/",
+        "x",
+        "text/plain",
+      ),
+    ).rejects.toThrow(/pod-scope violation/);
+    expect(pod.writes.length).toBe(0);
+  });
+
+  it("REJECTS a Location the server placed outside the pod", async () => {
+    const rogue = (async () =>
+      new Response(null, {
+        status: 201,
+        headers: { location: "https://evil.example/planted" },
+      })) as typeof fetch;
+    await expect(
+      createResource(cfg(rogue, { readOnly: false }), `${POD}notes/`, "x", "text/plain"),
+    ).rejects.toThrow(/pod-scope violation.*outside the pod/);
+  });
+
+  it("fails when the server returns no Location", async () => {
+    const silent = (async () => new Response(null, { status: 201 })) as typeof fetch;
+    await expect(
+      createResource(cfg(silent, { readOnly: false }), `${POD}notes/`, "x", "text/plain"),
+    ).rejects.toThrow(/no Location/);
+  });
+});
+
+describe("deleteResource", () => {
+  /** notes/ holds a file and a sub-container with one file of its own. */
+  function treePod(
+    extra: Record<string, { contentType: string; body: string; status?: number }> = {},
+  ) {
+    return makeFakePod({
+      [`${POD}notes/`]: {
+        contentType: "text/turtle",
+        body: containerTurtle(`${POD}notes/`, [
+          { name: "a.txt" },
+          { name: "2024/", container: true },
+        ]),
+      },
+      [`${POD}notes/a.txt`]: { contentType: "text/plain", body: "a" },
+      [`${POD}notes/2024/`]: {
+        contentType: "text/turtle",
+        body: containerTurtle(`${POD}notes/2024/`, [{ name: "b.txt" }]),
+      },
+      [`${POD}notes/2024/b.txt`]: { contentType: "text/plain", body: "b" },
+      ...extra,
+    });
+  }
+
+  it("THROWS when read-only by default", async () => {
+    const pod = treePod();
+    await expect(deleteResource(cfg(pod.fetch), `${POD}notes/a.txt`)).rejects.toThrow(
+      /write disabled.*read-only/,
+    );
+    expect(pod.writes.length).toBe(0);
+  });
+
+  it("DELETEs a single resource", async () => {
+    const pod = treePod();
+    const r = await deleteResource(cfg(pod.fetch, { readOnly: false }), `${POD}notes/a.txt`);
+    expect(r).toEqual({ urls: [`${POD}notes/a.txt`], dryRun: false });
+    expect(pod.writes.map((w) => `${w.method} ${w.url}`)).toEqual([`DELETE ${POD}notes/a.txt`]);
+  });
+
+  it("refuses a non-empty container unless recursive", async () => {
+    const pod = treePod();
+    await expect(
+      deleteResource(cfg(pod.fetch, { readOnly: false }), `${POD}notes/`),
+    ).rejects.toThrow(/not empty.*recursive/);
+    expect(pod.writes.length).toBe(0);
+  });
+
+  it("deletes a container subtree bottom-up when recursive", async () => {
+    const pod = treePod();
+    const r = await deleteResource(cfg(pod.fetch, { readOnly: false }), `${POD}notes/`, {
+      recursive: true,
+    });
+    const order = [
+      `${POD}notes/a.txt`,
+      `${POD}notes/2024/b.txt`,
+      `${POD}notes/2024/`,
+      `${POD}notes/`,
+    ];
+    expect(r.urls).toEqual(order);
+    expect(pod.writes.map((w) => w.url)).toEqual(order);
+  });
+
+  it("dryRun returns the full plan and deletes nothing", async () => {
+    const pod = treePod();
+    const r = await deleteResource(cfg(pod.fetch, { readOnly: false }), `${POD}notes/`, {
+      recursive: true,
+      dryRun: true,
+    });
+    expect(r.dryRun).toBe(true);
+    expect(r.urls).toHaveLength(4);
+    expect(r.urls.at(-1)).toBe(`${POD}notes/`);
+    expect(pod.writes.length).toBe(0);
+  });
+
+  it("deletes an approved plan only while the tree still matches it", async () => {
+    const pod = treePod();
+    const config = cfg(pod.fetch, { readOnly: false });
+    const { urls } = await deleteResource(config, `${POD}notes/`, {
+      recursive: true,
+      dryRun: true,
+    });
+    await expect(
+      deleteResource(config, `${POD}notes/`, { recursive: true, plan: urls.slice(1) }),
+    ).rejects.toThrow(/changed since the plan was approved \(now 4 .*approved 3\)/);
+    expect(pod.writes.length).toBe(0);
+    const r = await deleteResource(config, `${POD}notes/`, { recursive: true, plan: urls });
+    expect(r.urls).toEqual(urls);
+  });
+
+  it("stops at the first failure and reports what was already deleted", async () => {
+    const pod = treePod();
+    const failing = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (init?.method === "DELETE" && String(input).endsWith("b.txt")) {
+        return new Response("no", { status: 500, statusText: "Internal Server Error" });
+      }
+      return pod.fetch(input, init);
+    }) as typeof fetch;
+    await expect(
+      deleteResource(cfg(failing, { readOnly: false }), `${POD}notes/`, { recursive: true }),
+    ).rejects.toThrow(/HTTP 500.*stopped after deleting 1 of 4: .*notes\/a\.txt/s);
+    // Nothing after the failed step was attempted.
+    expect(pod.writes.map((w) => w.url)).toEqual([`${POD}notes/a.txt`]);
+  });
+
+  it("never follows a poisoned listing entry outside the container being deleted", async () => {
+    const pod = makeFakePod({
+      [`${POD}notes/`]: {
+        contentType: "text/turtle",
+        body: poisonedContainerTurtle(`${POD}notes/`, [`${POD}notes/a.txt`, `${POD}keep.txt`]),
+      },
+      [`${POD}notes/a.txt`]: { contentType: "text/plain", body: "a" },
+      [`${POD}keep.txt`]: { contentType: "text/plain", body: "keep" },
+    });
+    const r = await deleteResource(cfg(pod.fetch, { readOnly: false }), `${POD}notes/`, {
+      recursive: true,
+    });
+    expect(r.urls).toEqual([`${POD}notes/a.txt`, `${POD}notes/`]);
+    expect(pod.writes.map((w) => w.url)).not.toContain(`${POD}keep.txt`);
+  });
+
+  it("refuses the pod root and out-of-pod targets", async () => {
+    const pod = treePod();
+    const config = cfg(pod.fetch, { readOnly: false });
+    await expect(deleteResource(config, POD, { recursive: true })).rejects.toThrow(
+      /pod-scope violation/,
+    );
+    await expect(deleteResource(config, "https://evil.example/x")).rejects.toThrow(
+      /pod-scope violation/,
+    );
+    expect(pod.writes.length).toBe(0);
+  });
+});
+
+describe("copyResource / moveResource", () => {
+  /** notes/ holds a PNG and an empty sub-container; archive/ is empty. */
+  function transferPod() {
+    return makeFakePod({
+      [`${POD}notes/`]: {
+        contentType: "text/turtle",
+        body: containerTurtle(`${POD}notes/`, [
+          { name: "p.png" },
+          { name: "empty/", container: true },
+        ]),
+      },
+      [`${POD}notes/p.png`]: { contentType: "image/png", body: "PNGDATA" },
+      [`${POD}notes/empty/`]: {
+        contentType: "text/turtle",
+        body: containerTurtle(`${POD}notes/empty/`, []),
+      },
+      [`${POD}taken.txt`]: { contentType: "text/plain", body: "occupied" },
+    });
+  }
+
+  it("THROWS when read-only by default", async () => {
+    const pod = transferPod();
+    await expect(copyResource(cfg(pod.fetch), `${POD}notes/p.png`, `${POD}q.png`)).rejects.toThrow(
+      /write disabled.*read-only/,
+    );
+    expect(pod.writes.length).toBe(0);
+  });
+
+  it("copies a binary resource byte-for-byte with its Content-Type, create-only", async () => {
+    const pod = transferPod();
+    let ifNoneMatch: string | null = null;
+    const spy = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (init?.method === "PUT") ifNoneMatch = new Headers(init.headers).get("if-none-match");
+      return pod.fetch(input, init);
+    }) as typeof fetch;
+    const r = await copyResource(cfg(spy, { readOnly: false }), `${POD}notes/p.png`, `${POD}q.png`);
+    expect(r).toEqual({
+      copied: [
+        { from: `${POD}notes/p.png`, to: `${POD}q.png`, contentType: "image/png", bytes: 7 },
+      ],
+      deleted: [],
+      dryRun: false,
+    });
+    expect(pod.puts[0]?.contentType).toBe("image/png");
+    expect(pod.puts[0]?.body).toBe("PNGDATA");
+    expect(ifNoneMatch).toBe("*");
+  });
+
+  it("refuses to overwrite an existing destination unless overwrite is set", async () => {
+    const pod = transferPod();
+    const config = cfg(pod.fetch, { readOnly: false });
+    await expect(copyResource(config, `${POD}notes/p.png`, `${POD}taken.txt`)).rejects.toThrow(
+      /already exists/,
+    );
+    await copyResource(config, `${POD}notes/p.png`, `${POD}taken.txt`, { overwrite: true });
+    expect((await readResource(config, `${POD}taken.txt`)).contentType).toBe("image/png");
+  });
+
+  it("copies a container subtree, creating empty containers explicitly", async () => {
+    const pod = transferPod();
+    const r = await copyResource(
+      cfg(pod.fetch, { readOnly: false }),
+      `${POD}notes/`,
+      `${POD}archive/`,
+    );
+    expect(r.copied.map((c) => c.to)).toEqual([`${POD}archive/p.png`, `${POD}archive/empty/`]);
+    // The empty container is created with an empty body, not its source listing.
+    expect(pod.puts.find((p) => p.url === `${POD}archive/empty/`)?.body).toBe("");
+  });
+
+  it("refuses container/resource mismatches and copying a container into itself", async () => {
+    const pod = transferPod();
+    const config = cfg(pod.fetch, { readOnly: false });
+    await expect(copyResource(config, `${POD}notes/`, `${POD}archive`)).rejects.toThrow(
+      /container must be copied to a container URL/,
+    );
+    await expect(copyResource(config, `${POD}notes/`, `${POD}notes/inner/`)).rejects.toThrow(
+      /into itself/,
+    );
+    expect(pod.writes.length).toBe(0);
+  });
+
+  it("scope-checks both the source and the destination", async () => {
+    const pod = transferPod();
+    const config = cfg(pod.fetch, { readOnly: false });
+    await expect(copyResource(config, "https://evil.example/x", `${POD}x`)).rejects.toThrow(
+      /pod-scope violation/,
+    );
+    await expect(
+      copyResource(config, `${POD}notes/p.png`, "https://evil.example/x"),
+    ).rejects.toThrow(/pod-scope violation/);
+    expect(pod.writes.length).toBe(0);
+  });
+
+  it("fails when the copy cannot be verified at the destination", async () => {
+    const pod = transferPod();
+    // The destination swallows the body: it accepts the PUT but serves back nothing.
+    const lossy = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (String(input) === `${POD}q.png` && init?.method === "HEAD") {
+        return new Response(null, {
+          status: 200,
+          headers: { "content-type": "image/png", "content-length": "0" },
+        });
+      }
+      return pod.fetch(input, init);
+    }) as typeof fetch;
+    await expect(
+      copyResource(cfg(lossy, { readOnly: false }), `${POD}notes/p.png`, `${POD}q.png`),
+    ).rejects.toThrow(/could not be verified.*wrote 7 bytes.*has 0/);
+    // A destination that is not there after the PUT fails verification too.
+    const vanishing = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (String(input) === `${POD}q.png` && init?.method === "HEAD") {
+        return new Response(null, { status: 404, statusText: "Not Found" });
+      }
+      return pod.fetch(input, init);
+    }) as typeof fetch;
+    await expect(
+      copyResource(cfg(vanishing, { readOnly: false }), `${POD}notes/p.png`, `${POD}q.png`, {
+        overwrite: true,
+      }),
+    ).rejects.toThrow(/could not be verified.*HTTP 404/);
+  });
+
+  it("verifies an RDF copy by its presence, not its length, so a reserialising server passes", async () => {
+    const pod = makeFakePod({
+      [`${POD}card.ttl`]: {
+        contentType: "text/turtle",
+        body: '@prefix foaf: <http://xmlns.com/foaf/0.1/> .\n<#me> foaf:name "Alice" .\n',
+      },
+    });
+    // Like CSS, the destination stores triples and serves them back re-serialised
+    // — no prefixes, different whitespace, a different length.
+    const reserialised = `<${POD}copy.ttl#me> <http://xmlns.com/foaf/0.1/name> "Alice".\n`;
+    const server = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (String(input) === `${POD}copy.ttl` && (init?.method === "HEAD" || !init?.method)) {
+        return new Response(init?.method === "HEAD" ? null : reserialised, {
+          status: 200,
+          headers: {
+            "content-type": "text/turtle",
+            "content-length": String(Buffer.byteLength(reserialised)),
+          },
+        });
+      }
+      return pod.fetch(input, init);
+    }) as typeof fetch;
+    const r = await moveResource(
+      cfg(server, { readOnly: false }),
+      `${POD}card.ttl`,
+      `${POD}copy.ttl`,
+    );
+    expect(r.copied).toEqual([
+      { from: `${POD}card.ttl`, to: `${POD}copy.ttl`, contentType: "text/turtle", bytes: 71 },
+    ]);
+    expect(r.deleted).toEqual([`${POD}card.ttl`]);
+  });
+
+  it("moves a subtree: copies everything, then deletes the source bottom-up", async () => {
+    const pod = transferPod();
+    const r = await moveResource(
+      cfg(pod.fetch, { readOnly: false }),
+      `${POD}notes/`,
+      `${POD}archive/`,
+    );
+    expect(r.copied).toHaveLength(2);
+    expect(r.deleted).toEqual([`${POD}notes/p.png`, `${POD}notes/empty/`, `${POD}notes/`]);
+    const methods = pod.writes.map((w) => w.method);
+    // Every PUT precedes the first DELETE.
+    expect(methods.lastIndexOf("PUT")).toBeLessThan(methods.indexOf("DELETE"));
+  });
+
+  it("deletes only the copied sources, never a child created after the copy", async () => {
+    const pod = transferPod();
+    let copiedYet = false;
+    // Once the copy has started, the source container lists a newcomer too.
+    const racing = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (init?.method === "PUT") copiedYet = true;
+      if (copiedYet && String(input) === `${POD}notes/` && (init?.method ?? "GET") === "GET") {
+        const body = containerTurtle(`${POD}notes/`, [
+          { name: "p.png" },
+          { name: "empty/", container: true },
+          { name: "late.txt" },
+        ]);
+        return new Response(body, { status: 200, headers: { "content-type": "text/turtle" } });
+      }
+      return pod.fetch(input, init);
+    }) as typeof fetch;
+    const r = await moveResource(
+      cfg(racing, { readOnly: false }),
+      `${POD}notes/`,
+      `${POD}archive/`,
+    );
+    expect(r.deleted).toEqual([`${POD}notes/p.png`, `${POD}notes/empty/`, `${POD}notes/`]);
+    expect(pod.writes.some((w) => w.url === `${POD}notes/late.txt`)).toBe(false);
+  });
+
+  it("plans a move on a dry run, and runs an approved plan only while it still holds", async () => {
+    const pod = transferPod();
+    const config = cfg(pod.fetch, { readOnly: false });
+    const plan = await moveResource(config, `${POD}notes/`, `${POD}archive/`, { dryRun: true });
+    expect(plan).toEqual({
+      copied: [
+        { from: `${POD}notes/p.png`, to: `${POD}archive/p.png` },
+        { from: `${POD}notes/empty/`, to: `${POD}archive/empty/` },
+      ],
+      deleted: [`${POD}notes/p.png`, `${POD}notes/empty/`, `${POD}notes/`],
+      dryRun: true,
+    });
+    expect(pod.writes.length).toBe(0);
+    await expect(
+      copyResource(config, `${POD}notes/`, `${POD}archive/`, { plan: [`${POD}notes/p.png`] }),
+    ).rejects.toThrow(/now 2 resource\(s\), approved 1\) — nothing was copied/);
+    expect(pod.writes.length).toBe(0);
+    const r = await moveResource(config, `${POD}notes/`, `${POD}archive/`, {
+      plan: plan.copied.map((c) => c.from),
+    });
+    expect(r.deleted).toEqual(plan.deleted);
+  });
+
+  it("leaves the source untouched when a copy fails", async () => {
+    const pod = transferPod();
+    const failing = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (init?.method === "PUT") return new Response("no", { status: 507, statusText: "Full" });
+      return pod.fetch(input, init);
+    }) as typeof fetch;
+    await expect(
+      moveResource(cfg(failing, { readOnly: false }), `${POD}notes/p.png`, `${POD}q.png`),
+    ).rejects.toThrow(/failed to copy.*HTTP 507/);
+    expect(pod.writes.some((w) => w.method === "DELETE")).toBe(false);
+  });
+
+  it("refuses to move the pod root", async () => {
+    const pod = transferPod();
+    await expect(
+      moveResource(cfg(pod.fetch, { readOnly: false }), POD, `${POD}archive/`),
+    ).rejects.toThrow(/pod-scope violation/);
+    expect(pod.writes.length).toBe(0);
+  });
+});
+
+describe("writable scopes on mutating operations", () => {
+  /** tasks/ holds one task and an archive/ sub-container with one old task. */
+  function scopedPod() {
+    return makeFakePod({
+      [`${POD}tasks/`]: {
+        contentType: "text/turtle",
+        body: containerTurtle(`${POD}tasks/`, [
+          { name: "t1.ttl" },
+          { name: "archive/", container: true },
+        ]),
+      },
+      [`${POD}tasks/t1.ttl`]: { contentType: "text/turtle", body: "" },
+      [`${POD}tasks/archive/`]: {
+        contentType: "text/turtle",
+        body: containerTurtle(`${POD}tasks/archive/`, [{ name: "old.ttl" }]),
+      },
+      [`${POD}tasks/archive/old.ttl`]: { contentType: "text/turtle", body: "" },
+    });
+  }
+  const scoped = (fetch: typeof globalThis.fetch) =>
+    cfg(fetch, {
+      readOnly: false,
+      writableScopes: {
+        allow: ["tasks/", { prefix: "inbox/", operations: ["create"] }],
+        deny: ["tasks/archive/"],
+      },
+    });
+
+  it("refuses a PUT outside the allowed subtrees", async () => {
+    const pod = scopedPod();
+    await expect(
+      writeResource(scoped(pod.fetch), `${POD}profile/card`, "x", "text/plain"),
+    ).rejects.toThrow(/write-scope violation: put/);
+    await expect(
+      patchResource(scoped(pod.fetch), `${POD}tasks/archive/old.ttl`, {
+        insert: parseTurtle("<#a> <#b> <#c>.", `${POD}tasks/archive/old.ttl`),
+      }),
+    ).rejects.toThrow(/write-scope violation: patch.*denied/);
+    expect(pod.writes.length).toBe(0);
+  });
+
+  it("checks a create against its container and operation", async () => {
+    const pod = scopedPod();
+    const config = scoped(pod.fetch);
+    const r = await createResource(config, `${POD}inbox/`, "hi", "text/plain", { slug: "m" });
+    expect(r.url).toBe(`${POD}inbox/m`);
+    await expect(writeResource(config, `${POD}inbox/m`, "x", "text/plain")).rejects.toThrow(
+      /write-scope violation: put/,
+    );
+    await expect(createResource(config, POD, "x", "text/plain")).rejects.toThrow(
+      /write-scope violation: create/,
+    );
+  });
+
+  it("checks a create's slug and the Location it lands at against the scopes", async () => {
+    const pod = scopedPod();
+    await expect(
+      createResource(scoped(pod.fetch), `${POD}tasks/`, "", "text/turtle", {
+        slug: "archive",
+        asContainer: true,
+      }),
+    ).rejects.toThrow(/write-scope violation: create on .*tasks\/archive\/ is denied/);
+    expect(pod.writes.length).toBe(0);
+    // A server that ignores the slug and files the resource in a denied subtree.
+    const misplacing = (async () =>
+      new Response(null, { status: 201, headers: { location: "archive/x" } })) as typeof fetch;
+    await expect(
+      createResource(scoped(misplacing), `${POD}tasks/`, "x", "text/plain", { slug: "x" }),
+    ).rejects.toThrow(/placed the created resource at .*tasks\/archive\/x, outside the writable/);
+  });
+
+  it("refuses a recursive delete reaching a denied subtree before deleting anything", async () => {
+    const pod = scopedPod();
+    await expect(
+      deleteResource(scoped(pod.fetch), `${POD}tasks/`, { recursive: true, dryRun: true }),
+    ).rejects.toThrow(/write-scope violation: delete on .*archive/);
+    await expect(
+      deleteResource(scoped(pod.fetch), `${POD}tasks/`, { recursive: true }),
+    ).rejects.toThrow(/write-scope violation/);
+    expect(pod.writes.length).toBe(0);
+  });
+
+  it("refuses a move whose source subtree is not deletable, before copying", async () => {
+    const pod = scopedPod();
+    const config = cfg(pod.fetch, {
+      readOnly: false,
+      writableScopes: { deny: ["tasks/archive/"] },
+    });
+    await expect(moveResource(config, `${POD}tasks/`, `${POD}done/`)).rejects.toThrow(
+      /write-scope violation: delete/,
+    );
+    await expect(copyResource(config, `${POD}tasks/`, `${POD}tasks2/`)).resolves.toBeDefined();
+    await expect(copyResource(config, `${POD}tasks2/`, `${POD}tasks/archive/x/`)).rejects.toThrow(
+      /write-scope violation: put/,
+    );
+  });
+});
+
+describe("diffRdf", () => {
+  const Doc = `${POD}profile.ttl`;
+  function rdfPod(body: string) {
+    return makeFakePod({ [Doc]: { contentType: "text/turtle", body, etag: '"v1"' } });
+  }
+
+  it("reports added and removed triples plus the etag to commit with", async () => {
+    const pod = rdfPod('<#me> <http://xmlns.com/foaf/0.1/name> "Alice"; <#age> 30 .');
+    const d = await diffRdf(
+      cfg(pod.fetch),
+      Doc,
+      '<#me> <http://xmlns.com/foaf/0.1/name> "Alice"; <#age> 31 .',
+      "text/turtle",
+    );
+    expect(d.exists).toBe(true);
+    expect(d.etag).toBe('"v1"');
+    expect(d.unchanged).toBe(1);
+    expect(d.added.map((q) => q.object.value)).toEqual(["31"]);
+    expect(d.removed.map((q) => q.object.value)).toEqual(["30"]);
+    expect(pod.writes.length).toBe(0);
+  });
+
+  it("matches blank nodes by structure, not by label", async () => {
+    const pod = rdfPod(
+      '<#me> <#address> _:a . _:a <#city> "Paris" . <#me> <#knows> [ <#name> "Bob" ] .',
+    );
+    const same = await diffRdf(
+      cfg(pod.fetch),
+      Doc,
+      '<#me> <#knows> [ <#name> "Bob" ] ; <#address> _:zz . _:zz <#city> "Paris" .',
+      "text/turtle",
+    );
+    expect(same).toMatchObject({ added: [], removed: [], unchanged: 4 });
+    const moved = await diffRdf(
+      cfg(pod.fetch),
+      Doc,
+      '<#me> <#address> _:x . _:x <#city> "Lyon" . <#me> <#knows> [ <#name> "Bob" ] .',
+      "text/turtle",
+    );
+    // The address node changed, so both of its triples differ; Bob is untouched.
+    expect(moved.unchanged).toBe(2);
+    expect(moved.added).toHaveLength(2);
+    expect(moved.removed).toHaveLength(2);
+  });
+
+  it("treats a missing resource as all-added", async () => {
+    const pod = rdfPod("");
+    const d = await diffRdf(cfg(pod.fetch), `${POD}new.ttl`, "<#a> <#b> <#c> .", "text/turtle");
+    expect(d).toMatchObject({ exists: false, removed: [], unchanged: 0 });
+    expect(d.added).toHaveLength(1);
+    expect(d.etag).toBeUndefined();
+  });
+
+  it("refuses non-Turtle-family bodies and malformed input", async () => {
+    const pod = rdfPod("");
+    await expect(diffRdf(cfg(pod.fetch), Doc, "{}", "application/ld+json")).rejects.toThrow(
+      /not a Turtle-family RDF type/,
+    );
+    await expect(diffRdf(cfg(pod.fetch), Doc, "<#a> <#b", "text/turtle")).rejects.toThrow(
+      /not valid text\/turtle/,
+    );
+  });
+
+  it("is pod-scoped", async () => {
+    const pod = rdfPod("");
+    await expect(
+      diffRdf(cfg(pod.fetch), "https://evil.example/x", "", "text/turtle"),
+    ).rejects.toThrow(/pod-scope violation/);
+  });
+});
+
+describe("batchWrite", () => {
+  function batchPod() {
+    return makeFakePod({
+      [`${POD}tasks/`]: { contentType: "text/turtle", body: containerTurtle(`${POD}tasks/`, []) },
+      [`${POD}tasks/index.ttl`]: {
+        contentType: "text/turtle",
+        body: "<#old> a <#List> .",
+        etag: '"i1"',
+      },
+      [`${POD}tasks/gone.txt`]: { contentType: "text/plain", body: "bye", etag: '"g1"' },
+    });
+  }
+
+  it("THROWS when read-only by default, before touching anything", async () => {
+    const pod = batchPod();
+    await expect(
+      batchWrite(cfg(pod.fetch), [{ op: "delete", url: `${POD}tasks/gone.txt` }]),
+    ).rejects.toThrow(/write disabled/);
+    expect(pod.writes.length).toBe(0);
+  });
+
+  it("runs every step in order and reports each as succeeded", async () => {
+    const pod = batchPod();
+    const r = await batchWrite(cfg(pod.fetch, { readOnly: false }), [
+      {
+        op: "create",
+        container: `${POD}tasks/`,
+        body: "<#t> a <#Task> .",
+        contentType: "text/turtle",
+        slug: "t1",
+      },
+      {
+        op: "put",
+        url: `${POD}tasks/index.ttl`,
+        content: "<#t1> a <#Entry> .",
+        contentType: "text/turtle",
+      },
+      { op: "delete", url: `${POD}tasks/gone.txt` },
+    ]);
+    expect(r.ok).toBe(true);
+    expect(r.steps.map((s) => [s.op, s.url, s.status])).toEqual([
+      ["create", `${POD}tasks/t1`, "succeeded"],
+      ["put", `${POD}tasks/index.ttl`, "succeeded"],
+      ["delete", `${POD}tasks/gone.txt`, "succeeded"],
+    ]);
+  });
+
+  it("rolls back completed steps from their snapshots when a step fails", async () => {
+    const pod = batchPod();
+    const config = cfg(pod.fetch, { readOnly: false });
+    const r = await batchWrite(config, [
+      { op: "create", container: `${POD}tasks/`, body: "", contentType: "text/plain", slug: "t1" },
+      {
+        op: "put",
+        url: `${POD}tasks/index.ttl`,
+        content: "<#new> a <#List> .",
+        contentType: "text/turtle",
+      },
+      { op: "delete", url: `${POD}tasks/gone.txt` },
+      {
+        op: "put",
+        url: `${POD}tasks/x.txt`,
+        content: "x",
+        contentType: "text/plain",
+        ifMatch: '"stale"',
+      },
+      { op: "delete", url: `${POD}tasks/index.ttl` },
+    ]);
+    expect(r.ok).toBe(false);
+    expect(r.steps.map((s) => s.status)).toEqual([
+      "rolled-back",
+      "rolled-back",
+      "rolled-back",
+      "failed",
+      "skipped",
+    ]);
+    expect(r.steps[3]?.error).toMatch(/precondition failed/);
+    // Every resource is back the way it was.
+    expect((await readResource(config, `${POD}tasks/index.ttl`)).text).toBe("<#old> a <#List> .");
+    expect((await readResource(config, `${POD}tasks/gone.txt`)).text).toBe("bye");
+    await expect(readResource(config, `${POD}tasks/t1`)).rejects.toThrow(/HTTP 404/);
+  });
+
+  it("reports rollback-failed rather than restore without a precondition", async () => {
+    const pod = batchPod();
+    // A server that sends no validators at all: no ETag, no Last-Modified.
+    const bare = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      const res = await pod.fetch(input, init);
+      const headers = new Headers(res.headers);
+      headers.delete("etag");
+      headers.delete("last-modified");
+      return new Response(res.body, { status: res.status, statusText: res.statusText, headers });
+    }) as typeof fetch;
+    const config = cfg(bare, { readOnly: false });
+    const r = await batchWrite(config, [
+      {
+        op: "put",
+        url: `${POD}tasks/index.ttl`,
+        content: "<#new> a <#List> .",
+        contentType: "text/turtle",
+      },
+      { op: "delete", url: `${POD}tasks/missing.txt` },
+    ]);
+    expect(r.steps.map((s) => s.status)).toEqual(["rollback-failed", "failed"]);
+    expect(r.steps[0]?.error).toMatch(/not restoring .*no ETag or Last-Modified/);
+    expect((await readResource(config, `${POD}tasks/index.ttl`)).text).toBe("<#new> a <#List> .");
+  });
+
+  it("validates every step before writing anything", async () => {
+    const pod = batchPod();
+    const config = cfg(pod.fetch, { readOnly: false });
+    await expect(
+      batchWrite(config, [
+        { op: "put", url: `${POD}tasks/a.txt`, content: "a", contentType: "text/plain" },
+        { op: "delete", url: "https://evil.example/x" },
+      ]),
+    ).rejects.toThrow(/pod-scope violation/);
+    await expect(batchWrite(config, [{ op: "delete", url: `${POD}tasks/` }])).rejects.toThrow(
+      /containers are not supported/,
+    );
+    expect(pod.writes.length).toBe(0);
+  });
+
+  it("journals a committed batch once per target, and a rolled-back one not at all", async () => {
+    const pod = batchPod();
+    const config = cfg(pod.fetch, { readOnly: false, trashContainer: ".solid-mcp/trash/" });
+    const failed = await batchWrite(config, [
+      {
+        op: "put",
+        url: `${POD}tasks/index.ttl`,
+        content: "<#new> a <#List> .",
+        contentType: "text/turtle",
+      },
+      { op: "delete", url: `${POD}tasks/missing.txt` },
+    ]);
+    expect(failed.steps.map((s) => s.status)).toEqual(["rolled-back", "failed"]);
+    expect(await listJournal(config)).toEqual([]);
+    expect(
+      pod.writes.some((w) => w.url.startsWith(`${POD}.solid-mcp/`) && w.method !== "DELETE"),
+    ).toBe(true);
+
+    const ok = await batchWrite(config, [
+      {
+        op: "put",
+        url: `${POD}tasks/index.ttl`,
+        content: "<#a> a <#List> .",
+        contentType: "text/turtle",
+      },
+      {
+        op: "put",
+        url: `${POD}tasks/index.ttl`,
+        content: "<#b> a <#List> .",
+        contentType: "text/turtle",
+      },
+      { op: "delete", url: `${POD}tasks/gone.txt` },
+    ]);
+    expect(ok.ok).toBe(true);
+    const journal = await listJournal(config);
+    expect(journal.map((e) => [e.kind, e.url]).sort()).toEqual([
+      ["delete", `${POD}tasks/gone.txt`],
+      ["update", `${POD}tasks/index.ttl`],
+    ]);
+    expect(journal.find((e) => e.kind === "update")?.etag).toBe('"new"');
+    await undoChanges(config, { count: 2 });
+    expect((await readResource(config, `${POD}tasks/index.ttl`)).text).toBe("<#old> a <#List> .");
+    expect((await readResource(config, `${POD}tasks/gone.txt`)).text).toBe("bye");
+  });
+
+  it("refuses a target too large to snapshot, naming it, before the first write", async () => {
+    const pod = batchPod();
+    const config = cfg(pod.fetch, { readOnly: false, maxUploadBytes: 10 });
+    await expect(
+      batchWrite(config, [
+        { op: "put", url: `${POD}tasks/a.txt`, content: "a", contentType: "text/plain" },
+        { op: "delete", url: `${POD}tasks/index.ttl` },
+      ]),
+    ).rejects.toThrow(/cannot snapshot .*tasks\/index\.ttl: it is over the 10-byte upload limit/);
+    expect(pod.writes.length).toBe(0);
+  });
+});
+
+describe("trash journal + undoChanges", () => {
+  const Trash = `${POD}.solid-mcp/trash/`;
+  function journalPod() {
+    return makeFakePod({
+      [`${POD}notes/a.txt`]: { contentType: "text/plain", body: "version 1" },
+      [`${POD}notes/b.png`]: { contentType: "image/png", body: "PNG" },
+    });
+  }
+  const journaled = (fetch: typeof globalThis.fetch, extra: Partial<SolidMcpConfig> = {}) =>
+    cfg(fetch, { readOnly: false, trashContainer: ".solid-mcp/trash/", ...extra });
+
+  it("copies the previous representation into the trash with an AS2 record before an overwrite", async () => {
+    const pod = journalPod();
+    const config = journaled(pod.fetch);
+    await writeResource(config, `${POD}notes/a.txt`, "version 2", "text/plain");
+    // The copy and its record land before the overwrite itself; the record is
+    // then stamped with the ETag the overwrite left.
+    expect(pod.writes.map((w) => w.url)).toEqual([
+      expect.stringMatching(
+        /^https:\/\/alice\.example\/pod\/\.solid-mcp\/trash\/\d{8}T\d{9}Z-\d{6}$/,
+      ),
+      expect.stringMatching(/\.meta\.ttl$/),
+      `${POD}notes/a.txt`,
+      expect.stringMatching(/\.meta\.ttl$/),
+    ]);
+    expect(pod.writes[0]).toMatchObject({ contentType: "text/plain", body: "version 1" });
+    const [entry] = await listJournal(config);
+    expect(entry).toMatchObject({
+      url: `${POD}notes/a.txt`,
+      kind: "update",
+      contentType: "text/plain",
+      copy: pod.writes[0]?.url,
+      etag: '"new"',
+    });
+    expect(entry?.entry.startsWith(Trash)).toBe(true);
+  });
+
+  it("streams the previous representation into the trash and back on undo, never buffering it", async () => {
+    const pod = journalPod();
+    const streamed: string[] = [];
+    const spy = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (init?.method === "PUT" && init.body instanceof ReadableStream)
+        streamed.push(String(input));
+      return pod.fetch(input, init);
+    }) as typeof fetch;
+    const config = journaled(spy);
+    await deleteResource(config, `${POD}notes/b.png`);
+    await undoChanges(config);
+    expect(streamed).toEqual([expect.stringMatching(/\d{6}$/), `${POD}notes/b.png`]);
+    expect((await readResource(config, `${POD}notes/b.png`)).base64).toBe(
+      Buffer.from("PNG").toString("base64"),
+    );
+  });
+
+  it("does not journal a create-only write, a new resource, or without a trash container", async () => {
+    const pod = journalPod();
+    await writeResource(journaled(pod.fetch), `${POD}notes/new.txt`, "x", "text/plain");
+    await writeResource(journaled(pod.fetch), `${POD}notes/a.txt`, "x", "text/plain", {
+      ifNoneMatch: "*",
+    }).catch(() => {});
+    await writeResource(
+      cfg(pod.fetch, { readOnly: false }),
+      `${POD}notes/a.txt`,
+      "y",
+      "text/plain",
+    );
+    expect(pod.writes.some((w) => w.url.startsWith(Trash))).toBe(false);
+  });
+
+  it("undoes the most recent changes newest first, restoring deletes create-only", async () => {
+    const pod = journalPod();
+    const config = journaled(pod.fetch);
+    await writeResource(config, `${POD}notes/a.txt`, "version 2", "text/plain");
+    await deleteResource(config, `${POD}notes/b.png`);
+    const plan = await undoChanges(config, { count: 5, dryRun: true });
+    expect(plan.restored.map((e) => [e.kind, e.url])).toEqual([
+      ["delete", `${POD}notes/b.png`],
+      ["update", `${POD}notes/a.txt`],
+    ]);
+    const done = await undoChanges(config, { count: 2 });
+    expect(done.restored).toHaveLength(2);
+    expect((await readResource(config, `${POD}notes/a.txt`)).text).toBe("version 1");
+    const png = await readResource(config, `${POD}notes/b.png`);
+    expect(png.contentType).toBe("image/png");
+    expect(Buffer.from(png.base64 ?? "", "base64").toString()).toBe("PNG");
+    // The consumed entries are gone from the journal.
+    expect(await listJournal(config)).toEqual([]);
+  });
+
+  it("undoes several changes to one resource, each expecting the ETag the last restore left", async () => {
+    const pod = makeFakePod(
+      { [`${POD}notes/a.txt`]: { contentType: "text/plain", body: "version 1" } },
+      { versionEtags: true },
+    );
+    const config = journaled(pod.fetch);
+    await writeResource(config, `${POD}notes/a.txt`, "version 2", "text/plain");
+    await writeResource(config, `${POD}notes/a.txt`, "version 3", "text/plain");
+    const done = await undoChanges(config, { count: 2 });
+    expect(done.restored).toHaveLength(2);
+    expect((await readResource(config, `${POD}notes/a.txt`)).text).toBe("version 1");
+    expect(await listJournal(config)).toEqual([]);
+  });
+
+  it("undoes a write and then a delete of the same resource", async () => {
+    const pod = makeFakePod(
+      { [`${POD}notes/a.txt`]: { contentType: "text/plain", body: "version 1" } },
+      { versionEtags: true },
+    );
+    const config = journaled(pod.fetch);
+    await writeResource(config, `${POD}notes/a.txt`, "version 2", "text/plain");
+    await deleteResource(config, `${POD}notes/a.txt`);
+    await undoChanges(config, { count: 2 });
+    expect((await readResource(config, `${POD}notes/a.txt`)).text).toBe("version 1");
+  });
+
+  it("removes the journal entry again when the change itself fails", async () => {
+    const pod = journalPod();
+    const config = journaled(pod.fetch);
+    await expect(
+      writeResource(config, `${POD}notes/a.txt`, "version 2", "text/plain", { ifMatch: '"stale"' }),
+    ).rejects.toThrow(/precondition failed/);
+    expect(await listJournal(config)).toEqual([]);
+    expect(pod.writes.filter((w) => w.method === "DELETE").map((w) => w.url)).toEqual([
+      expect.stringMatching(/\.meta\.ttl$/),
+      expect.stringMatching(/\d{6}$/),
+    ]);
+  });
+
+  it("refuses to undo an update the resource has changed since", async () => {
+    const pod = journalPod();
+    const config = journaled(pod.fetch);
+    await writeResource(config, `${POD}notes/a.txt`, "version 2", "text/plain");
+    // A later, unjournaled change moves the ETag on.
+    await patchResource(cfg(pod.fetch, { readOnly: false }), `${POD}notes/a.txt`, {
+      insert: parseTurtle("<#a> <#b> <#c> .", `${POD}notes/a.txt`),
+    });
+    await expect(undoChanges(config)).rejects.toThrow(
+      /precondition failed \(412\) restoring .* refusing to overwrite it/,
+    );
+    expect(await listJournal(config)).toHaveLength(1);
+  });
+
+  it("undoes one specific entry", async () => {
+    const pod = journalPod();
+    const config = journaled(pod.fetch);
+    await writeResource(config, `${POD}notes/a.txt`, "version 2", "text/plain");
+    await writeResource(config, `${POD}notes/b.png`, "UEdO", "image/png", { encoding: "base64" });
+    const older = (await listJournal(config))[1];
+    const r = await undoChanges(config, { entry: older?.entry ?? "" });
+    expect(r.restored.map((e) => e.url)).toEqual([`${POD}notes/a.txt`]);
+    expect((await readResource(config, `${POD}notes/a.txt`)).text).toBe("version 1");
+    expect(await listJournal(config)).toHaveLength(1);
+  });
+
+  it("undoes exactly the named entries, even after newer changes", async () => {
+    const pod = journalPod();
+    const config = journaled(pod.fetch);
+    await writeResource(config, `${POD}notes/a.txt`, "version 2", "text/plain");
+    const plan = await undoChanges(config, { dryRun: true });
+    await deleteResource(config, `${POD}notes/b.png`);
+    const r = await undoChanges(config, { entries: plan.restored.map((e) => e.entry) });
+    expect(r.restored.map((e) => e.url)).toEqual([`${POD}notes/a.txt`]);
+    expect((await listJournal(config)).map((e) => e.url)).toEqual([`${POD}notes/b.png`]);
+  });
+
+  it("refuses an undo that is read-only, unconfigured, or names a non-journal resource", async () => {
+    const pod = journalPod();
+    await expect(undoChanges(journaled(pod.fetch, { readOnly: true }))).rejects.toThrow(
+      /write disabled/,
+    );
+    await expect(undoChanges(cfg(pod.fetch, { readOnly: false }))).rejects.toThrow(
+      /no trashContainer configured/,
+    );
+    await expect(undoChanges(journaled(pod.fetch), { entry: `${POD}notes/a.txt` })).rejects.toThrow(
+      /not a journal entry/,
+    );
+    await expect(undoChanges(journaled(pod.fetch))).rejects.toThrow(/journal .* is empty/);
+  });
+
+  it("refuses the change when the journal cannot be written", async () => {
+    const pod = journalPod();
+    const failing = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (String(input).startsWith(Trash) && init?.method === "PUT") {
+        return new Response(null, { status: 507, statusText: "Insufficient Storage" });
+      }
+      return pod.fetch(input, init);
+    }) as typeof fetch;
+    await expect(deleteResource(journaled(failing), `${POD}notes/a.txt`)).rejects.toThrow(
+      /could not journal .* refusing to change it/,
+    );
+    expect((await readResource(cfg(pod.fetch), `${POD}notes/a.txt`)).text).toBe("version 1");
+  });
+});
+
+describe("readResource — byte ranges and size caps", () => {
+  const Big = "0123456789".repeat(10); // 100 bytes
+
+  /** A pod that honours `Range: bytes=a-b` with a 206 (and 416 past the end). */
+  function rangedFetch(body: string, contentType = "text/plain"): typeof globalThis.fetch {
+    const bytes = new TextEncoder().encode(body);
+    return (async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (String(input) !== `${POD}big.txt`) return new Response(null, { status: 404 });
+      const m = new Headers(init?.headers).get("range")?.match(/^bytes=(\d+)-(\d+)$/);
+      if (!m) return new Response(bytes, { headers: { "content-type": contentType } });
+      const start = Number(m[1]);
+      if (start >= bytes.length) {
+        return new Response(null, {
+          status: 416,
+          headers: { "content-range": `bytes */${bytes.length}`, "content-type": contentType },
+        });
+      }
+      const end = Math.min(Number(m[2]), bytes.length - 1);
+      return new Response(bytes.slice(start, end + 1), {
+        status: 206,
+        headers: {
+          "content-type": contentType,
+          "content-range": `bytes ${start}-${end}/${bytes.length}`,
+        },
+      });
+    }) as typeof fetch;
+  }
+
+  it("reads a small resource whole, without partial-read fields", async () => {
+    const r = await readResource(cfg(rangedFetch("short")), `${POD}big.txt`);
+    expect(r).toEqual({ contentType: "text/plain", text: "short" });
+  });
+
+  it("caps a read at maxBytes via Range and reports how to continue", async () => {
+    const config = cfg(rangedFetch(Big), { maxBytes: 30 });
+    const first = await readResource(config, `${POD}big.txt`);
+    expect(first).toMatchObject({
+      text: Big.slice(0, 30),
+      offset: 0,
+      truncated: true,
+      nextOffset: 30,
+      totalSize: 100,
+    });
+    const last = await readResource(config, `${POD}big.txt`, { offset: 90 });
+    expect(last).toMatchObject({ text: Big.slice(90), offset: 90, truncated: false });
+    expect(last.nextOffset).toBeUndefined();
+  });
+
+  it("honours length below the cap and answers past-the-end offsets with an empty final part", async () => {
+    const config = cfg(rangedFetch(Big));
+    expect(await readResource(config, `${POD}big.txt`, { offset: 10, length: 5 })).toMatchObject({
+      text: "01234",
+      nextOffset: 15,
+    });
+    expect(await readResource(config, `${POD}big.txt`, { offset: 500 })).toMatchObject({
+      text: "",
+      truncated: false,
+      totalSize: 100,
+    });
+  });
+
+  it("reads an empty resource (a 416 from offset 0) as a whole, empty read", async () => {
+    const r = await readResource(cfg(rangedFetch("")), `${POD}big.txt`);
+    expect(r).toEqual({ contentType: "text/plain", text: "", totalSize: 0 });
+  });
+
+  it("stream-truncates when the server ignores Range", async () => {
+    const pod = makeFakePod({ [`${POD}big.txt`]: { contentType: "text/plain", body: Big } });
+    const r = await readResource(cfg(pod.fetch, { maxBytes: 25 }), `${POD}big.txt`, {
+      offset: 50,
+    });
+    expect(r).toMatchObject({
+      text: Big.slice(50, 75),
+      offset: 50,
+      truncated: true,
+      nextOffset: 75,
+    });
+  });
+
+  it("never splits a UTF-8 character across parts", async () => {
+    const config = cfg(rangedFetch("aé€b"), { maxBytes: 3 }); // a=1, é=2, €=3 bytes
+    const first = await readResource(config, `${POD}big.txt`);
+    expect(first).toMatchObject({ text: "aé", nextOffset: 3 });
+    const second = await readResource(config, `${POD}big.txt`, { offset: 3 });
+    expect(second).toMatchObject({ text: "€", nextOffset: 6 });
+  });
+
+  it("rejects a bad offset or length", async () => {
+    const config = cfg(rangedFetch(Big));
+    await expect(readResource(config, `${POD}big.txt`, { offset: -1 })).rejects.toThrow(/offset/);
+    await expect(readResource(config, `${POD}big.txt`, { length: 0 })).rejects.toThrow(/length/);
+  });
+});
@@ -1,6 +1,10 @@
 // AUTHORED-BY Claude Opus 4.8 (Fable unavailable) — re-review/upgrade candidate
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ElicitRequestSchema, type ElicitResult } from "@modelcontextprotocol/sdk/types.js";
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
 import type { SolidMcpConfig } from "../src/auth.js";
 import { createSolidMcpServer } from "../src/server.js";
@@ -55,6 +59,16 @@ describe("createSolidMcpServer — config validation", () => {
       createSolidMcpServer({ fetch: globalThis.fetch, podRoot: "https://x.example/no-slash" }),
     ).toThrow(/end in '\/'/);
   });
+
+  it("throws eagerly on an out-of-pod writable scope", () => {
+    expect(() =>
+      createSolidMcpServer({
+        fetch: globalThis.fetch,
+        podRoot: POD,
+        writableScopes: { allow: ["https://evil.example/"] },
+      }),
+    ).toThrow(/writableScopes.allow/);
+  });
 });
 
 describe("createSolidMcpServer — tool registration + listing", () => {
@@ -66,10 +80,27 @@ describe("createSolidMcpServer — tool registration + listing", () => {
     await client.close();
   });
 
-  it("registers the four tools", async () => {
+  it("registers the tools", async () => {
     const { tools } = await client.listTools();
     const names = tools.map((t) => t.name).sort();
-    expect(names).toEqual(["solid_list", "solid_read", "solid_search", "solid_write"]);
+    expect(names).toEqual([
+      "solid_batch",
+      "solid_copy",
+      "solid_create",
+      "solid_delete",
+      "solid_list",
+      "solid_move",
+      "solid_patch",
+      "solid_patch_metadata",
+      "solid_read",
+      "solid_reindex",
+      "solid_search",
+      "solid_sparql",
+      "solid_stat",
+      "solid_tree",
+      "solid_undo",
+      "solid_write",
+    ]);
   });
 
   it("marks read tools readOnlyHint:true and write readOnlyHint:false + destructive", async () => {
@@ -80,6 +111,32 @@ describe("createSolidMcpServer — tool registration + listing", () => {
     expect(byName.solid_search?.annotations?.readOnlyHint).toBe(true);
     expect(byName.solid_write?.annotations?.readOnlyHint).toBe(false);
     expect(byName.solid_write?.annotations?.destructiveHint).toBe(true);
+    expect(byName.solid_patch?.annotations?.readOnlyHint).toBe(false);
+    expect(byName.solid_patch?.annotations?.destructiveHint).toBe(true);
+    expect(byName.solid_create?.annotations?.readOnlyHint).toBe(false);
+    expect(byName.solid_delete?.annotations?.destructiveHint).toBe(true);
+    expect(byName.solid_copy?.annotations?.readOnlyHint).toBe(false);
+    expect(byName.solid_move?.annotations?.destructiveHint).toBe(true);
+  });
+
+  it("pages resources/list through its cursor", async () => {
+    const many = Array.from({ length: 105 }, (_, i) => ({
+      name: `m${String(i).padStart(3, "0")}`,
+    }));
+    const pod = makeFakePod({
+      [POD]: { contentType: "text/turtle", body: containerTurtle(POD, many) },
+    });
+    const paged = await connect({ fetch: pod.fetch, podRoot: POD });
+    try {
+      const first = await paged.listResources();
+      expect(first.resources).toHaveLength(100);
+      expect(first.nextCursor).toBeDefined();
+      const rest = await paged.listResources({ cursor: first.nextCursor });
+      expect(rest.resources.map((r) => r.name)).toEqual(["m100", "m101", "m102", "m103", "m104"]);
+      expect(rest.nextCursor).toBeUndefined();
+    } finally {
+      await paged.close();
+    }
   });
 
   it("registers a resource template and lists the pod root children", async () => {
@@ -107,6 +164,18 @@ describe("tools — happy paths", () => {
     expect(text).toContain("notes/");
   });
 
+  it("solid_list filters and pages", async () => {
+    const res = await client.callTool({
+      name: "solid_list",
+      arguments: { container: POD, isContainer: false, limit: 1 },
+    });
+    expect(res.isError).toBeFalsy();
+    const page = JSON.parse(textOf(res as { content: Array<{ type: string; text?: string }> }));
+    expect(page.total).toBe(1);
+    expect(page.children.map((c: { name: string }) => c.name)).toEqual(["a.ttl"]);
+    expect(page.nextCursor).toBeUndefined();
+  });
+
   it("solid_read returns Turtle for an RDF resource", async () => {
     const res = await client.callTool({ name: "solid_read", arguments: { url: `${POD}a.ttl` } });
     expect(res.isError).toBeFalsy();
@@ -124,11 +193,51 @@ describe("tools — happy paths", () => {
     );
   });
 
+  it("solid_stat returns the resource's metadata as JSON", async () => {
+    const res = await client.callTool({ name: "solid_stat", arguments: { url: `${POD}a.ttl` } });
+    expect(res.isError).toBeFalsy();
+    const stat = JSON.parse(textOf(res as { content: Array<{ type: string; text?: string }> }));
+    expect(stat).toMatchObject({
+      url: `${POD}a.ttl`,
+      isContainer: false,
+      contentType: "text/turtle",
+    });
+  });
+
+  it("solid_tree outlines the pod with per-container aggregates", async () => {
+    const res = await client.callTool({ name: "solid_tree", arguments: {} });
+    expect(res.isError).toBeFalsy();
+    const lines = textOf(res as { content: Array<{ type: string; text?: string }> }).split("\n");
+    expect(lines[0]).toBe("/pod/ (2 children, 0 B)");
+    expect(lines).toContain("  notes/ (1 child, 0 B)");
+    expect(lines).toContain("    memo.txt");
+    expect(lines.at(-1)).toBe("[3 resources visited]");
+  });
+
   it("solid_search finds a literal match", async () => {
     const res = await client.callTool({ name: "solid_search", arguments: { query: "Alpha" } });
     expect(res.isError).toBeFalsy();
     expect(textOf(res as { content: Array<{ type: string; text?: string }> })).toContain("a.ttl");
   });
+
+  it("solid_search applies its filters and reports a malformed one", async () => {
+    const res = await client.callTool({
+      name: "solid_search",
+      arguments: { query: "Alpha", kind: "container" },
+    });
+    expect(res.isError).toBeFalsy();
+    expect(JSON.parse(textOf(res as { content: Array<{ type: string; text?: string }> }))).toEqual(
+      [],
+    );
+    const bad = await client.callTool({
+      name: "solid_search",
+      arguments: { query: "Alpha", modifiedBefore: "yesterday" },
+    });
+    expect(bad.isError).toBe(true);
+    expect(textOf(bad as { content: Array<{ type: string; text?: string }> })).toMatch(
+      /modifiedBefore must be an ISO 8601 date-time/,
+    );
+  });
 });
 
 describe("tools — scope guard", () => {
@@ -250,27 +359,1078 @@ describe("solid_write — read-only default + opt-in", () => {
   });
 });
 
-describe("resource read callback", () => {
-  let client: Client;
-  beforeEach(async () => {
-    client = await connect({ fetch: basePod().fetch, podRoot: POD });
+describe("solid_write — optimistic concurrency", () => {
+  it("maps expectedEtag to If-Match and surfaces a stale ETag as isError with the current one", async () => {
+    const pod = makeFakePod({
+      [`${POD}doc.ttl`]: { contentType: "text/turtle", body: "", etag: '"v2"' },
+    });
+    const client = await connect({ fetch: pod.fetch, podRoot: POD, readOnly: false });
+    try {
+      const stale = await client.callTool({
+        name: "solid_write",
+        arguments: {
+          url: `${POD}doc.ttl`,
+          content: "x",
+          contentType: "text/turtle",
+          expectedEtag: '"v1"',
+        },
+      });
+      expect(stale.isError).toBe(true);
+      expect(textOf(stale as { content: Array<{ type: string; text?: string }> })).toMatch(
+        /changed since you read it.*current etag "v2"/s,
+      );
+      const fresh = await client.callTool({
+        name: "solid_write",
+        arguments: {
+          url: `${POD}doc.ttl`,
+          content: "x",
+          contentType: "text/turtle",
+          expectedEtag: '"v2"',
+        },
+      });
+      expect(fresh.isError).toBeFalsy();
+      expect(pod.puts.length).toBe(1);
+    } finally {
+      await client.close();
+    }
   });
-  afterEach(async () => {
-    await client.close();
+
+  it("createOnly refuses to overwrite an existing resource", async () => {
+    const pod = makeFakePod({
+      [`${POD}doc.ttl`]: { contentType: "text/turtle", body: "", etag: '"v2"' },
+    });
+    const client = await connect({ fetch: pod.fetch, podRoot: POD, readOnly: false });
+    try {
+      const res = await client.callTool({
+        name: "solid_write",
+        arguments: {
+          url: `${POD}doc.ttl`,
+          content: "x",
+          contentType: "text/turtle",
+          createOnly: true,
+        },
+      });
+      expect(res.isError).toBe(true);
+      expect(textOf(res as { content: Array<{ type: string; text?: string }> })).toMatch(
+        /already exists/,
+      );
+      expect(pod.puts.length).toBe(0);
+    } finally {
+      await client.close();
+    }
   });
+});
 
-  it("reads a container as a JSON listing", async () => {
-    const res = await client.readResource({ uri: POD });
-    const first = res.contents[0] as { mimeType?: string; text?: string };
-    expect(first?.mimeType).toBe("application/json");
-    expect(first?.text).toContain("a.ttl");
+describe("solid_write — binary uploads", () => {
+  it("accepts encoding:base64 and writes the decoded bytes", async () => {
+    const pod = makeFakePod({});
+    const client = await connect({ fetch: pod.fetch, podRoot: POD, readOnly: false });
+    try {
+      const res = await client.callTool({
+        name: "solid_write",
+        arguments: {
+          url: `${POD}pic.png`,
+          content: Buffer.from("PIXELS").toString("base64"),
+          contentType: "image/png",
+          encoding: "base64",
+        },
+      });
+      expect(res.isError).toBeFalsy();
+      expect(pod.puts[0]?.body).toBe("PIXELS");
+      expect(pod.puts[0]?.contentType).toBe("image/png");
+    } finally {
+      await client.close();
+    }
   });
+});
 
-  it("reads an RDF resource as Turtle", async () => {
-    const res = await client.readResource({ uri: `${POD}a.ttl` });
-    const first = res.contents[0] as { mimeType?: string; text?: string };
-    expect(first?.mimeType).toBe("text/turtle");
-    expect(first?.text).toContain("Alpha");
+describe("solid_patch", () => {
+  it("returns isError (NOT throwing) when read-only by default", async () => {
+    const pod = makeFakePod({});
+    const client = await connect({ fetch: pod.fetch, podRoot: POD });
+    try {
+      const res = await client.callTool({
+        name: "solid_patch",
+        arguments: { url: `${POD}a.ttl`, insert: '<#x> <http://schema.org/name> "X" .' },
+      });
+      expect(res.isError).toBe(true);
+      expect(textOf(res as { content: Array<{ type: string; text?: string }> })).toMatch(
+        /write disabled.*read-only/,
+      );
+      expect(pod.writes.length).toBe(0);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("parses the Turtle arguments against the target and PATCHes when readOnly:false", async () => {
+    const pod = makeFakePod({});
+    const client = await connect({ fetch: pod.fetch, podRoot: POD, readOnly: false });
+    try {
+      const res = await client.callTool({
+        name: "solid_patch",
+        arguments: {
+          url: `${POD}a.ttl`,
+          insert: '<#x> <http://schema.org/name> "X" .',
+          delete: '<#x> <http://schema.org/name> "Old" .',
+          format: "sparql-update",
+        },
+      });
+      expect(res.isError).toBeFalsy();
+      expect(pod.writes.length).toBe(1);
+      expect(pod.writes[0]?.method).toBe("PATCH");
+      expect(pod.writes[0]?.contentType).toBe("application/sparql-update");
+      expect(pod.writes[0]?.body).toContain(`<${POD}a.ttl#x> <http://schema.org/name> "X" .`);
+      expect(pod.writes[0]?.body).toContain(`<${POD}a.ttl#x> <http://schema.org/name> "Old" .`);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("returns isError for malformed Turtle without sending anything", async () => {
+    const pod = makeFakePod({});
+    const client = await connect({ fetch: pod.fetch, podRoot: POD, readOnly: false });
+    try {
+      const res = await client.callTool({
+        name: "solid_patch",
+        arguments: { url: `${POD}a.ttl`, insert: "<#x> <http://schema.org/name" },
+      });
+      expect(res.isError).toBe(true);
+      expect(pod.writes.length).toBe(0);
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe("describedby metadata", () => {
+  const photoPod = () =>
+    makeFakePod({
+      [`${POD}photo.jpg`]: {
+        contentType: "text/plain",
+        body: "not really a jpeg",
+        headers: { link: '<photo.jpg.meta>; rel="describedby"' },
+      },
+      [`${POD}photo.jpg.meta`]: {
+        contentType: "text/turtle",
+        body: `<${POD}photo.jpg> <http://purl.org/dc/terms/title> "Beach" .`,
+      },
+    });
+
+  it("solid_read returns the metadata graph as a second block when asked", async () => {
+    const client = await connect({ fetch: photoPod().fetch, podRoot: POD });
+    try {
+      const res = (await client.callTool({
+        name: "solid_read",
+        arguments: { url: `${POD}photo.jpg`, metadata: true },
+      })) as { content: Array<{ type: string; text?: string }> };
+      expect(res.content).toHaveLength(2);
+      expect(res.content[0]?.text).toBe("not really a jpeg");
+      expect(res.content[1]?.text).toMatch(
+        new RegExp(`^\\[metadata from ${POD}photo\\.jpg\\.meta\\]\\n.*"Beach"`, "s"),
+      );
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("solid_read still returns the content when no metadata resource is advertised", async () => {
+    const pod = makeFakePod({ [`${POD}plain.txt`]: { contentType: "text/plain", body: "hi" } });
+    const client = await connect({ fetch: pod.fetch, podRoot: POD });
+    try {
+      const res = (await client.callTool({
+        name: "solid_read",
+        arguments: { url: `${POD}plain.txt`, metadata: true },
+      })) as { isError?: boolean; content: Array<{ type: string; text?: string }> };
+      expect(res.isError).toBeFalsy();
+      expect(res.content[0]?.text).toBe("hi");
+      expect(res.content[1]?.text).toMatch(/^\[no metadata: .*no in-pod Link rel="describedby"/);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("solid_patch_metadata PATCHes the description resource, resolving <> to the resource", async () => {
+    const pod = photoPod();
+    const client = await connect({ fetch: pod.fetch, podRoot: POD, readOnly: false });
+    try {
+      const res = await client.callTool({
+        name: "solid_patch_metadata",
+        arguments: {
+          url: `${POD}photo.jpg`,
+          insert: '<> <http://schema.org/keywords> "holiday" .',
+        },
+      });
+      expect(res.isError).toBeFalsy();
+      expect(pod.writes.map((w) => [w.method, w.url])).toEqual([["PATCH", `${POD}photo.jpg.meta`]]);
+      expect(pod.writes[0]?.body).toContain(
+        `<${POD}photo.jpg> <http://schema.org/keywords> "holiday"`,
+      );
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("solid_patch_metadata is refused when read-only, or when no describedby link exists", async () => {
+    const readOnly = await connect({ fetch: photoPod().fetch, podRoot: POD });
+    try {
+      const res = await readOnly.callTool({
+        name: "solid_patch_metadata",
+        arguments: { url: `${POD}photo.jpg`, insert: '<> <http://schema.org/keywords> "x" .' },
+      });
+      expect(res.isError).toBe(true);
+    } finally {
+      await readOnly.close();
+    }
+    const pod = basePod();
+    const client = await connect({ fetch: pod.fetch, podRoot: POD, readOnly: false });
+    try {
+      const res = await client.callTool({
+        name: "solid_patch_metadata",
+        arguments: { url: `${POD}a.ttl`, insert: '<> <http://schema.org/keywords> "x" .' },
+      });
+      expect(res.isError).toBe(true);
+      expect(textOf(res as { content: Array<{ type: string; text?: string }> })).toMatch(
+        /has no description resource/,
+      );
+      expect(pod.writes).toEqual([]);
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe("solid_create", () => {
+  it("returns isError (NOT throwing) when read-only by default", async () => {
+    const pod = makeFakePod({});
+    const client = await connect({ fetch: pod.fetch, podRoot: POD });
+    try {
+      const res = await client.callTool({
+        name: "solid_create",
+        arguments: { container: `${POD}notes/`, content: "x", contentType: "text/plain" },
+      });
+      expect(res.isError).toBe(true);
+      expect(pod.writes.length).toBe(0);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("creates a resource and reports the minted URL", async () => {
+    const pod = makeFakePod({});
+    const client = await connect({ fetch: pod.fetch, podRoot: POD, readOnly: false });
+    try {
+      const res = await client.callTool({
+        name: "solid_create",
+        arguments: {
+          container: `${POD}notes/`,
+          content: "hi",
+          contentType: "text/plain",
+          slug: "hello.txt",
+        },
+      });
+      expect(res.isError).toBeFalsy();
+      expect(textOf(res as { content: Array<{ type: string; text?: string }> })).toContain(
+        `created ${POD}notes/hello.txt`,
+      );
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("requires a contentType unless creating a container", async () => {
+    const pod = makeFakePod({});
+    const client = await connect({ fetch: pod.fetch, podRoot: POD, readOnly: false });
+    try {
+      const missing = await client.callTool({
+        name: "solid_create",
+        arguments: { container: `${POD}notes/`, content: "hi" },
+      });
+      expect(missing.isError).toBe(true);
+      const folder = await client.callTool({
+        name: "solid_create",
+        arguments: { container: `${POD}notes/`, slug: "2024", asContainer: true },
+      });
+      expect(textOf(folder as { content: Array<{ type: string; text?: string }> })).toContain(
+        `created ${POD}notes/2024/`,
+      );
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe("solid_delete", () => {
+  it("returns isError (NOT throwing) when read-only by default", async () => {
+    const pod = makeFakePod({ [`${POD}x.txt`]: { contentType: "text/plain", body: "x" } });
+    const client = await connect({ fetch: pod.fetch, podRoot: POD });
+    try {
+      const res = await client.callTool({
+        name: "solid_delete",
+        arguments: { url: `${POD}x.txt` },
+      });
+      expect(res.isError).toBe(true);
+      expect(pod.writes.length).toBe(0);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("dry-runs a recursive delete, then performs it", async () => {
+    const pod = basePod();
+    const client = await connect({ fetch: pod.fetch, podRoot: POD, readOnly: false });
+    try {
+      const plan = await client.callTool({
+        name: "solid_delete",
+        arguments: { url: `${POD}notes/`, recursive: true, dryRun: true },
+      });
+      const planned = JSON.parse(
+        textOf(plan as { content: Array<{ type: string; text?: string }> }),
+      );
+      expect(planned).toEqual({ urls: [`${POD}notes/memo.txt`, `${POD}notes/`], dryRun: true });
+      expect(pod.writes.length).toBe(0);
+      const done = await client.callTool({
+        name: "solid_delete",
+        arguments: { url: `${POD}notes/`, recursive: true },
+      });
+      expect(done.isError).toBeFalsy();
+      expect(pod.writes.map((w) => w.method)).toEqual(["DELETE", "DELETE"]);
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe("solid_write — RDF diff preview", () => {
+  it("previews the triple diff without writing, then commits with the previewed etag", async () => {
+    const pod = makeFakePod({
+      [`${POD}a.ttl`]: { contentType: "text/turtle", body: "<#s> <#p> 1 .", etag: '"v1"' },
+    });
+    const client = await connect({ fetch: pod.fetch, podRoot: POD, readOnly: false });
+    try {
+      const args = { url: `${POD}a.ttl`, content: "<#s> <#p> 2 .", contentType: "text/turtle" };
+      const res = await client.callTool({
+        name: "solid_write",
+        arguments: { ...args, preview: true },
+      });
+      expect(res.isError).toBeFalsy();
+      const report = JSON.parse(textOf(res as { content: Array<{ type: string; text?: string }> }));
+      expect(report).toMatchObject({ exists: true, etag: '"v1"', unchanged: 0 });
+      expect(report.added).toEqual([
+        `<${POD}a.ttl#s> <${POD}a.ttl#p> "2"^^<http://www.w3.org/2001/XMLSchema#integer> .`,
+      ]);
+      expect(report.removed).toHaveLength(1);
+      expect(report.commit).toMatch(/expectedEtag "\\"v1\\""/);
+      expect(pod.writes.length).toBe(0);
+      const commit = await client.callTool({
+        name: "solid_write",
+        arguments: { ...args, expectedEtag: report.etag },
+      });
+      expect(commit.isError).toBeFalsy();
+      expect(pod.puts.map((p) => p.body)).toEqual(["<#s> <#p> 2 ."]);
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe("confirmWrites — human approval via elicitation", () => {
+  /**
+   * Connect a client that CAN elicit, answering every elicitation with `answer`
+   * and recording each prompt's message.
+   */
+  async function connectEliciting(
+    config: SolidMcpConfig,
+    answer: ElicitResult,
+  ): Promise<{ client: Client; prompts: string[] }> {
+    const server = createSolidMcpServer(config);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client(
+      { name: "test", version: "0.0.0" },
+      { capabilities: { elicitation: {} } },
+    );
+    const prompts: string[] = [];
+    client.setRequestHandler(ElicitRequestSchema, async (req) => {
+      prompts.push(req.params.message);
+      return answer;
+    });
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+    return { client, prompts };
+  }
+
+  const confirmed = (fetch: typeof globalThis.fetch): SolidMcpConfig => ({
+    fetch,
+    podRoot: POD,
+    readOnly: false,
+    confirmWrites: true,
+  });
+
+  it("writes only after the human approves, showing the target and body", async () => {
+    const pod = basePod();
+    const { client, prompts } = await connectEliciting(confirmed(pod.fetch), {
+      action: "accept",
+      content: { approve: true },
+    });
+    try {
+      const res = await client.callTool({
+        name: "solid_write",
+        arguments: { url: `${POD}new.txt`, content: "hello pod", contentType: "text/plain" },
+      });
+      expect(res.isError).toBeFalsy();
+      expect(prompts).toHaveLength(1);
+      expect(prompts[0]).toMatch(/operation: write/);
+      expect(prompts[0]).toContain(`target: ${POD}new.txt`);
+      expect(prompts[0]).toContain("hello pod");
+      expect(pod.puts.map((p) => p.url)).toEqual([`${POD}new.txt`]);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("changes nothing when the human declines (or accepts without approving)", async () => {
+    for (const answer of [
+      { action: "decline" as const },
+      { action: "accept" as const, content: { approve: false } },
+    ]) {
+      const pod = basePod();
+      const { client } = await connectEliciting(confirmed(pod.fetch), answer);
+      try {
+        const res = await client.callTool({
+          name: "solid_delete",
+          arguments: { url: `${POD}notes/memo.txt` },
+        });
+        expect(res.isError).toBe(true);
+        expect(textOf(res as { content: Array<{ type: string; text?: string }> })).toMatch(
+          /write not confirmed/,
+        );
+        expect(pod.writes.length).toBe(0);
+      } finally {
+        await client.close();
+      }
+    }
+  });
+
+  it("previews a patch as a triple diff and a delete as its full plan", async () => {
+    const pod = basePod();
+    const { client, prompts } = await connectEliciting(confirmed(pod.fetch), {
+      action: "cancel",
+    });
+    try {
+      await client.callTool({
+        name: "solid_patch",
+        arguments: { url: `${POD}a.ttl`, insert: "<#a> <#b> <#c>." },
+      });
+      await client.callTool({
+        name: "solid_delete",
+        arguments: { url: `${POD}notes/`, recursive: true },
+      });
+      expect(prompts[0]).toMatch(/^\+ <#a> <#b> <#c>\.$/m);
+      expect(prompts[1]).toContain(`${POD}notes/memo.txt\n${POD}notes/`);
+      expect(pod.writes.length).toBe(0);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("previews each batch step's body and triples", async () => {
+    const pod = basePod();
+    const { client, prompts } = await connectEliciting(confirmed(pod.fetch), {
+      action: "cancel",
+    });
+    try {
+      await client.callTool({
+        name: "solid_batch",
+        arguments: {
+          operations: [
+            { op: "put", url: `${POD}new.txt`, content: "hello pod", contentType: "text/plain" },
+            { op: "patch", url: `${POD}a.ttl`, insert: "<#a> <#b> <#c>." },
+            { op: "delete", url: `${POD}notes/memo.txt` },
+          ],
+        },
+      });
+      expect(prompts[0]).toContain(`1. put ${POD}new.txt\ntext/plain body:\nhello pod`);
+      expect(prompts[0]).toContain(
+        `2. patch ${POD}a.ttl\n+ <${POD}a.ttl#a> <${POD}a.ttl#b> <${POD}a.ttl#c> .`,
+      );
+      expect(prompts[0]).toContain(`3. delete ${POD}notes/memo.txt`);
+      expect(pod.writes.length).toBe(0);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("deletes only the approved plan, refusing when the tree grew after approval", async () => {
+    const pod = basePod();
+    let listings = 0;
+    // The dry run sees notes/ as approved; by the real delete it holds a newcomer.
+    const growing = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (String(input) === `${POD}notes/` && (init?.method ?? "GET") === "GET" && listings++ > 0) {
+        const body = containerTurtle(`${POD}notes/`, [{ name: "memo.txt" }, { name: "new.txt" }]);
+        return new Response(body, { status: 200, headers: { "content-type": "text/turtle" } });
+      }
+      return pod.fetch(input, init);
+    }) as typeof fetch;
+    const { client } = await connectEliciting(confirmed(growing), {
+      action: "accept",
+      content: { approve: true },
+    });
+    try {
+      const res = await client.callTool({
+        name: "solid_delete",
+        arguments: { url: `${POD}notes/`, recursive: true },
+      });
+      expect(res.isError).toBe(true);
+      expect(textOf(res as { content: Array<{ type: string; text?: string }> })).toMatch(
+        /changed since the plan was approved .*nothing was deleted/,
+      );
+      expect(pod.writes.length).toBe(0);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("previews a move as its full plan and moves only that plan", async () => {
+    const pod = basePod();
+    let listings = 0;
+    // The dry run sees notes/ as approved; by the real move it holds a newcomer.
+    const growing = (async (input: RequestInfo | URL, init?: RequestInit) => {
+      if (String(input) === `${POD}notes/` && (init?.method ?? "GET") === "GET" && listings++ > 0) {
+        const body = containerTurtle(`${POD}notes/`, [{ name: "memo.txt" }, { name: "new.txt" }]);
+        return new Response(body, { status: 200, headers: { "content-type": "text/turtle" } });
+      }
+      return pod.fetch(input, init);
+    }) as typeof fetch;
+    const { client, prompts } = await connectEliciting(confirmed(growing), {
+      action: "accept",
+      content: { approve: true },
+    });
+    try {
+      const res = await client.callTool({
+        name: "solid_move",
+        arguments: { from: `${POD}notes/`, to: `${POD}archive/` },
+      });
+      expect(prompts[0]).toContain(
+        `copies 1 resource(s):\n${POD}notes/memo.txt → ${POD}archive/memo.txt\n` +
+          `then deletes 2 source(s):\n${POD}notes/memo.txt\n${POD}notes/`,
+      );
+      expect(res.isError).toBe(true);
+      expect(textOf(res as { content: Array<{ type: string; text?: string }> })).toMatch(
+        /changed since the plan was approved .*nothing was copied/,
+      );
+      expect(pod.writes.length).toBe(0);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("fails CLOSED when the client does not support elicitation", async () => {
+    const pod = basePod();
+    const client = await connect(confirmed(pod.fetch));
+    try {
+      const res = await client.callTool({
+        name: "solid_write",
+        arguments: { url: `${POD}new.txt`, content: "x", contentType: "text/plain" },
+      });
+      expect(res.isError).toBe(true);
+      expect(textOf(res as { content: Array<{ type: string; text?: string }> })).toMatch(
+        /does not support elicitation/,
+      );
+      expect(pod.writes.length).toBe(0);
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe("writable scopes", () => {
+  it("returns a write-scope isError for a write outside the allowed subtrees", async () => {
+    const pod = basePod();
+    const client = await connect({
+      fetch: pod.fetch,
+      podRoot: POD,
+      readOnly: false,
+      writableScopes: { allow: ["agent-notes/"] },
+    });
+    try {
+      const res = await client.callTool({
+        name: "solid_write",
+        arguments: { url: `${POD}notes/memo.txt`, content: "x", contentType: "text/plain" },
+      });
+      expect(res.isError).toBe(true);
+      expect(textOf(res as { content: Array<{ type: string; text?: string }> })).toMatch(
+        /write-scope violation/,
+      );
+      const ok = await client.callTool({
+        name: "solid_write",
+        arguments: { url: `${POD}agent-notes/n.txt`, content: "x", contentType: "text/plain" },
+      });
+      expect(ok.isError).toBeFalsy();
+      expect(pod.writes.map((w) => w.url)).toEqual([`${POD}agent-notes/n.txt`]);
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe("solid_copy / solid_move", () => {
+  it("returns isError (NOT throwing) when read-only by default", async () => {
+    const pod = basePod();
+    const client = await connect({ fetch: pod.fetch, podRoot: POD });
+    try {
+      for (const name of ["solid_copy", "solid_move"]) {
+        const res = await client.callTool({
+          name,
+          arguments: { from: `${POD}notes/memo.txt`, to: `${POD}memo.txt` },
+        });
+        expect(res.isError).toBe(true);
+      }
+      expect(pod.writes.length).toBe(0);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("solid_move renames a resource and reports what was copied and deleted", async () => {
+    const pod = basePod();
+    const client = await connect({ fetch: pod.fetch, podRoot: POD, readOnly: false });
+    try {
+      const res = await client.callTool({
+        name: "solid_move",
+        arguments: { from: `${POD}notes/memo.txt`, to: `${POD}notes/renamed.txt` },
+      });
+      expect(res.isError).toBeFalsy();
+      const result = JSON.parse(textOf(res as { content: Array<{ type: string; text?: string }> }));
+      expect(result.copied[0]).toMatchObject({
+        to: `${POD}notes/renamed.txt`,
+        contentType: "text/plain",
+      });
+      expect(result.deleted).toEqual([`${POD}notes/memo.txt`]);
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe("solid_batch", () => {
+  it("returns isError (NOT throwing) when read-only by default", async () => {
+    const pod = basePod();
+    const client = await connect({ fetch: pod.fetch, podRoot: POD });
+    try {
+      const res = await client.callTool({
+        name: "solid_batch",
+        arguments: { operations: [{ op: "delete", url: `${POD}notes/memo.txt` }] },
+      });
+      expect(res.isError).toBe(true);
+      expect(pod.writes.length).toBe(0);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("reports per-step outcomes and rolls back on failure", async () => {
+    const pod = basePod();
+    const client = await connect({ fetch: pod.fetch, podRoot: POD, readOnly: false });
+    try {
+      const res = await client.callTool({
+        name: "solid_batch",
+        arguments: {
+          operations: [
+            { op: "patch", url: `${POD}a.ttl`, insert: "<#a> <#b> <#c> ." },
+            { op: "delete", url: `${POD}notes/missing.txt` },
+          ],
+        },
+      });
+      expect(res.isError).toBe(true);
+      const report = JSON.parse(textOf(res as { content: Array<{ type: string; text?: string }> }));
+      expect(report.ok).toBe(false);
+      expect(report.steps.map((s: { status: string }) => s.status)).toEqual([
+        "rolled-back",
+        "failed",
+      ]);
+      // The rollback re-PUT a.ttl's snapshot.
+      expect(pod.puts.map((p) => p.url)).toEqual([`${POD}a.ttl`]);
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe("solid_undo", () => {
+  it("undoes the last overwrite, reporting what it restored", async () => {
+    const pod = basePod();
+    const client = await connect({
+      fetch: pod.fetch,
+      podRoot: POD,
+      readOnly: false,
+      trashContainer: ".solid-mcp/trash/",
+    });
+    try {
+      await client.callTool({
+        name: "solid_write",
+        arguments: { url: `${POD}notes/memo.txt`, content: "oops", contentType: "text/plain" },
+      });
+      const res = await client.callTool({ name: "solid_undo", arguments: {} });
+      expect(res.isError).toBeFalsy();
+      const report = JSON.parse(textOf(res as { content: Array<{ type: string; text?: string }> }));
+      expect(report.restored.map((e: { url: string; kind: string }) => [e.url, e.kind])).toEqual([
+        [`${POD}notes/memo.txt`, "update"],
+      ]);
+      const read = await client.callTool({
+        name: "solid_read",
+        arguments: { url: `${POD}notes/memo.txt` },
+      });
+      expect(textOf(read as { content: Array<{ type: string; text?: string }> })).toContain(
+        "remember the avocados",
+      );
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("returns isError when no trash container is configured", async () => {
+    const pod = basePod();
+    const client = await connect({ fetch: pod.fetch, podRoot: POD, readOnly: false });
+    try {
+      const res = await client.callTool({ name: "solid_undo", arguments: {} });
+      expect(res.isError).toBe(true);
+      expect(textOf(res as { content: Array<{ type: string; text?: string }> })).toMatch(
+        /no trashContainer configured/,
+      );
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe("solid_sparql", () => {
+  it("returns SPARQL JSON for a SELECT and Turtle for a CONSTRUCT, with a summary line", async () => {
+    const client = await connect({ fetch: basePod().fetch, podRoot: POD });
+    try {
+      const select = (await client.callTool({
+        name: "solid_sparql",
+        arguments: { query: "SELECT ?n WHERE { ?s <http://xmlns.com/foaf/0.1/name> ?n }" },
+      })) as { content: Array<{ type: string; text?: string }> };
+      expect(JSON.parse(select.content[0]?.text ?? "")).toEqual({
+        head: { vars: ["n"] },
+        results: { bindings: [{ n: { type: "literal", value: "Alpha" } }] },
+      });
+      expect(select.content[1]?.text).toBe(`[queried 1 documents under ${POD}]`);
+      const construct = (await client.callTool({
+        name: "solid_sparql",
+        arguments: {
+          query:
+            "CONSTRUCT { ?s <http://schema.org/name> ?n } WHERE { ?s <http://xmlns.com/foaf/0.1/name> ?n }",
+        },
+      })) as { content: Array<{ type: string; text?: string }> };
+      expect(construct.content[0]?.text).toContain(
+        `<${POD}a.ttl> <http://schema.org/name> "Alpha"`,
+      );
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("returns isError for an update", async () => {
+    const client = await connect({ fetch: basePod().fetch, podRoot: POD });
+    try {
+      const res = await client.callTool({
+        name: "solid_sparql",
+        arguments: { query: "DELETE WHERE { ?s ?p ?o }" },
+      });
+      expect(res.isError).toBe(true);
+      expect(textOf(res as { content: Array<{ type: string; text?: string }> })).toMatch(
+        /only SELECT, ASK, CONSTRUCT and DESCRIBE/,
+      );
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe("solid_reindex", () => {
+  it("builds the index that solid_search then answers from", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "solid-mcp-index-"));
+    const client = await connect({
+      fetch: basePod().fetch,
+      podRoot: POD,
+      indexPath: join(dir, "index.json"),
+    });
+    try {
+      const res = await client.callTool({ name: "solid_reindex", arguments: {} });
+      expect(res.isError).toBeFalsy();
+      const report = JSON.parse(textOf(res as { content: Array<{ type: string; text?: string }> }));
+      expect(report).toMatchObject({ removed: 0, truncated: false });
+      expect(report.indexed).toBeGreaterThan(0);
+      const hits = await client.callTool({ name: "solid_search", arguments: { query: "alpha" } });
+      expect(textOf(hits as { content: Array<{ type: string; text?: string }> })).toContain(
+        `${POD}a.ttl`,
+      );
+    } finally {
+      await client.close();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("returns isError when no indexPath is configured", async () => {
+    const client = await connect({ fetch: basePod().fetch, podRoot: POD });
+    try {
+      const res = await client.callTool({ name: "solid_reindex", arguments: {} });
+      expect(res.isError).toBe(true);
+      expect(textOf(res as { content: Array<{ type: string; text?: string }> })).toMatch(
+        /no indexPath configured/,
+      );
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe("solid_read — partial reads", () => {
+  it("returns a capped part with the offset to continue from", async () => {
+    // The fake pod ignores Range and sends no Content-Length, so no total size is known.
+    const pod = makeFakePod({
+      [`${POD}log.txt`]: { contentType: "text/plain", body: "line one\nline two\n" },
+    });
+    const client = await connect({ fetch: pod.fetch, podRoot: POD, maxBytes: 9 });
+    try {
+      const first = await client.callTool({
+        name: "solid_read",
+        arguments: { url: `${POD}log.txt` },
+      });
+      expect(textOf(first as { content: Array<{ type: string; text?: string }> })).toBe(
+        "[partial read from byte 0: truncated — continue with offset 9]\nline one\n",
+      );
+      const rest = await client.callTool({
+        name: "solid_read",
+        arguments: { url: `${POD}log.txt`, offset: 9 },
+      });
+      expect(textOf(rest as { content: Array<{ type: string; text?: string }> })).toBe(
+        "[partial read from byte 9: to the end]\nline two\n",
+      );
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe("solid_read — binary content", () => {
+  type Block = {
+    type: string;
+    text?: string;
+    data?: string;
+    mimeType?: string;
+    uri?: string;
+    size?: number;
+  };
+  const pod = () =>
+    makeFakePod({
+      [`${POD}pic.png`]: { contentType: "image/png", body: "PIXELS" },
+      [`${POD}clip.mp3`]: { contentType: "audio/mpeg", body: "SOUND" },
+      [`${POD}report.pdf`]: { contentType: "application/pdf", body: "%PDF-1.7" },
+    });
+  const read = async (client: Client, args: Record<string, unknown>) =>
+    ((await client.callTool({ name: "solid_read", arguments: args })) as { content: Block[] })
+      .content;
+
+  it("returns image and audio parts for whole media files", async () => {
+    const client = await connect({ fetch: pod().fetch, podRoot: POD });
+    try {
+      expect(await read(client, { url: `${POD}pic.png` })).toEqual([
+        { type: "image", data: Buffer.from("PIXELS").toString("base64"), mimeType: "image/png" },
+      ]);
+      expect(await read(client, { url: `${POD}clip.mp3` })).toEqual([
+        { type: "audio", data: Buffer.from("SOUND").toString("base64"), mimeType: "audio/mpeg" },
+      ]);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("links to other binaries, and to media over maxBytes, instead of inlining them", async () => {
+    const client = await connect({ fetch: pod().fetch, podRoot: POD, maxBytes: 4 });
+    try {
+      const pdf = await read(client, { url: `${POD}report.pdf` });
+      expect(pdf[0]?.text).toMatch(/application\/pdf: .*not inlined.*format "raw"/);
+      expect(pdf[1]).toEqual({
+        type: "resource_link",
+        uri: `${POD}report.pdf`,
+        name: "report.pdf",
+        mimeType: "application/pdf",
+      });
+      const big = await read(client, { url: `${POD}pic.png` });
+      expect(big.map((b) => b.type)).toEqual(["text", "resource_link"]);
+      expect(big[0]?.text).toMatch(/larger than maxBytes/);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it("still returns base64 text with format raw", async () => {
+    const client = await connect({ fetch: pod().fetch, podRoot: POD });
+    try {
+      const res = await read(client, { url: `${POD}pic.png`, format: "raw" });
+      expect(res).toEqual([
+        {
+          type: "text",
+          text: `[binary image/png, base64]\n${Buffer.from("PIXELS").toString("base64")}`,
+        },
+      ]);
+    } finally {
+      await client.close();
+    }
+  });
+});
+
+describe("solid_read — formats", () => {
+  let client: Client;
+  beforeEach(async () => {
+    client = await connect({ fetch: basePod().fetch, podRoot: POD });
+  });
+  afterEach(async () => {
+    await client.close();
+  });
+
+  const read = async (args: Record<string, unknown>) =>
+    (await client.callTool({ name: "solid_read", arguments: args })) as {
+      isError?: boolean;
+      content: Array<{ type: string; text?: string }>;
+    };
+
+  it("renders RDF as N-Triples", async () => {
+    const res = await read({ url: `${POD}a.ttl`, format: "ntriples" });
+    expect(res.isError).toBeFalsy();
+    expect(textOf(res)).toBe(`<${POD}a.ttl> <http://xmlns.com/foaf/0.1/name> "Alpha" .\n`);
+  });
+
+  it("renders RDF as JSON-LD compacted with the supplied context", async () => {
+    const res = await read({
+      url: `${POD}a.ttl`,
+      format: "jsonld",
+      context: { dc: "http://purl.org/dc/terms/" },
+    });
+    expect(res.isError).toBeFalsy();
+    const doc = JSON.parse(textOf(res));
+    expect(doc["@context"]).toEqual({ dc: "http://purl.org/dc/terms/" });
+    expect(textOf(res)).toContain("Alpha");
+  });
+
+  it("returns the original bytes with format raw", async () => {
+    const pod = makeFakePod({
+      [`${POD}a.ttl`]: { contentType: "text/turtle", body: "# as stored\n<#x> <#p> 1 ." },
+    });
+    const raw = await connect({ fetch: pod.fetch, podRoot: POD });
+    try {
+      const res = await raw.callTool({
+        name: "solid_read",
+        arguments: { url: `${POD}a.ttl`, format: "raw" },
+      });
+      expect(textOf(res as { content: Array<{ type: string; text?: string }> })).toBe(
+        "# as stored\n<#x> <#p> 1 .",
+      );
+    } finally {
+      await raw.close();
+    }
+  });
+
+  it("extracts the readable text of an HTML document", async () => {
+    const pod = makeFakePod({
+      [`${POD}page.html`]: {
+        contentType: "text/html",
+        body: '<h2>Notes</h2><p>See <a href="todo.md">the list</a>.</p>',
+      },
+    });
+    const html = await connect({ fetch: pod.fetch, podRoot: POD });
+    try {
+      const asText = await html.callTool({
+        name: "solid_read",
+        arguments: { url: `${POD}page.html`, extract: "text" },
+      });
+      expect(textOf(asText as { content: Array<{ type: string; text?: string }> })).toBe(
+        "Notes\n\nSee the list.",
+      );
+      const asMarkdown = await html.callTool({
+        name: "solid_read",
+        arguments: { url: `${POD}page.html`, extract: "markdown" },
+      });
+      expect(textOf(asMarkdown as { content: Array<{ type: string; text?: string }> })).toBe(
+        `## Notes\n\nSee [the list](${POD}todo.md).`,
+      );
+    } finally {
+      await html.close();
+    }
+    const mixed = await read({ url: `${POD}a.ttl`, extract: "text", format: "raw" });
+    expect(mixed.isError).toBe(true);
+    expect(textOf(mixed)).toMatch(/extract replaces format and view/);
+  });
+
+  it("refuses an RDF format for a non-RDF resource, and a context without jsonld", async () => {
+    const notRdf = await read({ url: `${POD}notes/memo.txt`, format: "turtle" });
+    expect(notRdf.isError).toBe(true);
+    expect(textOf(notRdf)).toMatch(/not RDF \(text\/plain\).*"raw"/);
+    const stray = await read({ url: `${POD}a.ttl`, format: "ntriples", context: {} });
+    expect(stray.isError).toBe(true);
+    expect(textOf(stray)).toMatch(/context only applies to format "jsonld"/);
+  });
+
+  it("summarises RDF with view summary, as Markdown or JSON", async () => {
+    const md = await read({ url: `${POD}a.ttl`, view: "summary" });
+    expect(textOf(md)).toContain('## <>\n- foaf:name: "Alpha"');
+    const json = await read({ url: `${POD}a.ttl`, view: "summary", summaryFormat: "json" });
+    expect(JSON.parse(textOf(json)).subjects[0].properties["foaf:name"]).toEqual(["Alpha"]);
+    const both = await read({ url: `${POD}a.ttl`, view: "summary", format: "turtle" });
+    expect(both.isError).toBe(true);
+  });
+
+  it("refuses an RDF format for a partial read", async () => {
+    const res = await read({ url: `${POD}a.ttl`, format: "nquads", length: 4 });
+    expect(res.isError).toBe(true);
+    expect(textOf(res)).toMatch(/only part of it was read/);
+  });
+});
+
+describe("resource read callback", () => {
+  let client: Client;
+  beforeEach(async () => {
+    client = await connect({ fetch: basePod().fetch, podRoot: POD });
+  });
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it("reads a container as a JSON listing", async () => {
+    const res = await client.readResource({ uri: POD });
+    const first = res.contents[0] as { mimeType?: string; text?: string };
+    expect(first?.mimeType).toBe("application/json");
+    expect(first?.text).toContain("a.ttl");
+  });
+
+  it("reads an RDF resource as Turtle", async () => {
+    const res = await client.readResource({ uri: `${POD}a.ttl` });
+    const first = res.contents[0] as { mimeType?: string; text?: string };
+    expect(first?.mimeType).toBe("text/turtle");
+    expect(first?.text).toContain("Alpha");
+  });
+
+  it("reads an RDF resource in the format a ?format= suffix asks for", async () => {
+    const res = await client.readResource({ uri: `${POD}a.ttl?format=jsonld` });
+    const first = res.contents[0] as { uri: string; mimeType?: string; text?: string };
+    expect(first.uri).toBe(`${POD}a.ttl?format=jsonld`);
+    expect(first.mimeType).toBe("application/ld+json");
+    expect(JSON.parse(first.text ?? "")).toBeTruthy();
+    expect(first.text).toContain("Alpha");
+  });
+
+  it("summarises an RDF resource for a ?view=summary suffix", async () => {
+    const res = await client.readResource({ uri: `${POD}a.ttl?view=summary` });
+    const first = res.contents[0] as { mimeType?: string; text?: string };
+    expect(first.mimeType).toBe("text/markdown");
+    expect(first.text).toContain('- foaf:name: "Alpha"');
+  });
+
+  it("rejects an unknown ?format= value", async () => {
+    await expect(client.readResource({ uri: `${POD}a.ttl?format=rdfxml` })).rejects.toThrow(
+      /unknown format "rdfxml"/,
+    );
   });
 
   it("reads a plain text resource as text", async () => {